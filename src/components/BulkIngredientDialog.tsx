@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useI18n } from "@/hooks/useI18n";
+import { formatAmount, MAX_PASTE_LENGTH, parseIngredientList, type Amount, type ParsedIngredient } from "@shared/ingredient-list";
+
+export interface BulkIngredient {
+  name: string;
+  amount: Amount | null;
+}
+
+interface BulkIngredientDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAdd: (ingredients: BulkIngredient[]) => void;
+}
+
+interface ReviewRow extends ParsedIngredient {
+  include: boolean;
+}
+
+/** Paste a list or a sentence, check how it was read, then add it all at once. */
+const BulkIngredientDialog = ({ open, onOpenChange, onAdd }: BulkIngredientDialogProps) => {
+  const { t } = useI18n();
+  const [text, setText] = useState("");
+  // Null while still on the paste step.
+  const [rows, setRows] = useState<ReviewRow[] | null>(null);
+  const [nothingFound, setNothingFound] = useState(false);
+
+  const close = () => {
+    setText("");
+    setRows(null);
+    setNothingFound(false);
+    onOpenChange(false);
+  };
+
+  const read = () => {
+    const parsed = parseIngredientList(text);
+    setNothingFound(parsed.length === 0);
+    if (parsed.length > 0) setRows(parsed.map((row) => ({ ...row, include: true })));
+  };
+
+  const updateRow = (index: number, changes: Partial<ReviewRow>) =>
+    setRows((current) => current && current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const selected = (rows ?? []).filter((row) => row.include && row.name.trim());
+
+  const add = () => {
+    onAdd(selected.map(({ name, amount }) => ({ name: name.trim(), amount })));
+    close();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("bulk.title")}</DialogTitle>
+          <DialogDescription>{rows ? t("bulk.reviewDescription") : t("bulk.description")}</DialogDescription>
+        </DialogHeader>
+
+        {rows ? (
+          <ul className="space-y-2">
+            {rows.map((row, index) => (
+              <li key={index} className="flex items-center gap-2">
+                <Checkbox
+                  checked={row.include}
+                  onCheckedChange={(checked) => updateRow(index, { include: checked === true })}
+                  aria-label={t("bulk.include", { name: row.name })}
+                />
+                {row.amount && (
+                  <span className="text-sm text-muted-foreground shrink-0">{formatAmount(row.amount)}</span>
+                )}
+                <div className="flex-1 space-y-1">
+                  <Input
+                    value={row.name}
+                    onChange={(e) => updateRow(index, { name: e.target.value, correction: null, needsReview: false })}
+                    aria-label={t("bulk.nameLabel")}
+                    title={row.source}
+                    className="h-8"
+                  />
+                  {row.correction && (
+                    <button
+                      type="button"
+                      onClick={() => updateRow(index, { name: row.correction ?? row.name, known: true, correction: null })}
+                      className="text-xs text-primary underline underline-offset-2"
+                    >
+                      {t("bulk.didYouMean", { name: row.correction })}
+                    </button>
+                  )}
+                  {row.needsReview && <p className="text-xs text-muted-foreground">{t("bulk.needsReview")}</p>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="space-y-2">
+            <Textarea
+              value={text}
+              onChange={(e) => {
+                setText(e.target.value);
+                setNothingFound(false);
+              }}
+              placeholder={t("bulk.placeholder")}
+              maxLength={MAX_PASTE_LENGTH}
+              rows={6}
+            />
+            {nothingFound && <p className="text-sm text-destructive">{t("bulk.nothingFound")}</p>}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {rows ? (
+            <>
+              <Button variant="outline" onClick={() => setRows(null)}>
+                {t("bulk.back")}
+              </Button>
+              <Button onClick={add} disabled={selected.length === 0}>
+                {t("bulk.add", { count: selected.length })}
+              </Button>
+            </>
+          ) : (
+            <Button onClick={read} disabled={!text.trim()}>
+              {t("bulk.read")}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BulkIngredientDialog;
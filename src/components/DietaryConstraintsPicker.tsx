@@ -0,0 +1,57 @@
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useI18n } from "@/hooks/useI18n";
+import { ALLERGENS, DIETS, type Allergen, type Diet, type DietaryConstraints } from "@shared/constraints";
+
+interface DietaryConstraintsPickerProps {
+  value: DietaryConstraints;
+  onChange: (value: DietaryConstraints) => void;
+}
+
+const DietaryConstraintsPicker = ({ value, onChange }: DietaryConstraintsPickerProps) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold mb-2 text-foreground">{t("dietary.diets")}</h3>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          value={value.diets}
+          onValueChange={(diets) => onChange({ ...value, diets: diets as Diet[] })}
+          className="flex-wrap justify-start"
+        >
+          {DIETS.map((diet) => (
+            <ToggleGroupItem key={diet} value={diet}>
+              {t(`diet.${diet}`)}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      <div>
+        <h3 className="text-sm font-semibold mb-2 text-foreground">{t("dietary.allergens")}</h3>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          value={value.allergens}
+          onValueChange={(allergens) => onChange({ ...value, allergens: allergens as Allergen[] })}
+          className="flex-wrap justify-start"
+        >
+          {ALLERGENS.map((allergen) => (
+            <ToggleGroupItem
+              key={allergen}
+              value={allergen}
+              className="data-[state=on]:bg-destructive data-[state=on]:text-destructive-foreground"
+            >
+              {t(`allergenName.${allergen}`)}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+    </div>
+  );
+};
+
+export default DietaryConstraintsPicker;
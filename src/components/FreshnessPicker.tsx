@@ -0,0 +1,94 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { Hourglass } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import { cn } from "@/lib/utils";
+import { rankUrgentIngredients, type Freshness } from "@shared/freshness";
+
+interface FreshnessPickerProps {
+  ingredient: string;
+  value: Freshness | undefined;
+  /** The user's date, YYYY-MM-DD. */
+  today: string;
+  onChange: (value: Freshness | undefined) => void;
+}
+
+const FreshnessPicker = ({ ingredient, value, today, onChange }: FreshnessPickerProps) => {
+  const { t, formatDate } = useI18n();
+  const [urgent] = value ? rankUrgentIngredients({ [ingredient]: value }, today) : [];
+  const id = `freshness-${ingredient.replace(/\W+/g, "-")}`;
+
+  const describeDaysLeft = (daysLeft: number | null) => {
+    if (daysLeft === null) return t("freshness.soon");
+    if (daysLeft < 0) return t("freshness.pastDate");
+    if (daysLeft === 0) return t("freshness.today");
+    if (daysLeft === 1) return t("freshness.tomorrow");
+    return t("freshness.inDays", { count: daysLeft });
+  };
+
+  const update = (changes: Freshness) => {
+    const next = { ...value, ...changes };
+    if (!next.expiresOn) delete next.expiresOn;
+    if (!next.useSoon) delete next.useSoon;
+    onChange(next.expiresOn || next.useSoon ? next : undefined);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          aria-label={t("freshness.label", { name: ingredient })}
+          title={
+            urgent
+              ? describeDaysLeft(urgent.daysLeft)
+              : value?.expiresOn
+                ? t("freshness.expires", { date: formatDate(`${value.expiresOn}T00:00`) })
+                : t("freshness.setExpiry")
+          }
+          className={cn(
+            "rounded-full p-0.5 transition-colors hover:bg-background/20",
+            urgent ? "text-destructive" : value ? "text-foreground" : "text-muted-foreground"
+          )}
+        >
+          <Hourglass className="w-3 h-3" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3">
+        <p className="text-sm font-semibold capitalize">{ingredient}</p>
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-date`} className="text-xs">{t("freshness.expiresOn")}</Label>
+          <div className="flex gap-2">
+            <Input
+              id={`${id}-date`}
+              type="date"
+              value={value?.expiresOn ?? ""}
+              onChange={(e) => update({ expiresOn: e.target.value || undefined })}
+              className="h-8 flex-1"
+            />
+            {value?.expiresOn && (
+              <Button size="sm" variant="ghost" className="h-8" onClick={() => update({ expiresOn: undefined })}>
+                {t("common.clear")}
+              </Button>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`${id}-soon`}
+            checked={value?.useSoon === true}
+            onCheckedChange={(useSoon) => update({ useSoon })}
+          />
+          <Label htmlFor={`${id}-soon`} className="text-sm">{t("freshness.useSoon")}</Label>
+        </div>
+        {urgent && (
+          <p className="text-xs text-destructive">{t("freshness.usedFirst", { when: describeDaysLeft(urgent.daysLeft) })}</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default FreshnessPicker;
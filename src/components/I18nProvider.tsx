@@ -0,0 +1,27 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { createI18n, detectLocale, I18nContext, storeLocale, type UiLocale } from "@/i18n";
+
+/** Holds the interface locale and keeps the document's `lang` and `dir` in step with it. */
+const I18nProvider = ({ children }: { children: ReactNode }) => {
+  const [locale, setLocaleState] = useState<UiLocale>(detectLocale);
+
+  const value = useMemo(
+    () => ({
+      ...createI18n(locale),
+      setLocale: (next: UiLocale) => {
+        storeLocale(next);
+        setLocaleState(next);
+      },
+    }),
+    [locale]
+  );
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = value.dir;
+  }, [locale, value.dir]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
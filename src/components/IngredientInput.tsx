@@ -0,0 +1,104 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Command, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Plus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/useI18n";
+import { canonicalIngredient, searchIngredients, suggestCorrection } from "@shared/ingredient-dictionary";
+
+interface IngredientInputProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  /** Called with the picked dictionary name, or the text as typed. */
+  onAdd: (ingredient: string) => void;
+  className?: string;
+}
+
+/**
+ * Ingredient entry with dictionary autocomplete. Enter picks the highlighted
+ * option; a likely typo puts its correction at the top of the list.
+ */
+const IngredientInput = ({ value, onValueChange, onAdd, className }: IngredientInputProps) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState("");
+  const query = value.trim();
+
+  const suggestions = useMemo(() => searchIngredients(query), [query]);
+  const correction = useMemo(() => (suggestions.length === 0 ? suggestCorrection(query) : null), [query, suggestions]);
+  // Typed text that is already a dictionary name shows up among the suggestions.
+  const offerTyped = query !== "" && canonicalIngredient(query) === null;
+
+  const first = correction
+    ? `correction:${correction}`
+    : suggestions.length > 0
+      ? `suggestion:${suggestions[0].name}`
+      : `typed:${query}`;
+  useEffect(() => setSelected(first), [first]);
+
+  const add = (ingredient: string) => {
+    if (ingredient.trim()) onAdd(ingredient.trim());
+  };
+
+  return (
+    <div className={cn("flex gap-2", className)}>
+      <Command
+        shouldFilter={false}
+        value={selected}
+        onValueChange={setSelected}
+        className="relative flex-1 overflow-visible rounded-md border border-input bg-background"
+      >
+        <CommandInput
+          value={value}
+          onValueChange={(next) => {
+            onValueChange(next);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={(e) => e.key === "Escape" && setOpen(false)}
+          placeholder={t("index.ingredientPlaceholder")}
+          className="h-10"
+        />
+        {open && query && (
+          <CommandList
+            // Keeps focus in the input so a click can land on an option.
+            onMouseDown={(e) => e.preventDefault()}
+            className="absolute inset-x-0 top-full z-20 mt-1 rounded-md border bg-popover shadow-md"
+          >
+            {correction && (
+              <CommandGroup heading={t("index.didYouMean")}>
+                <CommandItem value={`correction:${correction}`} onSelect={() => add(correction)}>
+                  {correction}
+                </CommandItem>
+              </CommandGroup>
+            )}
+            {suggestions.length > 0 && (
+              <CommandGroup heading={t("index.suggestions")}>
+                {suggestions.map(({ name, via }) => (
+                  <CommandItem key={name} value={`suggestion:${name}`} onSelect={() => add(name)}>
+                    {name}
+                    {via && <span className="ms-auto text-xs text-muted-foreground">{via}</span>}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {offerTyped && (
+              <CommandGroup>
+                <CommandItem value={`typed:${query}`} onSelect={() => add(query)}>
+                  <Plus className="w-4 h-4 me-2" />
+                  {t("index.addTyped", { name: query })}
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        )}
+      </Command>
+      <Button onClick={() => add(query)} size="icon" className="shrink-0 h-auto" aria-label={t("index.addIngredient")}>
+        <Plus className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+};
+
+export default IngredientInput;
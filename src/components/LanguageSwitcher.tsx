@@ -0,0 +1,33 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Languages } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/useI18n";
+import { UI_LOCALES, type UiLocale } from "@/i18n";
+import { LANGUAGE_LABELS } from "@shared/language";
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+/** Picks the interface language; recipes have their own language setting. */
+const LanguageSwitcher = ({ className }: LanguageSwitcherProps) => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <Select value={locale} onValueChange={(value) => setLocale(value as UiLocale)}>
+      <SelectTrigger className={cn("w-auto gap-2", className)} aria-label={t("common.language")}>
+        <Languages className="w-4 h-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {UI_LOCALES.map((code) => (
+          <SelectItem key={code} value={code} lang={code}>
+            {LANGUAGE_LABELS[code]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default LanguageSwitcher;
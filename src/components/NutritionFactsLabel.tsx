@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useI18n } from "@/hooks/useI18n";
+import type { Macros } from "@shared/recipe";
+import { MICRONUTRIENT_FACTS, NUTRITION_FACTS, type NutritionFact } from "@shared/nutrients";
+
+interface NutritionFactsLabelProps {
+  /** Per serving; detailed figures may be missing on older recipes. */
+  macros: Partial<Macros>;
+  servings: number;
+}
+
+type Basis = "serving" | "recipe";
+
+const formatAmount = (value: number, unit: NutritionFact["unit"]) =>
+  unit === "g" && value < 10 ? `${Math.round(value * 10) / 10}${unit}` : `${Math.round(value)}${unit}`;
+
+const NutritionFactsLabel = ({ macros, servings }: NutritionFactsLabelProps) => {
+  const { t } = useI18n();
+  const [basis, setBasis] = useState<Basis>("serving");
+  const factor = basis === "recipe" ? servings : 1;
+
+  const amount = (key: keyof Macros) => {
+    const value = macros[key];
+    return value == null ? null : value * factor;
+  };
+
+  const renderFact = (fact: NutritionFact) => {
+    const value = amount(fact.key);
+    return (
+      <div key={fact.key} className="flex justify-between border-t border-foreground/60 py-0.5 text-sm">
+        <span className={fact.indent ? "ps-4" : "font-bold"}>
+          {t(`nutrient.${fact.key}`)}{" "}
+          <span className="font-normal">{value == null ? "–" : formatAmount(value, fact.unit)}</span>
+        </span>
+        <span className="font-bold">
+          {value != null && fact.dailyValue ? `${Math.round((value / fact.dailyValue) * 100)}%` : ""}
+        </span>
+      </div>
+    );
+  };
+
+  const calories = amount("calories");
+
+  return (
+    <div className="space-y-2">
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        value={basis}
+        onValueChange={(value) => value && setBasis(value as Basis)}
+        className="justify-start"
+      >
+        <ToggleGroupItem value="serving" className="text-xs">{t("facts.perServing")}</ToggleGroupItem>
+        <ToggleGroupItem value="recipe" className="text-xs">{t("facts.wholeRecipe")}</ToggleGroupItem>
+      </ToggleGroup>
+
+      <div className="max-w-xs border-2 border-foreground p-2 text-foreground bg-background">
+        <p className="text-3xl font-extrabold leading-none">{t("facts.title")}</p>
+        <p className="text-sm border-b-8 border-foreground pb-1 mt-1">
+          {t("facts.servings", { count: servings })}
+        </p>
+        <p className="text-xs font-bold mt-1">{t(basis === "recipe" ? "facts.amountPerRecipe" : "facts.amountPerServing")}</p>
+        <div className="flex justify-between items-end border-b-4 border-foreground pb-1">
+          <span className="text-2xl font-extrabold">{t("nutrient.calories")}</span>
+          <span className="text-3xl font-extrabold">{calories == null ? "–" : Math.round(calories)}</span>
+        </div>
+        <p className="text-end text-xs font-bold py-0.5">{t("facts.dailyValue")}</p>
+        {NUTRITION_FACTS.map(renderFact)}
+        <div className="border-t-8 border-foreground mt-0.5">
+          {MICRONUTRIENT_FACTS.map(renderFact)}
+        </div>
+        <p className="border-t-4 border-foreground pt-1 text-[10px] leading-tight">
+          {t("facts.footnote")}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default NutritionFactsLabel;
@@ -0,0 +1,87 @@
+import { AlertTriangle } from "lucide-react";
+import type { Macros, Recipe } from "@shared/recipe";
+import NutritionFactsLabel from "@/components/NutritionFactsLabel";
+import { useI18n } from "@/hooks/useI18n";
+import { estimateNutrition, findMacroDiscrepancies, isCompleteEstimate, type CoreMacro } from "@shared/nutrients";
+
+interface NutritionPanelProps {
+  /** What the model said; partial while a recipe is still streaming in. */
+  stated?: Partial<Macros>;
+  /** The finished recipe, once there are quantities to calculate from. */
+  recipe: Recipe | null;
+  /** Servings the per-recipe figures are shown for. */
+  servings: number;
+}
+
+const MACROS: { key: CoreMacro; unit: string; className: string }[] = [
+  { key: "calories", unit: "", className: "text-primary" },
+  { key: "protein", unit: "g", className: "text-secondary" },
+  { key: "carbs", unit: "g", className: "text-accent" },
+  { key: "fats", unit: "g", className: "text-foreground" },
+];
+
+const NutritionPanel = ({ stated, recipe, servings }: NutritionPanelProps) => {
+  const { t, formatList, locale } = useI18n();
+  const estimate = recipe ? estimateNutrition(recipe) : null;
+  const computed = estimate && estimate.counted > estimate.unresolved.length ? estimate.macros : null;
+  // The calculation replaces the model's figures only when it covered every measured ingredient.
+  const trustComputed = estimate !== null && computed !== null && isCompleteEstimate(estimate);
+  const primary: Partial<Macros> | undefined = trustComputed ? computed : stated;
+  // A partial calculation is low by design, so only a complete one can contradict the model.
+  const discrepancies = recipe && trustComputed ? findMacroDiscrepancies(recipe.macros, computed) : [];
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-4 bg-muted/50 rounded-lg">
+        {MACROS.map(({ key, unit, className }) => {
+          const secondary = trustComputed ? stated?.[key] : computed?.[key];
+          const flagged = discrepancies.includes(key);
+          return (
+            <div key={key} className="text-center">
+              <p className={`text-2xl font-bold ${className}`}>{primary?.[key] ?? "–"}{unit}</p>
+              <p className="text-xs text-muted-foreground uppercase tracking-wide">{t(`macro.${key}`)}</p>
+              {secondary != null && (
+                <p className={`text-xs mt-1 flex items-center justify-center gap-1 ${flagged ? "text-destructive font-semibold" : "text-muted-foreground"}`}>
+                  {flagged && <AlertTriangle className="w-3 h-3" />}
+                  {t(trustComputed ? "nutrition.aiEstimate" : "nutrition.partial", { value: `${secondary}${unit}` })}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {recipe && primary && (
+        <div className="text-sm text-muted-foreground mt-2 space-y-1">
+          {estimate && (
+            <p>
+              {trustComputed
+                ? t("nutrition.calculated", { count: estimate.counted })
+                : t("nutrition.estimated", { covered: estimate.counted - estimate.unresolved.length, count: estimate.counted })}
+              {estimate.unresolved.length > 0 && ` ${t("nutrition.notFound", { items: formatList(estimate.unresolved) })}`}
+            </p>
+          )}
+          {discrepancies.length > 0 && (
+            <p className="text-destructive flex items-center gap-1">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              {t("nutrition.discrepancies", {
+                macros: formatList(discrepancies.map((key) => t(`macro.${key}`).toLocaleLowerCase(locale))),
+              })}
+            </p>
+          )}
+          {trustComputed && (
+            <p>{t("nutrition.detailsEstimated")}</p>
+          )}
+        </div>
+      )}
+
+      {recipe && (
+        <div className="mt-4">
+          <NutritionFactsLabel macros={{ ...recipe.macros, ...(trustComputed && computed) }} servings={servings} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NutritionPanel;
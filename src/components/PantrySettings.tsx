@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Plus, X } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import { DEFAULT_STAPLES } from "@shared/pantry";
+
+interface PantrySettingsProps {
+  strict: boolean;
+  staples: string[];
+  onStrictChange: (strict: boolean) => void;
+  onStaplesChange: (staples: string[]) => void;
+}
+
+const PantrySettings = ({ strict, staples, onStrictChange, onStaplesChange }: PantrySettingsProps) => {
+  const { t } = useI18n();
+  const [newStaple, setNewStaple] = useState("");
+
+  const addStaple = () => {
+    const staple = newStaple.trim().toLowerCase();
+    if (staple && !staples.includes(staple)) {
+      onStaplesChange([...staples, staple]);
+    }
+    setNewStaple("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <Switch id="strict-mode" checked={strict} onCheckedChange={onStrictChange} />
+        <Label htmlFor="strict-mode" className="text-sm font-semibold text-foreground">
+          {t("pantry.strict")}
+        </Label>
+      </div>
+
+      {strict && (
+        <div className="rounded-lg border p-3 space-y-2">
+          <p className="text-sm text-muted-foreground">
+            {t("pantry.staplesHint")}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {staples.map((staple) => (
+              <Badge key={staple} variant="outline" className="py-1 px-2 pe-1 flex items-center gap-1">
+                {staple}
+                <button
+                  onClick={() => onStaplesChange(staples.filter((s) => s !== staple))}
+                  aria-label={t("pantry.removeStaple", { name: staple })}
+                  className="hover:bg-muted rounded-full p-0.5 transition-colors"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder={t("pantry.addStaple")}
+              value={newStaple}
+              onChange={(e) => setNewStaple(e.target.value)}
+              onKeyPress={(e) => e.key === "Enter" && addStaple()}
+              className="h-8 flex-1"
+            />
+            <Button onClick={addStaple} size="sm" variant="outline" className="h-8">
+              <Plus className="w-4 h-4" />
+            </Button>
+            <Button onClick={() => onStaplesChange(DEFAULT_STAPLES)} size="sm" variant="ghost" className="h-8">
+              {t("common.reset")}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PantrySettings;
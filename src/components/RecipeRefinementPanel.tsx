@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, MessageSquare, Send, Undo2 } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import type { MessageKey } from "@/i18n";
+import type { Recipe } from "@shared/recipe";
+
+/** One entry in a recipe's refinement history; the first has no instruction. */
+export interface RecipeVersion {
+  recipe: Recipe;
+  instruction?: string;
+  summary?: string;
+  basedOn?: number;
+}
+
+interface RecipeRefinementPanelProps {
+  versions: RecipeVersion[];
+  activeIndex: number;
+  isRefining: boolean;
+  onRefine: (instruction: string) => void;
+  onSelect: (index: number) => void;
+}
+
+const SUGGESTIONS: MessageKey[] = ["refine.spicier", "refine.noOven", "refine.vegetarian", "refine.lighter", "refine.quicker"];
+
+const RecipeRefinementPanel = ({ versions, activeIndex, isRefining, onRefine, onSelect }: RecipeRefinementPanelProps) => {
+  const { t } = useI18n();
+  const [instruction, setInstruction] = useState("");
+
+  const submit = (text: string) => {
+    if (!text.trim() || isRefining) return;
+    onRefine(text.trim());
+    setInstruction("");
+  };
+
+  return (
+    <Card className="p-6 md:p-8 shadow-lg border-2 mt-6">
+      <h2 className="text-xl font-semibold mb-1 text-foreground flex items-center gap-2">
+        <MessageSquare className="w-5 h-5 text-primary" />
+        {t("refine.title")}
+      </h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        {t("refine.description")}
+      </p>
+
+      <div className="space-y-3 mb-4 max-h-80 overflow-y-auto">
+        {versions.map((version, index) => (
+          <div key={index} className="space-y-2">
+            {version.instruction && (
+              <div className="flex justify-end">
+                <p className="bg-primary text-primary-foreground rounded-lg px-3 py-2 text-sm max-w-[80%]">
+                  {version.instruction}
+                </p>
+              </div>
+            )}
+            <div className="flex items-start gap-2">
+              <div className="bg-muted rounded-lg px-3 py-2 text-sm max-w-[80%]">
+                <p className="font-medium">{version.recipe.name}</p>
+                <p className="text-muted-foreground">
+                  {version.summary ?? t("refine.original")}
+                  {version.basedOn !== undefined &&
+                    version.basedOn !== index - 1 &&
+                    ` ${t("refine.basedOn", { version: version.basedOn + 1 })}`}
+                </p>
+              </div>
+              {index === activeIndex ? (
+                <Badge variant="secondary" className="shrink-0">{t("refine.showing", { version: index + 1 })}</Badge>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onSelect(index)}
+                  disabled={isRefining}
+                  className="shrink-0 gap-1"
+                >
+                  <Undo2 className="w-3 h-3" />
+                  {t("refine.use", { version: index + 1 })}
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+        {isRefining && (
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            {t("refine.working")}
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {SUGGESTIONS.map((suggestion) => (
+          <Button
+            key={suggestion}
+            size="sm"
+            variant="outline"
+            onClick={() => submit(t(suggestion))}
+            disabled={isRefining}
+          >
+            {t(suggestion)}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          placeholder={t("refine.placeholder")}
+          value={instruction}
+          maxLength={500}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyPress={(e) => e.key === "Enter" && submit(instruction)}
+          disabled={isRefining}
+          className="flex-1"
+        />
+        <Button
+          onClick={() => submit(instruction)}
+          size="icon"
+          disabled={isRefining || !instruction.trim()}
+          aria-label={t("refine.send")}
+        >
+          <Send className="w-4 h-4 rtl:-scale-x-100" />
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export default RecipeRefinementPanel;
@@ -0,0 +1,51 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useI18n } from "@/hooks/useI18n";
+import type { MessageKey } from "@/i18n";
+import { CUISINES, FLAVORS, MEAL_TYPES, normalizeStyle, type RecipeStyle } from "@shared/style";
+
+interface RecipeStylePickerProps {
+  value: RecipeStyle;
+  onChange: (value: RecipeStyle) => void;
+}
+
+// Radix Select can't hold an empty value, so "any" stands for "not set";
+// normalizeStyle drops it like any other unknown value.
+const ANY = "any";
+
+const FIELDS = [
+  { key: "cuisine", options: CUISINES },
+  { key: "mealType", options: MEAL_TYPES },
+  { key: "flavor", options: FLAVORS },
+] as const;
+
+const RecipeStylePicker = ({ value, onChange }: RecipeStylePickerProps) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-3">
+      {FIELDS.map(({ key, options }) => (
+        <div key={key}>
+          <h3 className="text-sm font-semibold mb-2 text-foreground">{t(`style.${key}`)}</h3>
+          <Select
+            value={value[key] ?? ANY}
+            onValueChange={(selected) => onChange(normalizeStyle({ ...value, [key]: selected }))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>{t("common.any")}</SelectItem>
+              {options.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {t(`${key}.${option}` as MessageKey)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RecipeStylePicker;
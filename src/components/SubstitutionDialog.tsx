@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertTriangle, Loader2, Replace, Sparkles } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/useI18n";
+import { describeFunctionError, readFunctionError } from "@/lib/functions";
+import type { Allergen, ConstraintViolation, Diet } from "@shared/constraints";
+import { formatIngredient } from "@shared/ingredients";
+import type { Recipe } from "@shared/recipe";
+import { scaleIngredient } from "@shared/scaling";
+import {
+  describeSubstitutionImpact,
+  findSubstitutions,
+  normalizeSubstitutions,
+  type Substitution,
+} from "@shared/substitutions";
+import { convertIngredient, type UnitSystem } from "@shared/units";
+
+interface SubstitutionDialogProps {
+  recipe: Recipe;
+  /** Ingredient line to swap; null keeps the dialog closed. */
+  index: number | null;
+  /** Servings scale and units the ingredient list is currently shown in. */
+  scale: number;
+  units: UnitSystem;
+  onApply: (index: number, substitution: Substitution) => void;
+  onClose: () => void;
+}
+
+const SubstitutionDialog = ({ recipe, index, scale, units, onApply, onClose }: SubstitutionDialogProps) => {
+  const [suggestions, setSuggestions] = useState<Substitution[] | null>(null);
+  const [isAsking, setIsAsking] = useState(false);
+  const { toast } = useToast();
+  const { t, formatList, formatNumber, locale } = useI18n();
+
+  const formatDelta = (value: number) => `${value > 0 ? "+" : "−"}${formatNumber(Math.abs(value))}`;
+  const dietName = (diet: Diet) => t(`diet.${diet}`).toLocaleLowerCase(locale);
+  const allergenName = (allergen: Allergen) => t(`allergenName.${allergen}`).toLocaleLowerCase(locale);
+  const describeViolation = ({ item, keyword, rule }: ConstraintViolation) =>
+    rule.kind === "diet"
+      ? t("substitute.breaksDiet", { item, keyword, diet: t(`diet.${rule.diet}`) })
+      : t("substitute.breaksAllergen", { item, keyword, allergen: t(`allergenName.${rule.allergen}`) });
+
+  // Suggestions belong to one ingredient line.
+  useEffect(() => setSuggestions(null), [index, recipe]);
+
+  const line = index === null ? undefined : recipe.ingredients[index];
+  if (index === null || !line) return null;
+
+  const options = [...findSubstitutions(line), ...(suggestions ?? [])];
+  const display = (ingredient: Substitution["ingredients"][number]) =>
+    formatIngredient(convertIngredient(scaleIngredient(ingredient, scale), units));
+
+  const askForSuggestions = async () => {
+    setIsAsking(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("suggest-substitutions", {
+        body: { recipe, index },
+      });
+      if (error) throw error;
+
+      const substitutions = normalizeSubstitutions(data?.substitutions);
+      setSuggestions(substitutions);
+      if (substitutions.length === 0) {
+        toast({
+          title: t("substitute.noIdeasTitle"),
+          description: t("substitute.noIdeasDescription", { name: line.item }),
+        });
+      }
+    } catch (error) {
+      console.error("Error suggesting substitutions:", error);
+      const details = await readFunctionError(error);
+      toast({
+        title: t("common.error"),
+        description: describeFunctionError(details, { t, formatList }) || t("substitute.failed"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("substitute.title", { name: line.item })}</DialogTitle>
+          <DialogDescription>{display(line)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {options.length === 0 && !isAsking && (
+            <p className="text-sm text-muted-foreground">{t("substitute.noneKnown")}</p>
+          )}
+
+          {options.map((substitution, optionIndex) => {
+            const impact = describeSubstitutionImpact(recipe, index, substitution);
+            const macroChanges = impact.macros
+              ? [
+                  impact.macros.calories !== 0 && t("substitute.calories", { delta: formatDelta(impact.macros.calories) }),
+                  impact.macros.protein !== 0 && t("substitute.protein", { delta: formatDelta(impact.macros.protein) }),
+                  impact.macros.carbs !== 0 && t("substitute.carbs", { delta: formatDelta(impact.macros.carbs) }),
+                  impact.macros.fats !== 0 && t("substitute.fats", { delta: formatDelta(impact.macros.fats) }),
+                ].filter(Boolean)
+              : null;
+
+            return (
+              <div key={optionIndex} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="font-semibold capitalize flex items-center gap-2">
+                      {substitution.name}
+                      {substitution.source === "ai" && (
+                        <Badge variant="outline" className="text-xs normal-case">
+                          <Sparkles className="w-3 h-3 me-1" />
+                          {t("substitute.aiSuggestion")}
+                        </Badge>
+                      )}
+                    </p>
+                    <ul className="text-sm text-foreground">
+                      {substitution.ingredients.map((ingredient, lineIndex) => (
+                        <li key={lineIndex}>{display(ingredient)}</li>
+                      ))}
+                    </ul>
+                    {substitution.note && <p className="text-sm text-muted-foreground">{substitution.note}</p>}
+                  </div>
+                  {/* Swaps that break the recipe's requirements are shown, with why, but can't be used. */}
+                  <Button
+                    size="sm"
+                    onClick={() => onApply(index, substitution)}
+                    disabled={impact.violations.length > 0}
+                    className="gap-1 shrink-0"
+                  >
+                    <Replace className="w-4 h-4" />
+                    {t("substitute.use")}
+                  </Button>
+                </div>
+
+                <p className="text-xs text-muted-foreground">
+                  {t("substitute.perServing", {
+                    change:
+                      macroChanges === null
+                        ? t("substitute.unknown")
+                        : macroChanges.length > 0
+                          ? macroChanges.join(" · ")
+                          : t("substitute.same"),
+                  })}
+                </p>
+
+                <div className="flex flex-wrap gap-1">
+                  {impact.dietsGained.map((diet) => (
+                    <Badge key={diet} variant="secondary" className="text-xs">
+                      {t("substitute.nowDiet", { diet: dietName(diet) })}
+                    </Badge>
+                  ))}
+                  {impact.allergensRemoved.map((allergen) => (
+                    <Badge key={allergen} variant="secondary" className="text-xs">
+                      {t("substitute.removesAllergen", { allergen: allergenName(allergen) })}
+                    </Badge>
+                  ))}
+                  {impact.dietsLost.map((diet) => (
+                    <Badge key={diet} variant="outline" className="text-xs">
+                      {t("substitute.noLongerDiet", { diet: dietName(diet) })}
+                    </Badge>
+                  ))}
+                  {impact.allergensAdded.map((allergen) => (
+                    <Badge key={allergen} variant="destructive" className="text-xs">
+                      {t("substitute.addsAllergen", { allergen: allergenName(allergen) })}
+                    </Badge>
+                  ))}
+                </div>
+
+                {impact.violations.map((violation, violationIndex) => (
+                  <p key={violationIndex} className="text-xs text-destructive flex items-center gap-1">
+                    <AlertTriangle className="w-3 h-3 shrink-0" />
+                    {describeViolation(violation)}
+                  </p>
+                ))}
+              </div>
+            );
+          })}
+
+          {suggestions === null && (
+            <Button variant="outline" onClick={askForSuggestions} disabled={isAsking} className="w-full gap-2">
+              {isAsking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+              {t(isAsking ? "substitute.asking" : "substitute.askMore")}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SubstitutionDialog;
@@ -0,0 +1,5 @@
+import { useContext } from "react";
+import { I18nContext } from "@/i18n";
+
+/** Translation and locale-aware formatting for the current interface language. */
+export const useI18n = () => useContext(I18nContext);
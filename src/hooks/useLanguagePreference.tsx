@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_LANGUAGE, languageFromLocale, normalizeLanguage, type Language } from "@shared/language";
+
+const browserLanguage = (): Language =>
+  navigator.languages.map(languageFromLocale).find((language) => language !== null) ?? DEFAULT_LANGUAGE;
+
+/**
+ * The language recipes are generated in: the user's saved choice, or the
+ * browser's until they make one. Saved to their profile when changed.
+ */
+export const useLanguagePreference = () => {
+  const [language, setLanguageState] = useState<Language>(browserLanguage);
+
+  useEffect(() => {
+    const fetchLanguage = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("language")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Failed to load language preference:", error);
+        return;
+      }
+      const saved = normalizeLanguage(data?.language);
+      if (saved) setLanguageState(saved);
+    };
+
+    fetchLanguage();
+  }, []);
+
+  const setLanguage = useCallback(async (next: Language) => {
+    setLanguageState(next);
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({ language: next })
+      .eq("user_id", user.id);
+
+    if (error) console.error("Failed to save language preference:", error);
+  }, []);
+
+  return { language, setLanguage };
+};
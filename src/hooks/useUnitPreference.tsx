@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { normalizeUnitSystem, type UnitSystem } from "@shared/units";
+
+/** The signed-in user's measurement system, saved to their profile when changed. */
+export const useUnitPreference = () => {
+  const [units, setUnitsState] = useState<UnitSystem>("original");
+
+  useEffect(() => {
+    const fetchUnits = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("units")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Failed to load unit preference:", error);
+        return;
+      }
+      setUnitsState(normalizeUnitSystem(data?.units));
+    };
+
+    fetchUnits();
+  }, []);
+
+  const setUnits = useCallback(async (next: UnitSystem) => {
+    setUnitsState(next);
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({ units: next })
+      .eq("user_id", user.id);
+
+    if (error) console.error("Failed to save unit preference:", error);
+  }, []);
+
+  return { units, setUnits };
+};
@@ -0,0 +1,117 @@
+import { createContext } from "react";
+import { languageFromLocale, type Language } from "@shared/language";
+import type { RecipeStyle } from "@shared/style";
+import ar from "./messages/ar";
+import en from "./messages/en";
+import es from "./messages/es";
+import hi from "./messages/hi";
+import type { Catalog, MessageKey, MessageParams } from "./types";
+
+export type { MessageKey } from "./types";
+
+/** Languages the interface itself is translated into; a subset of the recipe languages. */
+export const UI_LOCALES = ["en", "es", "hi", "ar"] as const satisfies readonly Language[];
+
+export type UiLocale = (typeof UI_LOCALES)[number];
+
+const CATALOGS: Record<UiLocale, Catalog> = { en, es, hi, ar };
+
+const RTL_LOCALES: ReadonlySet<UiLocale> = new Set(["ar"]);
+
+const STORAGE_KEY = "chefbot-ui-locale";
+
+const toUiLocale = (value: string | null | undefined): UiLocale | null => {
+  const language = languageFromLocale(value);
+  return UI_LOCALES.find((locale) => locale === language) ?? null;
+};
+
+/** The locale picked in the switcher, else the first supported browser language, else English. */
+export function detectLocale(): UiLocale {
+  try {
+    const stored = toUiLocale(localStorage.getItem(STORAGE_KEY));
+    if (stored) return stored;
+  } catch {
+    // Storage can be blocked; fall through to the browser's languages.
+  }
+  return navigator.languages.map(toUiLocale).find((locale) => locale !== null) ?? "en";
+}
+
+export function storeLocale(locale: UiLocale) {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Not remembered across visits, but still applied for this one.
+  }
+}
+
+export interface I18n {
+  locale: UiLocale;
+  dir: "ltr" | "rtl";
+  /**
+   * The message for `key` in the current locale, falling back to English.
+   * `{name}` placeholders are filled from `params`, numbers formatted for the
+   * locale; plural messages pick their form from `params.count`.
+   */
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (value: string | number | Date, options?: Intl.DateTimeFormatOptions) => string;
+  /** "a, b, c" with the locale's separator. */
+  formatList: (items: string[]) => string;
+  /** "45 min", "1 h 30 min" in the locale's words. */
+  formatMinutes: (minutes: number) => string;
+}
+
+export function createI18n(locale: UiLocale): I18n {
+  const catalog = CATALOGS[locale];
+  const numbers = new Intl.NumberFormat(locale);
+  const plurals = new Intl.PluralRules(locale);
+
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+    options ? new Intl.NumberFormat(locale, options).format(value) : numbers.format(value);
+
+  const t = (key: MessageKey, params: MessageParams = {}) => {
+    const message = catalog[key] ?? en[key];
+    const text =
+      typeof message === "string"
+        ? message
+        : message[plurals.select(Number(params.count ?? 0))] ?? message.other;
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === "number" ? formatNumber(value) : value;
+    });
+  };
+
+  const formatMinutes = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    if (hours === 0) return t("time.minutes", { count: rest });
+    return rest === 0 ? t("time.hours", { count: hours }) : t("time.hoursMinutes", { hours, minutes: rest });
+  };
+
+  return {
+    locale,
+    dir: RTL_LOCALES.has(locale) ? "rtl" : "ltr",
+    t,
+    formatNumber,
+    formatDate: (value, options = { dateStyle: "medium" }) =>
+      new Intl.DateTimeFormat(locale, options).format(new Date(value)),
+    formatList: (items) => items.join(t("list.separator")),
+    formatMinutes,
+  };
+}
+
+/** Message keys for whichever style options are set: cuisine, meal type, then flavor. */
+export function styleMessageKeys({ cuisine, mealType, flavor }: RecipeStyle): MessageKey[] {
+  const keys: MessageKey[] = [];
+  if (cuisine) keys.push(`cuisine.${cuisine}`);
+  if (mealType) keys.push(`mealType.${mealType}`);
+  if (flavor) keys.push(`flavor.${flavor}`);
+  return keys;
+}
+
+export interface I18nContextValue extends I18n {
+  setLocale: (locale: UiLocale) => void;
+}
+
+export const I18nContext = createContext<I18nContextValue>({ ...createI18n("en"), setLocale: () => {} });
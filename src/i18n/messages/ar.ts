@@ -0,0 +1,456 @@
+import type { Catalog } from "../types";
+
+const ar: Catalog = {
+  "common.error": "خطأ",
+  "common.cancel": "إلغاء",
+  "common.language": "اللغة",
+  "common.any": "أي",
+  "common.clear": "مسح",
+  "common.reset": "إعادة تعيين",
+  "common.save": "حفظ",
+  "common.saving": "جارٍ الحفظ...",
+  "common.saved": "محفوظة",
+  "common.openRecipe": "افتح الوصفة",
+  "list.separator": "، ",
+
+  "time.minutes": { one: "دقيقة واحدة", two: "دقيقتان", few: "{count} دقائق", other: "{count} دقيقة" },
+  "time.hours": { one: "ساعة واحدة", two: "ساعتان", few: "{count} ساعات", other: "{count} ساعة" },
+  "time.hoursMinutes": "{hours} س {minutes} د",
+
+  "errors.invalidRequest": "كان هناك خطأ في الطلب. يرجى المحاولة مرة أخرى.",
+  "errors.invalidRecipe": "أعاد الذكاء الاصطناعي وصفة غير صالحة. يرجى المحاولة مرة أخرى.",
+  "errors.invalidTranslation": "أعاد الذكاء الاصطناعي ترجمة غير مكتملة. يرجى المحاولة مرة أخرى.",
+  "errors.constraintViolation": "لم يتمكن الذكاء الاصطناعي من إعداد وصفة تناسب احتياجاتك الغذائية. جرّب مكونات أخرى.",
+  "errors.missingIngredients":
+    "لم يتمكن الذكاء الاصطناعي من إعداد وصفة من مكوناتك فقط. أضف بعض المكونات أو أوقف \"استخدم ما لدي فقط\".",
+  "errors.equipmentUnavailable": "لم يتمكن الذكاء الاصطناعي من إعداد وصفة بأدوات مطبخك. جرّب مكونات أخرى.",
+  "errors.overTimeBudget": "لم يتمكن الذكاء الاصطناعي من إعداد وصفة ضمن وقتك المتاح. جرّب السماح بوقت أطول قليلًا.",
+  "errors.rejectedIngredients": "لا يمكن استخدام بعض المكونات في وصفة.",
+  "errors.unauthorized": "يرجى تسجيل الدخول لإنشاء الوصفات.",
+  "errors.rateLimited": {
+    one: "لقد بلغت حد إنشاء الوصفات. حاول مرة أخرى بعد دقيقة واحدة.",
+    two: "لقد بلغت حد إنشاء الوصفات. حاول مرة أخرى بعد دقيقتين.",
+    few: "لقد بلغت حد إنشاء الوصفات. حاول مرة أخرى بعد {count} دقائق.",
+    other: "لقد بلغت حد إنشاء الوصفات. حاول مرة أخرى بعد {count} دقيقة.",
+  },
+  "errors.aiRateLimited": "الذكاء الاصطناعي مشغول الآن. يرجى المحاولة لاحقًا.",
+  "errors.paymentRequired": "نفد رصيد خدمة الذكاء الاصطناعي. يرجى المحاولة لاحقًا.",
+  "errors.fields": "الحقول التي بها مشكلة: {fields}.",
+
+  "nav.myRecipes": "وصفاتي",
+  "nav.history": "السجل",
+  "nav.myKitchen": "مطبخي",
+  "nav.logout": "تسجيل الخروج",
+  "nav.backToIngredients": "العودة إلى المكونات",
+  "nav.backToHome": "العودة إلى الرئيسية",
+
+  "difficulty.Easy": "سهلة",
+  "difficulty.Medium": "متوسطة",
+  "difficulty.Hard": "صعبة",
+
+  "diet.vegan": "نباتية صرفة",
+  "diet.vegetarian": "نباتية",
+  "diet.keto": "كيتو",
+  "diet.halal": "حلال",
+  "diet.kosher": "كوشر",
+  "diet.gluten-free": "خالية من الغلوتين",
+
+  "allergen.peanuts": "بدون فول سوداني",
+  "allergen.tree-nuts": "بدون مكسرات",
+  "allergen.dairy": "بدون ألبان",
+  "allergen.eggs": "بدون بيض",
+  "allergen.gluten": "بدون غلوتين",
+  "allergen.soy": "بدون صويا",
+  "allergen.fish": "بدون سمك",
+  "allergen.shellfish": "بدون قشريات",
+  "allergen.sesame": "بدون سمسم",
+
+  "allergenName.peanuts": "الفول السوداني",
+  "allergenName.tree-nuts": "المكسرات",
+  "allergenName.dairy": "الألبان",
+  "allergenName.eggs": "البيض",
+  "allergenName.gluten": "الغلوتين",
+  "allergenName.soy": "الصويا",
+  "allergenName.fish": "السمك",
+  "allergenName.shellfish": "القشريات",
+  "allergenName.sesame": "السمسم",
+
+  "cuisine.italian": "إيطالي",
+  "cuisine.mexican": "مكسيكي",
+  "cuisine.thai": "تايلاندي",
+  "cuisine.indian": "هندي",
+  "cuisine.chinese": "صيني",
+  "cuisine.japanese": "ياباني",
+  "cuisine.korean": "كوري",
+  "cuisine.french": "فرنسي",
+  "cuisine.greek": "يوناني",
+  "cuisine.middle-eastern": "شرق أوسطي",
+  "cuisine.mediterranean": "متوسطي",
+  "cuisine.american": "أمريكي",
+
+  "mealType.breakfast": "فطور",
+  "mealType.lunch": "غداء",
+  "mealType.dinner": "عشاء",
+  "mealType.snack": "وجبة خفيفة",
+  "mealType.dessert": "حلوى",
+
+  "flavor.mild": "معتدل",
+  "flavor.spicy": "حار",
+  "flavor.savory": "مالح",
+  "flavor.sweet": "حلو",
+  "flavor.tangy": "لاذع",
+  "flavor.smoky": "مدخّن",
+  "flavor.herby": "طازج بالأعشاب",
+
+  "equipment.stovetop": "موقد",
+  "equipment.oven": "فرن",
+  "equipment.microwave": "ميكروويف",
+  "equipment.air-fryer": "قلاية هوائية",
+  "equipment.pressure-cooker": "إنستانت بوت / قدر ضغط",
+  "equipment.slow-cooker": "طباخ بطيء",
+  "equipment.grill": "شواية",
+  "equipment.blender": "خلاط",
+  "equipment.food-processor": "محضّرة طعام",
+  "equipment.mixer": "خفاقة كهربائية",
+  "equipment.rice-cooker": "طباخ أرز",
+  "equipment.toaster": "محمصة خبز",
+
+  "units.original": "كما أُنشئت",
+  "units.metric": "متري",
+  "units.us": "أمريكي",
+
+  "source.have": "متوفر لديك",
+  "source.staple": "أساسي",
+  "source.missing": "ناقص",
+
+  "macro.calories": "السعرات",
+  "macro.protein": "البروتين",
+  "macro.carbs": "الكربوهيدرات",
+  "macro.fats": "الدهون",
+  "macro.caloriesShort": "سعرات",
+
+  "nutrient.calories": "السعرات الحرارية",
+  "nutrient.protein": "البروتين",
+  "nutrient.carbs": "إجمالي الكربوهيدرات",
+  "nutrient.fats": "إجمالي الدهون",
+  "nutrient.fiber": "الألياف الغذائية",
+  "nutrient.sugar": "إجمالي السكريات",
+  "nutrient.saturatedFat": "الدهون المشبعة",
+  "nutrient.cholesterol": "الكوليسترول",
+  "nutrient.sodium": "الصوديوم",
+  "nutrient.vitaminD": "فيتامين د",
+  "nutrient.calcium": "الكالسيوم",
+  "nutrient.iron": "الحديد",
+  "nutrient.potassium": "البوتاسيوم",
+
+  "dietary.diets": "التفضيلات الغذائية",
+  "dietary.allergens": "الحساسية (لا تُضمَّن أبدًا)",
+
+  "style.cuisine": "المطبخ",
+  "style.mealType": "الوجبة",
+  "style.flavor": "النكهة",
+
+  "pantry.strict": "استخدم ما لدي فقط",
+  "pantry.staplesHint": "إلى جانب مكوناتك، لا يمكن للوصفة أن تستخدم إلا هذه الأساسيات:",
+  "pantry.removeStaple": "إزالة {name}",
+  "pantry.addStaple": "أضف مكونًا أساسيًا (مثل الثوم)",
+
+  "freshness.label": "صلاحية {name}",
+  "freshness.expires": "تنتهي في {date}",
+  "freshness.setExpiry": "حدّد تاريخ انتهاء الصلاحية",
+  "freshness.expiresOn": "تنتهي في",
+  "freshness.useSoon": "استخدمه قريبًا",
+  "freshness.usedFirst": "ستستخدمه الوصفات أولًا ({when}).",
+  "freshness.soon": "استخدمه قريبًا",
+  "freshness.pastDate": "انتهت صلاحيته",
+  "freshness.today": "تنتهي اليوم",
+  "freshness.tomorrow": "تنتهي غدًا",
+  "freshness.inDays": {
+    one: "تنتهي خلال يوم واحد",
+    two: "تنتهي خلال يومين",
+    few: "تنتهي خلال {count} أيام",
+    other: "تنتهي خلال {count} يومًا",
+  },
+
+  "index.heroAlt": "مطبخ فيه مكونات طازجة",
+  "index.tagline": "حوّل مكوناتك إلى وصفات لذيذة بسحر الذكاء الاصطناعي",
+  "index.heading": "ماذا يوجد في مطبخك؟",
+  "index.ingredientPlaceholder": "أدخل مكونًا (مثل الدجاج أو الطماطم)",
+  "index.addIngredient": "إضافة مكون",
+  "index.suggestions": "اقتراحات",
+  "index.didYouMean": "هل تقصد؟",
+  "index.addTyped": "إضافة «{name}»",
+  "index.pasteList": "لصق قائمة",
+  "index.removeIngredient": "إزالة {name}",
+  "index.useFirst": "ستستخدم الوصفات {items} أولًا.",
+  "index.freshnessHint": "اضغط على الساعة الرملية بجانب المكون لإضافة تاريخ انتهائه أو تحديده للاستخدام قريبًا.",
+  "index.timeAvailable": "الوقت المتاح",
+  "index.noTimeLimit": "بلا حد زمني",
+  "index.underTime": "أقل من {time}",
+  "index.recipeLanguage": "لغة الوصفة",
+  "index.howManyIdeas": "كم فكرة؟",
+  "index.oneRecipe": "وصفة واحدة",
+  "index.recipesToCompare": {
+    one: "وصفة واحدة للمقارنة",
+    two: "وصفتان للمقارنة",
+    few: "{count} وصفات للمقارنة",
+    other: "{count} وصفة للمقارنة",
+  },
+  "index.generate": "أنشئ وصفة",
+  "index.reset": "إعادة تعيين",
+  "index.noIngredientsTitle": "أضف بعض المكونات",
+  "index.noIngredientsDescription": "أضف مكونًا واحدًا على الأقل لإنشاء وصفة.",
+  "index.rejectedTitle": "لا يمكن استخدام بعض المكونات",
+  "index.rejectedDescription": "أزل المكونات المحددة أو غيّرها ثم حاول مرة أخرى.",
+  "index.rejectedItem": "{item}: {reason}",
+
+  "bulk.title": "إضافة قائمة مكونات",
+  "bulk.description": "الصق قائمة أو صف ما لديك. يمكنك مراجعة كل شيء قبل إضافته.",
+  "bulk.reviewDescription": "ألغِ تحديد ما لا تريده وصحّح الأسماء التي قُرئت بشكل خاطئ.",
+  "bulk.placeholder": "2 chicken breasts, half a bag of spinach and some feta",
+  "bulk.read": "قراءة القائمة",
+  "bulk.nothingFound": "لم يُعثر على مكونات في هذا النص.",
+  "bulk.include": "تضمين {name}",
+  "bulk.nameLabel": "اسم المكون",
+  "bulk.didYouMean": "هل تقصد {name}؟",
+  "bulk.needsReview": "قُرئ كعنصر واحد. إذا كانت عدة مكونات فعلًا، فاكتبها منفصلة.",
+  "bulk.back": "رجوع",
+  "bulk.add": {
+    zero: "إضافة {count} مكون",
+    one: "إضافة مكون واحد",
+    two: "إضافة مكونين",
+    few: "إضافة {count} مكونات",
+    other: "إضافة {count} مكون",
+  },
+
+  "rejection.too-many": "يمكن استخدام {max} مكونًا فقط في المرة الواحدة.",
+  "rejection.too-long": "لا يتجاوز اسم المكون {length} حرفًا.",
+  "rejection.characters": "يحتوي على رموز لا تنتمي إلى اسم مكون.",
+  "rejection.instructions": "يبدو كتعليمات وليس مكونًا.",
+  "rejection.unsafe": "غير آمن للأكل.",
+  "rejection.not-food": "لا يبدو شيئًا يمكن الطهي به.",
+  "rejection.unknown": "ليس مكونًا نعرفه. تحقق من الإملاء أو جرّب اسمه بالإنجليزية.",
+
+  "recipe.generatedTitle": "تم إنشاء الوصفة!",
+  "recipe.generatedCached": "طلبتها مؤخرًا، لذا ها هي مجددًا على الفور.",
+  "recipe.generatedFresh": "وصفتك اللذيذة جاهزة.",
+  "recipe.generateFailed": "تعذّر إنشاء الوصفة. حاول مرة أخرى.",
+  "recipe.cancelledTitle": "تم إلغاء الإنشاء",
+  "recipe.cancelledDescription": "مكوناتك لا تزال هناك.",
+  "recipe.refineUnreadable": "تعذّرت قراءة الوصفة المعدّلة.",
+  "recipe.refineFailed": "تعذّر تعديل الوصفة. حاول مرة أخرى.",
+  "recipe.swapInstruction": "استبدل {from} بـ {to}",
+  "recipe.swapSummary": "تم استبدال {from} بـ {to}.",
+  "recipe.swappedTitle": "تم استبدال المكون",
+  "recipe.swappedDescription": "يمكنك العودة إلى النسخة السابقة في أي وقت.",
+  "recipe.savedTitle": "تم حفظ الوصفة!",
+  "recipe.savedDescription": "ستجدها في وصفاتك المحفوظة.",
+  "recipe.saveFailed": "تعذّر حفظ الوصفة.",
+  "recipe.favoritedTitle": "أُضيفت إلى المفضلة!",
+  "recipe.favoritedDescription": "حُفظت الوصفة في مفضلتك.",
+  "recipe.favoriteFailed": "تعذّرت الإضافة إلى المفضلة.",
+  "recipe.cooking": "جارٍ تحضير وصفتك...",
+  "recipe.totalTime": "{time} إجمالًا",
+  "recipe.prepTime": "التحضير {time}",
+  "recipe.cookTime": "الطهي {time}",
+  "recipe.restTime": "الراحة {time}",
+  "recipe.fewerServings": "حصص أقل",
+  "recipe.moreServings": "حصص أكثر",
+  "recipe.servings": {
+    one: "حصة واحدة",
+    two: "حصتان",
+    few: "{count} حصص",
+    other: "{count} حصة",
+  },
+  "recipe.ingredients": "المكونات",
+  "recipe.units": "الوحدات",
+  "recipe.findSubstitute": "ابحث عن بديل",
+  "recipe.optional": "اختياري",
+  "recipe.useItUp": "استخدمه قبل أن يفسد",
+  "recipe.usesUrgent": "تستخدم {items} قبل أن يفسد.",
+  "recipe.leavesOut": "لا تستخدم {items}.",
+  "recipe.equipment": "الأدوات",
+  "recipe.instructions": "طريقة التحضير",
+  "recipe.tidying": "جارٍ ترتيب الوصفة...",
+  "recipe.writing": "جارٍ كتابة وصفتك...",
+  "recipe.saving": "جارٍ الحفظ...",
+  "recipe.saved": "محفوظة",
+  "recipe.save": "احفظ الوصفة",
+  "recipe.adding": "جارٍ الإضافة...",
+  "recipe.favorited": "في المفضلة",
+  "recipe.addFavorite": "أضف إلى المفضلة",
+  "recipe.freshOne": "أنشئ وصفة جديدة",
+  "recipe.createAnother": "أنشئ وصفة أخرى",
+
+  "nutrition.aiEstimate": "تقدير الذكاء الاصطناعي: {value}",
+  "nutrition.partial": "محسوبة (جزئيًا): {value}",
+  "nutrition.calculated":
+    "محسوبة من جدول مغذيات محلي (قيم USDA المرجعية لكل 100 غ) لجميع المكونات المقاسة ({count})؛ ويظهر تقدير الذكاء الاصطناعي للمقارنة.",
+  "nutrition.estimated":
+    "هذه تقديرات الذكاء الاصطناعي. غطّى جدول المغذيات المحلي {covered} من {count} من المكونات المقاسة.",
+  "nutrition.notFound": "غير موجودة: {items}.",
+  "nutrition.discrepancies": "قيم {macros} التي قدّرها الذكاء الاصطناعي تختلف كثيرًا عن الحساب من المكونات.",
+  "nutrition.detailsEstimated":
+    "الألياف والسكريات والدهون المشبعة والكوليسترول والصوديوم والفيتامينات والمعادن تقديرات من الذكاء الاصطناعي.",
+
+  "facts.perServing": "لكل حصة",
+  "facts.wholeRecipe": "الوصفة كاملة",
+  "facts.title": "الحقائق الغذائية",
+  "facts.servings": {
+    one: "حصة واحدة لكل وصفة",
+    two: "حصتان لكل وصفة",
+    few: "{count} حصص لكل وصفة",
+    other: "{count} حصة لكل وصفة",
+  },
+  "facts.amountPerServing": "الكمية لكل حصة",
+  "facts.amountPerRecipe": "الكمية لكل وصفة",
+  "facts.dailyValue": "% من القيمة اليومية*",
+  "facts.footnote":
+    "* تبيّن نسبة القيمة اليومية مقدار ما تساهم به مادة غذائية في حصة من الطعام في النظام الغذائي اليومي. تُستخدم 2000 سعرة حرارية يوميًا كأساس للنصائح الغذائية العامة.",
+
+  "refine.title": "حسّن هذه الوصفة",
+  "refine.description": "اطلب التغييرات بكلمات بسيطة. تُحفظ كل نسخة، لذا يمكنك الرجوع في أي وقت.",
+  "refine.original": "الوصفة الأصلية.",
+  "refine.basedOn": "(مبنية على النسخة {version})",
+  "refine.showing": "تُعرض النسخة {version}",
+  "refine.use": "استخدم النسخة {version}",
+  "refine.working": "جارٍ تعديل الوصفة...",
+  "refine.placeholder": "مثلًا \"بدون فرن\"، \"استبدل الأرز بالكينوا\"",
+  "refine.send": "إرسال",
+  "refine.spicier": "اجعلها أكثر حرارة",
+  "refine.noOven": "بدون فرن",
+  "refine.vegetarian": "اجعلها نباتية",
+  "refine.lighter": "أخف وبسعرات أقل",
+  "refine.quicker": "أسرع",
+
+  "substitute.title": "بديل {name}",
+  "substitute.noneKnown": "لا نعرف بدائل شائعة لهذا المكون بعد.",
+  "substitute.aiSuggestion": "اقتراح الذكاء الاصطناعي",
+  "substitute.use": "استخدم هذا",
+  "substitute.perServing": "لكل حصة: {change}",
+  "substitute.unknown": "التغيير الغذائي غير معروف",
+  "substitute.same": "القيمة الغذائية نفسها تقريبًا",
+  "substitute.calories": "{delta} سعرة",
+  "substitute.protein": "{delta} غ بروتين",
+  "substitute.carbs": "{delta} غ كربوهيدرات",
+  "substitute.fats": "{delta} غ دهون",
+  "substitute.nowDiet": "أصبحت {diet}",
+  "substitute.noLongerDiet": "لم تعد {diet}",
+  "substitute.removesAllergen": "بدون {allergen} الآن",
+  "substitute.addsAllergen": "تضيف {allergen}",
+  "substitute.breaksDiet": "\"{item}\" يحتوي على {keyword}، وهذا يخالف شرط النظام الغذائي {diet}",
+  "substitute.breaksAllergen": "\"{item}\" يحتوي على {keyword}، وهذا يخالف شرط حساسية {allergen}",
+  "substitute.asking": "جارٍ سؤال الذكاء الاصطناعي...",
+  "substitute.askMore": "اطلب أفكارًا أكثر من الذكاء الاصطناعي",
+  "substitute.noIdeasTitle": "لا أفكار هذه المرة",
+  "substitute.noIdeasDescription": "لم يجد الذكاء الاصطناعي بديلًا جيدًا لـ {name}.",
+  "substitute.failed": "تعذّر اقتراح بدائل. حاول مرة أخرى.",
+
+  "compare.title": "قارن الوصفات",
+  "compare.failed": "تعذّر إنشاء الوصفات. حاول مرة أخرى.",
+  "compare.cooking": {
+    one: "نحضّر فكرة واحدة...",
+    two: "نحضّر فكرتين...",
+    few: "نحضّر {count} أفكار...",
+    other: "نحضّر {count} فكرة...",
+  },
+  "compare.cookingSome": "نحضّر بعض الأفكار...",
+  "compare.cookingDescription": "ننشئ أفكارًا مختلفة من مكوناتك.",
+  "compare.pick": "اختر وصفة",
+  "compare.pickDescription": {
+    one: "فكرة واحدة من مكوناتك. افتحها لرؤية الوصفة كاملة.",
+    two: "فكرتان مختلفتان من المكونات نفسها. افتح إحداهما لرؤية الوصفة كاملة.",
+    few: "{count} أفكار مختلفة من المكونات نفسها. افتح إحداها لرؤية الوصفة كاملة.",
+    other: "{count} فكرة مختلفة من المكونات نفسها. افتح إحداها لرؤية الوصفة كاملة.",
+  },
+  "compare.cached": "طلبت هذه الوصفات مؤخرًا، لذا كانت جاهزة فورًا.",
+  "compare.fresh": "أفكار جديدة",
+  "compare.usesUrgent": "تستخدم {used} من {total}",
+  "compare.ingredients": { one: "مكون واحد", two: "مكونان", few: "{count} مكونات", other: "{count} مكونًا" },
+  "compare.steps": { one: "خطوة واحدة", two: "خطوتان", few: "{count} خطوات", other: "{count} خطوة" },
+
+  "history.fetchFailed": "تعذّر تحميل سجلك.",
+  "history.loading": "جارٍ تحميل سجلك...",
+  "history.emptyTitle": "لا شيء هنا بعد",
+  "history.emptyDescription": "تظهر هنا كل وصفة تنشئها، سواء حفظتها أم لا.",
+  "history.fromCache": "من ذاكرة التخزين المؤقت",
+  "history.seconds": "{seconds} ث",
+  "history.useFirst": "استخدم أولًا: {items}",
+  "history.compare": {
+    one: "قارن وصفة واحدة",
+    two: "قارن وصفتين",
+    few: "قارن {count} وصفات",
+    other: "قارن {count} وصفة",
+  },
+  "history.regenerate": "أعد الإنشاء",
+  "history.savedTitle": { one: "تم حفظ الوصفة!", other: "تم حفظ الوصفات!" },
+  "history.savedDescription": "أُضيفت إلى مجموعة وصفاتك.",
+
+  "settings.loadFailed": "تعذّر تحميل إعدادات مطبخك.",
+  "settings.saveFailed": "تعذّر حفظ إعدادات مطبخك.",
+  "settings.savedTitle": "تم حفظ الإعدادات",
+  "settings.savedDescription": "ستناسب الوصفات الجديدة مطبخك.",
+  "settings.loading": "جارٍ تحميل مطبخك...",
+  "settings.equipment": "المعدات",
+  "settings.equipmentDescription":
+    "لن تستخدم الوصفات إلا الأجهزة المتوفرة لديك. نفترض دائمًا وجود السكاكين والأوعية والقدور والمقالي.",
+  "settings.fullKitchen": "لدي مطبخ مجهز بالكامل",
+  "settings.units": "الوحدات",
+  "settings.unitsDescription": "اعرض الكميات ودرجات حرارة الفرن بنظام القياس الذي تفضله.",
+  "settings.language": "لغة الوصفة",
+  "settings.languageDescription": "تُكتب الوصفات الجديدة بهذه اللغة. يمكن ترجمة الوصفات المحفوظة من وصفاتي.",
+  "settings.sameAsBrowser": "مثل لغة متصفحي",
+  "settings.save": "احفظ الإعدادات",
+
+  "saved.fetchFailed": "تعذّر تحميل الوصفات المحفوظة.",
+  "saved.deletedTitle": "تم حذف الوصفة",
+  "saved.deletedDescription": "أُزيلت الوصفة من مجموعتك.",
+  "saved.deleteFailed": "تعذّر حذف الوصفة.",
+  "saved.delete": "احذف الوصفة",
+  "saved.translate": "ترجمة",
+  "saved.translateTo": "ترجم إلى",
+  "saved.translatedTitle": "تمت ترجمة الوصفة",
+  "saved.translatedDescription": "حُفظت نسخة {language} من {name}.",
+  "saved.translateUnreadable": "تعذّرت قراءة الوصفة المترجمة.",
+  "saved.translateFailed": "تعذّرت ترجمة الوصفة. حاول مرة أخرى.",
+  "saved.time": "{total} ({parts})",
+  "saved.prep": "{time} تحضير",
+  "saved.cook": "{time} طهي",
+  "saved.rest": "{time} راحة",
+  "saved.savedOn": "حُفظت في {date}",
+  "saved.noneFound": "لا توجد وصفات",
+  "saved.noFavorites": "لم تضف أي وصفة إلى المفضلة بعد!",
+  "saved.startCreating": "ابدأ بإنشاء الوصفات وحفظها!",
+  "saved.createFirst": "أنشئ وصفتك الأولى",
+  "saved.viewRecipe": "عرض الوصفة",
+  "saved.loading": "جارٍ تحميل وصفاتك...",
+  "saved.emptyTitle": "لا توجد وصفات محفوظة بعد",
+  "saved.emptyDescription": "ابدأ بإنشاء الوصفات واحفظ المفضلة لديك!",
+  "saved.savedTab": {
+    zero: "الوصفات المحفوظة ({count})",
+    one: "وصفة محفوظة ({count})",
+    two: "وصفتان محفوظتان ({count})",
+    few: "وصفات محفوظة ({count})",
+    other: "الوصفات المحفوظة ({count})",
+  },
+  "saved.favoritesTab": { one: "المفضلة ({count})", other: "المفضلة ({count})" },
+
+  "auth.welcomeTitle": "مرحبًا بعودتك!",
+  "auth.welcomeDescription": "تم تسجيل دخولك بنجاح.",
+  "auth.createdTitle": "تم إنشاء الحساب!",
+  "auth.createdDescription": "يمكنك الآن تسجيل الدخول والبدء في إنشاء الوصفات.",
+  "auth.failed": "حدث خطأ أثناء المصادقة.",
+  "auth.login": "تسجيل الدخول",
+  "auth.signUp": "إنشاء حساب",
+  "auth.email": "البريد الإلكتروني",
+  "auth.emailPlaceholder": "you@email.com",
+  "auth.password": "كلمة المرور",
+  "auth.loggingIn": "جارٍ تسجيل الدخول...",
+  "auth.creatingAccount": "جارٍ إنشاء الحساب...",
+  "auth.createAccount": "إنشاء الحساب",
+
+  "notFound.message": "عذرًا! الصفحة غير موجودة",
+  "notFound.home": "العودة إلى الرئيسية",
+};
+
+export default ar;
@@ -0,0 +1,415 @@
+import type { Message } from "../types";
+
+const en = {
+  "common.error": "Error",
+  "common.cancel": "Cancel",
+  "common.language": "Language",
+  "common.any": "Any",
+  "common.clear": "Clear",
+  "common.reset": "Reset",
+  "common.save": "Save",
+  "common.saving": "Saving...",
+  "common.saved": "Saved",
+  "common.openRecipe": "Open Recipe",
+  "list.separator": ", ",
+
+  "time.minutes": "{count} min",
+  "time.hours": "{count} h",
+  "time.hoursMinutes": "{hours} h {minutes} min",
+
+  "errors.invalidRequest": "Something was wrong with the request. Please try again.",
+  "errors.invalidRecipe": "The AI returned an invalid recipe. Please try again.",
+  "errors.invalidTranslation": "The AI returned an incomplete translation. Please try again.",
+  "errors.constraintViolation": "The AI could not produce a recipe that meets your dietary needs. Try different ingredients.",
+  "errors.missingIngredients":
+    "The AI could not make a recipe from only your ingredients. Add a few more or turn off \"Only use what I have\".",
+  "errors.equipmentUnavailable": "The AI could not make a recipe with the equipment in your kitchen. Try different ingredients.",
+  "errors.overTimeBudget": "The AI could not fit a recipe into your time budget. Try allowing a little more time.",
+  "errors.rejectedIngredients": "Some ingredients cannot be used in a recipe.",
+  "errors.unauthorized": "Please sign in to generate recipes.",
+  "errors.rateLimited": {
+    one: "You've reached your recipe generation limit. Try again in {count} minute.",
+    other: "You've reached your recipe generation limit. Try again in {count} minutes.",
+  },
+  "errors.aiRateLimited": "The AI is busy right now. Please try again later.",
+  "errors.paymentRequired": "The AI service is out of credits. Please try again later.",
+  "errors.fields": "Problem fields: {fields}.",
+
+  "nav.myRecipes": "My Recipes",
+  "nav.history": "History",
+  "nav.myKitchen": "My Kitchen",
+  "nav.logout": "Logout",
+  "nav.backToIngredients": "Back to Ingredients",
+  "nav.backToHome": "Back to Home",
+
+  "difficulty.Easy": "Easy",
+  "difficulty.Medium": "Medium",
+  "difficulty.Hard": "Hard",
+
+  "diet.vegan": "Vegan",
+  "diet.vegetarian": "Vegetarian",
+  "diet.keto": "Keto",
+  "diet.halal": "Halal",
+  "diet.kosher": "Kosher",
+  "diet.gluten-free": "Gluten-free",
+
+  "allergen.peanuts": "No peanuts",
+  "allergen.tree-nuts": "No tree nuts",
+  "allergen.dairy": "No dairy",
+  "allergen.eggs": "No eggs",
+  "allergen.gluten": "No gluten",
+  "allergen.soy": "No soy",
+  "allergen.fish": "No fish",
+  "allergen.shellfish": "No shellfish",
+  "allergen.sesame": "No sesame",
+
+  "allergenName.peanuts": "Peanuts",
+  "allergenName.tree-nuts": "Tree nuts",
+  "allergenName.dairy": "Dairy",
+  "allergenName.eggs": "Eggs",
+  "allergenName.gluten": "Gluten",
+  "allergenName.soy": "Soy",
+  "allergenName.fish": "Fish",
+  "allergenName.shellfish": "Shellfish",
+  "allergenName.sesame": "Sesame",
+
+  "cuisine.italian": "Italian",
+  "cuisine.mexican": "Mexican",
+  "cuisine.thai": "Thai",
+  "cuisine.indian": "Indian",
+  "cuisine.chinese": "Chinese",
+  "cuisine.japanese": "Japanese",
+  "cuisine.korean": "Korean",
+  "cuisine.french": "French",
+  "cuisine.greek": "Greek",
+  "cuisine.middle-eastern": "Middle Eastern",
+  "cuisine.mediterranean": "Mediterranean",
+  "cuisine.american": "American",
+
+  "mealType.breakfast": "Breakfast",
+  "mealType.lunch": "Lunch",
+  "mealType.dinner": "Dinner",
+  "mealType.snack": "Snack",
+  "mealType.dessert": "Dessert",
+
+  "flavor.mild": "Mild",
+  "flavor.spicy": "Spicy",
+  "flavor.savory": "Savory",
+  "flavor.sweet": "Sweet",
+  "flavor.tangy": "Tangy",
+  "flavor.smoky": "Smoky",
+  "flavor.herby": "Fresh & herby",
+
+  "equipment.stovetop": "Stovetop",
+  "equipment.oven": "Oven",
+  "equipment.microwave": "Microwave",
+  "equipment.air-fryer": "Air fryer",
+  "equipment.pressure-cooker": "Instant Pot / pressure cooker",
+  "equipment.slow-cooker": "Slow cooker",
+  "equipment.grill": "Grill",
+  "equipment.blender": "Blender",
+  "equipment.food-processor": "Food processor",
+  "equipment.mixer": "Electric mixer",
+  "equipment.rice-cooker": "Rice cooker",
+  "equipment.toaster": "Toaster",
+
+  "units.original": "As generated",
+  "units.metric": "Metric",
+  "units.us": "US customary",
+
+  "source.have": "You have it",
+  "source.staple": "Staple",
+  "source.missing": "Missing",
+
+  "macro.calories": "Calories",
+  "macro.protein": "Protein",
+  "macro.carbs": "Carbs",
+  "macro.fats": "Fats",
+  "macro.caloriesShort": "Cal",
+
+  "nutrient.calories": "Calories",
+  "nutrient.protein": "Protein",
+  "nutrient.carbs": "Total Carbohydrate",
+  "nutrient.fats": "Total Fat",
+  "nutrient.fiber": "Dietary Fiber",
+  "nutrient.sugar": "Total Sugars",
+  "nutrient.saturatedFat": "Saturated Fat",
+  "nutrient.cholesterol": "Cholesterol",
+  "nutrient.sodium": "Sodium",
+  "nutrient.vitaminD": "Vitamin D",
+  "nutrient.calcium": "Calcium",
+  "nutrient.iron": "Iron",
+  "nutrient.potassium": "Potassium",
+
+  "dietary.diets": "Dietary preferences",
+  "dietary.allergens": "Allergies (never include)",
+
+  "style.cuisine": "Cuisine",
+  "style.mealType": "Meal",
+  "style.flavor": "Flavor",
+
+  "pantry.strict": "Only use what I have",
+  "pantry.staplesHint": "Besides your ingredients, the recipe may only use these staples:",
+  "pantry.removeStaple": "Remove {name}",
+  "pantry.addStaple": "Add a staple (e.g., garlic)",
+
+  "freshness.label": "Freshness of {name}",
+  "freshness.expires": "Expires {date}",
+  "freshness.setExpiry": "Set an expiry date",
+  "freshness.expiresOn": "Expires on",
+  "freshness.useSoon": "Use soon",
+  "freshness.usedFirst": "Recipes will use it first ({when}).",
+  "freshness.soon": "use soon",
+  "freshness.pastDate": "past its date",
+  "freshness.today": "expires today",
+  "freshness.tomorrow": "expires tomorrow",
+  "freshness.inDays": { one: "expires in {count} day", other: "expires in {count} days" },
+
+  "index.heroAlt": "Kitchen with fresh ingredients",
+  "index.tagline": "Transform your ingredients into delicious recipes with AI magic",
+  "index.heading": "What's in your kitchen?",
+  "index.ingredientPlaceholder": "Enter an ingredient (e.g., chicken, tomatoes)",
+  "index.addIngredient": "Add ingredient",
+  "index.suggestions": "Suggestions",
+  "index.didYouMean": "Did you mean?",
+  "index.addTyped": "Add \"{name}\"",
+  "index.pasteList": "Paste a list",
+  "index.removeIngredient": "Remove {name}",
+  "index.useFirst": "Recipes will use up {items} first.",
+  "index.freshnessHint": "Tap the hourglass on an ingredient to add its expiry date or mark it to use soon.",
+  "index.timeAvailable": "Time available",
+  "index.noTimeLimit": "No time limit",
+  "index.underTime": "Under {time}",
+  "index.recipeLanguage": "Recipe language",
+  "index.howManyIdeas": "How many ideas?",
+  "index.oneRecipe": "One recipe",
+  "index.recipesToCompare": { one: "{count} recipe to compare", other: "{count} recipes to compare" },
+  "index.generate": "Generate Recipe",
+  "index.reset": "Reset",
+  "index.noIngredientsTitle": "Add some ingredients",
+  "index.noIngredientsDescription": "Please add at least one ingredient to generate a recipe.",
+  "index.rejectedTitle": "Some ingredients can't be used",
+  "index.rejectedDescription": "Remove or change the highlighted ingredients and try again.",
+  "index.rejectedItem": "{item}: {reason}",
+
+  "bulk.title": "Add a list of ingredients",
+  "bulk.description": "Paste a list or describe what you have. You can check everything before it's added.",
+  "bulk.reviewDescription": "Untick anything you don't want and fix any names that were read wrong.",
+  "bulk.placeholder": "2 chicken breasts, half a bag of spinach and some feta",
+  "bulk.read": "Read list",
+  "bulk.nothingFound": "No ingredients found in that text.",
+  "bulk.include": "Include {name}",
+  "bulk.nameLabel": "Ingredient name",
+  "bulk.didYouMean": "Did you mean {name}?",
+  "bulk.needsReview": "Kept as one item. If it's really several ingredients, list them separately.",
+  "bulk.back": "Back",
+  "bulk.add": { one: "Add {count} ingredient", other: "Add {count} ingredients" },
+
+  "rejection.too-many": "Only {max} ingredients can be used at once.",
+  "rejection.too-long": "Ingredient names are limited to {length} characters.",
+  "rejection.characters": "Contains characters that don't belong in an ingredient name.",
+  "rejection.instructions": "Reads like an instruction rather than an ingredient.",
+  "rejection.unsafe": "Not safe to eat.",
+  "rejection.not-food": "Doesn't look like something you can cook with.",
+  "rejection.unknown": "Not an ingredient we know. Check the spelling or try its English name.",
+
+  "recipe.generatedTitle": "Recipe generated!",
+  "recipe.generatedCached": "You asked for this recently, so here it is again instantly.",
+  "recipe.generatedFresh": "Your delicious recipe is ready.",
+  "recipe.generateFailed": "Failed to generate recipe. Please try again.",
+  "recipe.cancelledTitle": "Generation cancelled",
+  "recipe.cancelledDescription": "Your ingredients are still there.",
+  "recipe.refineUnreadable": "The refined recipe could not be read.",
+  "recipe.refineFailed": "Failed to refine recipe. Please try again.",
+  "recipe.swapInstruction": "Swap {from} for {to}",
+  "recipe.swapSummary": "Swapped {from} for {to}.",
+  "recipe.swappedTitle": "Ingredient swapped",
+  "recipe.swappedDescription": "Step back to the previous version at any time.",
+  "recipe.savedTitle": "Recipe saved!",
+  "recipe.savedDescription": "You can find it in your saved recipes.",
+  "recipe.saveFailed": "Failed to save recipe.",
+  "recipe.favoritedTitle": "Added to favorites!",
+  "recipe.favoritedDescription": "Recipe saved to your favorites.",
+  "recipe.favoriteFailed": "Failed to add to favorites.",
+  "recipe.cooking": "Cooking up your recipe...",
+  "recipe.totalTime": "{time} total",
+  "recipe.prepTime": "Prep {time}",
+  "recipe.cookTime": "Cook {time}",
+  "recipe.restTime": "Rest {time}",
+  "recipe.fewerServings": "Fewer servings",
+  "recipe.moreServings": "More servings",
+  "recipe.servings": { one: "{count} serving", other: "{count} servings" },
+  "recipe.ingredients": "Ingredients",
+  "recipe.units": "Units",
+  "recipe.findSubstitute": "Find a substitute",
+  "recipe.optional": "Optional",
+  "recipe.useItUp": "Use it up",
+  "recipe.usesUrgent": "Uses {items} before it spoils.",
+  "recipe.leavesOut": "Leaves out {items}.",
+  "recipe.equipment": "Equipment",
+  "recipe.instructions": "Instructions",
+  "recipe.tidying": "Tidying up the recipe...",
+  "recipe.writing": "Writing your recipe...",
+  "recipe.saving": "Saving...",
+  "recipe.saved": "Saved",
+  "recipe.save": "Save Recipe",
+  "recipe.adding": "Adding...",
+  "recipe.favorited": "Favorited",
+  "recipe.addFavorite": "Add to Favorites",
+  "recipe.freshOne": "Generate a Fresh One",
+  "recipe.createAnother": "Create Another Recipe",
+
+  "nutrition.aiEstimate": "AI estimate: {value}",
+  "nutrition.partial": "Calculated (partial): {value}",
+  "nutrition.calculated": {
+    one: "Calculated from a local nutrient table (USDA reference values per 100 g) for the {count} measured ingredient; the AI's estimate is shown for comparison.",
+    other: "Calculated from a local nutrient table (USDA reference values per 100 g) for all {count} measured ingredients; the AI's estimate is shown for comparison.",
+  },
+  "nutrition.estimated": {
+    one: "These are the AI's estimates. The local nutrient table covered {covered} of {count} measured ingredient.",
+    other: "These are the AI's estimates. The local nutrient table covered {covered} of {count} measured ingredients.",
+  },
+  "nutrition.notFound": "Not found: {items}.",
+  "nutrition.discrepancies": "The AI's {macros} differ a lot from the calculation from ingredients.",
+  "nutrition.detailsEstimated":
+    "Fiber, sugars, saturated fat, cholesterol, sodium, vitamins and minerals are the AI's estimates.",
+
+  "facts.perServing": "Per serving",
+  "facts.wholeRecipe": "Whole recipe",
+  "facts.title": "Nutrition Facts",
+  "facts.servings": { one: "{count} serving per recipe", other: "{count} servings per recipe" },
+  "facts.amountPerServing": "Amount per serving",
+  "facts.amountPerRecipe": "Amount per recipe",
+  "facts.dailyValue": "% Daily Value*",
+  "facts.footnote":
+    "* The % Daily Value tells you how much a nutrient in a serving of food contributes to a daily diet. 2,000 calories a day is used for general nutrition advice.",
+
+  "refine.title": "Refine this recipe",
+  "refine.description": "Ask for changes in plain words. Every version is kept, so you can step back at any time.",
+  "refine.original": "Original recipe.",
+  "refine.basedOn": "(based on version {version})",
+  "refine.showing": "Showing v{version}",
+  "refine.use": "Use v{version}",
+  "refine.working": "Reworking the recipe...",
+  "refine.placeholder": "e.g. \"no oven\", \"swap rice for quinoa\"",
+  "refine.send": "Send",
+  "refine.spicier": "Make it spicier",
+  "refine.noOven": "No oven",
+  "refine.vegetarian": "Make it vegetarian",
+  "refine.lighter": "Lighter, fewer calories",
+  "refine.quicker": "Quicker",
+
+  "substitute.title": "Substitute {name}",
+  "substitute.noneKnown": "No common swaps are known for this ingredient yet.",
+  "substitute.aiSuggestion": "AI suggestion",
+  "substitute.use": "Use this",
+  "substitute.perServing": "Per serving: {change}",
+  "substitute.unknown": "nutrition change unknown",
+  "substitute.same": "about the same nutrition",
+  "substitute.calories": "{delta} cal",
+  "substitute.protein": "{delta}g protein",
+  "substitute.carbs": "{delta}g carbs",
+  "substitute.fats": "{delta}g fats",
+  "substitute.nowDiet": "Now {diet}",
+  "substitute.noLongerDiet": "No longer {diet}",
+  "substitute.removesAllergen": "No more {allergen}",
+  "substitute.addsAllergen": "Adds {allergen}",
+  "substitute.breaksDiet": "\"{item}\" contains {keyword}, which breaks the {diet} diet requirement",
+  "substitute.breaksAllergen": "\"{item}\" contains {keyword}, which breaks the {allergen} allergy requirement",
+  "substitute.asking": "Asking the AI...",
+  "substitute.askMore": "Ask the AI for more ideas",
+  "substitute.noIdeasTitle": "No ideas this time",
+  "substitute.noIdeasDescription": "The AI couldn't find a good swap for {name}.",
+  "substitute.failed": "Failed to suggest substitutions. Please try again.",
+
+  "compare.title": "Compare Recipes",
+  "compare.failed": "Failed to generate recipes. Please try again.",
+  "compare.cooking": { one: "Cooking up {count} idea...", other: "Cooking up {count} ideas..." },
+  "compare.cookingSome": "Cooking up a few ideas...",
+  "compare.cookingDescription": "We're generating different takes on your ingredients.",
+  "compare.pick": "Pick a recipe",
+  "compare.pickDescription": {
+    one: "{count} idea from your ingredients. Open it to see the full recipe.",
+    other: "{count} different ideas from the same ingredients. Open one to see the full recipe.",
+  },
+  "compare.cached": "You asked for these recently, so they were ready instantly.",
+  "compare.fresh": "Fresh Ideas",
+  "compare.usesUrgent": "Uses {used} of {total}",
+  "compare.ingredients": { one: "{count} ingredient", other: "{count} ingredients" },
+  "compare.steps": { one: "{count} step", other: "{count} steps" },
+
+  "history.fetchFailed": "Failed to fetch your history.",
+  "history.loading": "Loading your history...",
+  "history.emptyTitle": "Nothing here yet",
+  "history.emptyDescription": "Every recipe you generate shows up here, saved or not.",
+  "history.fromCache": "From cache",
+  "history.seconds": "{seconds} s",
+  "history.useFirst": "Use first: {items}",
+  "history.compare": { one: "Compare {count} Recipe", other: "Compare {count} Recipes" },
+  "history.regenerate": "Regenerate",
+  "history.savedTitle": { one: "Recipe saved!", other: "Recipes saved!" },
+  "history.savedDescription": "Added to your recipe collection.",
+
+  "settings.loadFailed": "Failed to load your kitchen settings.",
+  "settings.saveFailed": "Failed to save your kitchen settings.",
+  "settings.savedTitle": "Settings saved",
+  "settings.savedDescription": "New recipes will fit your kitchen.",
+  "settings.loading": "Loading your kitchen...",
+  "settings.equipment": "Equipment",
+  "settings.equipmentDescription":
+    "Recipes will only use the appliances you have. Knives, bowls, pots and pans are always assumed.",
+  "settings.fullKitchen": "I have a fully equipped kitchen",
+  "settings.units": "Units",
+  "settings.unitsDescription": "Show quantities and oven temperatures in your preferred measurement system.",
+  "settings.language": "Recipe language",
+  "settings.languageDescription":
+    "New recipes are written in this language. Saved recipes can be translated from My Recipes.",
+  "settings.sameAsBrowser": "Same as my browser",
+  "settings.save": "Save Settings",
+
+  "saved.fetchFailed": "Failed to fetch saved recipes.",
+  "saved.deletedTitle": "Recipe deleted",
+  "saved.deletedDescription": "Recipe removed from your collection.",
+  "saved.deleteFailed": "Failed to delete recipe.",
+  "saved.delete": "Delete recipe",
+  "saved.translate": "Translate",
+  "saved.translateTo": "Translate to",
+  "saved.translatedTitle": "Recipe translated",
+  "saved.translatedDescription": "Saved a {language} copy of {name}.",
+  "saved.translateUnreadable": "The translated recipe could not be read.",
+  "saved.translateFailed": "Failed to translate recipe. Please try again.",
+  "saved.time": "{total} ({parts})",
+  "saved.prep": "{time} prep",
+  "saved.cook": "{time} cook",
+  "saved.rest": "{time} rest",
+  "saved.savedOn": "Saved {date}",
+  "saved.noneFound": "No recipes found",
+  "saved.noFavorites": "You haven't added any favorites yet!",
+  "saved.startCreating": "Start creating and saving recipes!",
+  "saved.createFirst": "Create Your First Recipe",
+  "saved.viewRecipe": "View Recipe",
+  "saved.loading": "Loading your recipes...",
+  "saved.emptyTitle": "No saved recipes yet",
+  "saved.emptyDescription": "Start creating recipes and save your favorites!",
+  "saved.savedTab": { one: "Saved Recipe ({count})", other: "Saved Recipes ({count})" },
+  "saved.favoritesTab": { one: "Favorite ({count})", other: "Favorites ({count})" },
+
+  "auth.welcomeTitle": "Welcome back!",
+  "auth.welcomeDescription": "You've successfully logged in.",
+  "auth.createdTitle": "Account created!",
+  "auth.createdDescription": "You can now log in and start creating recipes.",
+  "auth.failed": "An error occurred during authentication.",
+  "auth.login": "Login",
+  "auth.signUp": "Sign Up",
+  "auth.email": "Email",
+  "auth.emailPlaceholder": "your@email.com",
+  "auth.password": "Password",
+  "auth.loggingIn": "Logging in...",
+  "auth.creatingAccount": "Creating account...",
+  "auth.createAccount": "Create Account",
+
+  "notFound.message": "Oops! Page not found",
+  "notFound.home": "Return to Home",
+} satisfies Record<string, Message>;
+
+export default en;
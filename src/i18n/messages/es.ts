@@ -0,0 +1,419 @@
+import type { Catalog } from "../types";
+
+const es: Catalog = {
+  "common.error": "Error",
+  "common.cancel": "Cancelar",
+  "common.language": "Idioma",
+  "common.any": "Cualquiera",
+  "common.clear": "Borrar",
+  "common.reset": "Restablecer",
+  "common.save": "Guardar",
+  "common.saving": "Guardando...",
+  "common.saved": "Guardada",
+  "common.openRecipe": "Abrir receta",
+  "list.separator": ", ",
+
+  "time.minutes": "{count} min",
+  "time.hours": "{count} h",
+  "time.hoursMinutes": "{hours} h {minutes} min",
+
+  "errors.invalidRequest": "La solicitud no era válida. Inténtalo de nuevo.",
+  "errors.invalidRecipe": "La IA devolvió una receta no válida. Inténtalo de nuevo.",
+  "errors.invalidTranslation": "La IA devolvió una traducción incompleta. Inténtalo de nuevo.",
+  "errors.constraintViolation":
+    "La IA no pudo crear una receta que cumpla tus necesidades alimentarias. Prueba con otros ingredientes.",
+  "errors.missingIngredients":
+    "La IA no pudo crear una receta solo con tus ingredientes. Añade algunos más o desactiva \"Usar solo lo que tengo\".",
+  "errors.equipmentUnavailable":
+    "La IA no pudo crear una receta con el equipo de tu cocina. Prueba con otros ingredientes.",
+  "errors.overTimeBudget": "La IA no pudo ajustar una receta a tu tiempo disponible. Prueba a permitir un poco más de tiempo.",
+  "errors.rejectedIngredients": "Algunos ingredientes no se pueden usar en una receta.",
+  "errors.unauthorized": "Inicia sesión para generar recetas.",
+  "errors.rateLimited": {
+    one: "Has alcanzado tu límite de recetas. Inténtalo de nuevo en {count} minuto.",
+    other: "Has alcanzado tu límite de recetas. Inténtalo de nuevo en {count} minutos.",
+  },
+  "errors.aiRateLimited": "La IA está ocupada en este momento. Inténtalo más tarde.",
+  "errors.paymentRequired": "El servicio de IA se ha quedado sin créditos. Inténtalo más tarde.",
+  "errors.fields": "Campos con problemas: {fields}.",
+
+  "nav.myRecipes": "Mis recetas",
+  "nav.history": "Historial",
+  "nav.myKitchen": "Mi cocina",
+  "nav.logout": "Cerrar sesión",
+  "nav.backToIngredients": "Volver a los ingredientes",
+  "nav.backToHome": "Volver al inicio",
+
+  "difficulty.Easy": "Fácil",
+  "difficulty.Medium": "Media",
+  "difficulty.Hard": "Difícil",
+
+  "diet.vegan": "Vegana",
+  "diet.vegetarian": "Vegetariana",
+  "diet.keto": "Keto",
+  "diet.halal": "Halal",
+  "diet.kosher": "Kosher",
+  "diet.gluten-free": "Sin gluten",
+
+  "allergen.peanuts": "Sin cacahuetes",
+  "allergen.tree-nuts": "Sin frutos secos",
+  "allergen.dairy": "Sin lácteos",
+  "allergen.eggs": "Sin huevo",
+  "allergen.gluten": "Sin gluten",
+  "allergen.soy": "Sin soja",
+  "allergen.fish": "Sin pescado",
+  "allergen.shellfish": "Sin marisco",
+  "allergen.sesame": "Sin sésamo",
+
+  "allergenName.peanuts": "Cacahuetes",
+  "allergenName.tree-nuts": "Frutos secos",
+  "allergenName.dairy": "Lácteos",
+  "allergenName.eggs": "Huevos",
+  "allergenName.gluten": "Gluten",
+  "allergenName.soy": "Soja",
+  "allergenName.fish": "Pescado",
+  "allergenName.shellfish": "Mariscos",
+  "allergenName.sesame": "Sésamo",
+
+  "cuisine.italian": "Italiana",
+  "cuisine.mexican": "Mexicana",
+  "cuisine.thai": "Tailandesa",
+  "cuisine.indian": "India",
+  "cuisine.chinese": "China",
+  "cuisine.japanese": "Japonesa",
+  "cuisine.korean": "Coreana",
+  "cuisine.french": "Francesa",
+  "cuisine.greek": "Griega",
+  "cuisine.middle-eastern": "De Oriente Medio",
+  "cuisine.mediterranean": "Mediterránea",
+  "cuisine.american": "Estadounidense",
+
+  "mealType.breakfast": "Desayuno",
+  "mealType.lunch": "Almuerzo",
+  "mealType.dinner": "Cena",
+  "mealType.snack": "Tentempié",
+  "mealType.dessert": "Postre",
+
+  "flavor.mild": "Suave",
+  "flavor.spicy": "Picante",
+  "flavor.savory": "Salado",
+  "flavor.sweet": "Dulce",
+  "flavor.tangy": "Ácido",
+  "flavor.smoky": "Ahumado",
+  "flavor.herby": "Fresco y herbáceo",
+
+  "equipment.stovetop": "Fogones",
+  "equipment.oven": "Horno",
+  "equipment.microwave": "Microondas",
+  "equipment.air-fryer": "Freidora de aire",
+  "equipment.pressure-cooker": "Instant Pot / olla a presión",
+  "equipment.slow-cooker": "Olla de cocción lenta",
+  "equipment.grill": "Parrilla",
+  "equipment.blender": "Batidora de vaso",
+  "equipment.food-processor": "Procesador de alimentos",
+  "equipment.mixer": "Batidora eléctrica",
+  "equipment.rice-cooker": "Arrocera",
+  "equipment.toaster": "Tostadora",
+
+  "units.original": "Como se generó",
+  "units.metric": "Métrico",
+  "units.us": "Sistema de EE. UU.",
+
+  "source.have": "Lo tienes",
+  "source.staple": "Básico",
+  "source.missing": "Falta",
+
+  "macro.calories": "Calorías",
+  "macro.protein": "Proteínas",
+  "macro.carbs": "Carbohidratos",
+  "macro.fats": "Grasas",
+  "macro.caloriesShort": "Cal",
+
+  "nutrient.calories": "Calorías",
+  "nutrient.protein": "Proteínas",
+  "nutrient.carbs": "Carbohidratos totales",
+  "nutrient.fats": "Grasas totales",
+  "nutrient.fiber": "Fibra alimentaria",
+  "nutrient.sugar": "Azúcares totales",
+  "nutrient.saturatedFat": "Grasas saturadas",
+  "nutrient.cholesterol": "Colesterol",
+  "nutrient.sodium": "Sodio",
+  "nutrient.vitaminD": "Vitamina D",
+  "nutrient.calcium": "Calcio",
+  "nutrient.iron": "Hierro",
+  "nutrient.potassium": "Potasio",
+
+  "dietary.diets": "Preferencias alimentarias",
+  "dietary.allergens": "Alergias (nunca incluir)",
+
+  "style.cuisine": "Cocina",
+  "style.mealType": "Comida",
+  "style.flavor": "Sabor",
+
+  "pantry.strict": "Usar solo lo que tengo",
+  "pantry.staplesHint": "Además de tus ingredientes, la receta solo puede usar estos básicos:",
+  "pantry.removeStaple": "Quitar {name}",
+  "pantry.addStaple": "Añade un básico (p. ej., ajo)",
+
+  "freshness.label": "Frescura de {name}",
+  "freshness.expires": "Caduca el {date}",
+  "freshness.setExpiry": "Indica una fecha de caducidad",
+  "freshness.expiresOn": "Caduca el",
+  "freshness.useSoon": "Usar pronto",
+  "freshness.usedFirst": "Las recetas lo usarán primero ({when}).",
+  "freshness.soon": "usar pronto",
+  "freshness.pastDate": "caducado",
+  "freshness.today": "caduca hoy",
+  "freshness.tomorrow": "caduca mañana",
+  "freshness.inDays": { one: "caduca en {count} día", other: "caduca en {count} días" },
+
+  "index.heroAlt": "Cocina con ingredientes frescos",
+  "index.tagline": "Convierte tus ingredientes en recetas deliciosas con la magia de la IA",
+  "index.heading": "¿Qué hay en tu cocina?",
+  "index.ingredientPlaceholder": "Escribe un ingrediente (p. ej., pollo, tomates)",
+  "index.addIngredient": "Añadir ingrediente",
+  "index.suggestions": "Sugerencias",
+  "index.didYouMean": "¿Quisiste decir?",
+  "index.addTyped": "Añadir «{name}»",
+  "index.pasteList": "Pegar una lista",
+  "index.removeIngredient": "Quitar {name}",
+  "index.useFirst": "Las recetas usarán primero {items}.",
+  "index.freshnessHint": "Toca el reloj de arena de un ingrediente para añadir su fecha de caducidad o marcarlo para usar pronto.",
+  "index.timeAvailable": "Tiempo disponible",
+  "index.noTimeLimit": "Sin límite de tiempo",
+  "index.underTime": "Menos de {time}",
+  "index.recipeLanguage": "Idioma de la receta",
+  "index.howManyIdeas": "¿Cuántas ideas?",
+  "index.oneRecipe": "Una receta",
+  "index.recipesToCompare": { one: "{count} receta para comparar", other: "{count} recetas para comparar" },
+  "index.generate": "Generar receta",
+  "index.reset": "Reiniciar",
+  "index.noIngredientsTitle": "Añade algunos ingredientes",
+  "index.noIngredientsDescription": "Añade al menos un ingrediente para generar una receta.",
+  "index.rejectedTitle": "Algunos ingredientes no se pueden usar",
+  "index.rejectedDescription": "Quita o cambia los ingredientes marcados e inténtalo de nuevo.",
+  "index.rejectedItem": "{item}: {reason}",
+
+  "bulk.title": "Añadir una lista de ingredientes",
+  "bulk.description": "Pega una lista o describe lo que tienes. Podrás revisarlo todo antes de añadirlo.",
+  "bulk.reviewDescription": "Desmarca lo que no quieras y corrige los nombres que se hayan leído mal.",
+  "bulk.placeholder": "2 pechugas de pollo, media bolsa de espinacas y algo de queso feta",
+  "bulk.read": "Leer lista",
+  "bulk.nothingFound": "No se encontraron ingredientes en ese texto.",
+  "bulk.include": "Incluir {name}",
+  "bulk.nameLabel": "Nombre del ingrediente",
+  "bulk.didYouMean": "¿Quisiste decir {name}?",
+  "bulk.needsReview": "Se ha leído como un solo elemento. Si en realidad son varios ingredientes, escríbelos por separado.",
+  "bulk.back": "Atrás",
+  "bulk.add": { one: "Añadir {count} ingrediente", other: "Añadir {count} ingredientes" },
+
+  "rejection.too-many": "Solo se pueden usar {max} ingredientes a la vez.",
+  "rejection.too-long": "Los nombres de ingredientes tienen un máximo de {length} caracteres.",
+  "rejection.characters": "Contiene caracteres que no corresponden a un ingrediente.",
+  "rejection.instructions": "Parece una instrucción, no un ingrediente.",
+  "rejection.unsafe": "No es seguro para comer.",
+  "rejection.not-food": "No parece algo con lo que se pueda cocinar.",
+  "rejection.unknown": "No es un ingrediente que conozcamos. Revisa la ortografía o prueba con su nombre en inglés.",
+
+  "recipe.generatedTitle": "¡Receta generada!",
+  "recipe.generatedCached": "La pediste hace poco, así que aquí la tienes de nuevo al instante.",
+  "recipe.generatedFresh": "Tu deliciosa receta está lista.",
+  "recipe.generateFailed": "No se pudo generar la receta. Inténtalo de nuevo.",
+  "recipe.cancelledTitle": "Generación cancelada",
+  "recipe.cancelledDescription": "Tus ingredientes siguen ahí.",
+  "recipe.refineUnreadable": "No se pudo leer la receta ajustada.",
+  "recipe.refineFailed": "No se pudo ajustar la receta. Inténtalo de nuevo.",
+  "recipe.swapInstruction": "Cambiar {from} por {to}",
+  "recipe.swapSummary": "Se cambió {from} por {to}.",
+  "recipe.swappedTitle": "Ingrediente cambiado",
+  "recipe.swappedDescription": "Puedes volver a la versión anterior cuando quieras.",
+  "recipe.savedTitle": "¡Receta guardada!",
+  "recipe.savedDescription": "La encontrarás en tus recetas guardadas.",
+  "recipe.saveFailed": "No se pudo guardar la receta.",
+  "recipe.favoritedTitle": "¡Añadida a favoritas!",
+  "recipe.favoritedDescription": "Receta guardada en tus favoritas.",
+  "recipe.favoriteFailed": "No se pudo añadir a favoritas.",
+  "recipe.cooking": "Preparando tu receta...",
+  "recipe.totalTime": "{time} en total",
+  "recipe.prepTime": "Preparación {time}",
+  "recipe.cookTime": "Cocción {time}",
+  "recipe.restTime": "Reposo {time}",
+  "recipe.fewerServings": "Menos raciones",
+  "recipe.moreServings": "Más raciones",
+  "recipe.servings": { one: "{count} ración", other: "{count} raciones" },
+  "recipe.ingredients": "Ingredientes",
+  "recipe.units": "Unidades",
+  "recipe.findSubstitute": "Buscar un sustituto",
+  "recipe.optional": "Opcional",
+  "recipe.useItUp": "Aprovéchalo",
+  "recipe.usesUrgent": "Usa {items} antes de que se estropee.",
+  "recipe.leavesOut": "Deja fuera {items}.",
+  "recipe.equipment": "Utensilios",
+  "recipe.instructions": "Instrucciones",
+  "recipe.tidying": "Ordenando la receta...",
+  "recipe.writing": "Escribiendo tu receta...",
+  "recipe.saving": "Guardando...",
+  "recipe.saved": "Guardada",
+  "recipe.save": "Guardar receta",
+  "recipe.adding": "Añadiendo...",
+  "recipe.favorited": "En favoritas",
+  "recipe.addFavorite": "Añadir a favoritas",
+  "recipe.freshOne": "Generar una nueva",
+  "recipe.createAnother": "Crear otra receta",
+
+  "nutrition.aiEstimate": "Estimación de la IA: {value}",
+  "nutrition.partial": "Calculado (parcial): {value}",
+  "nutrition.calculated": {
+    one: "Calculado con una tabla local de nutrientes (valores de referencia del USDA por 100 g) para el {count} ingrediente medido; la estimación de la IA se muestra para comparar.",
+    other: "Calculado con una tabla local de nutrientes (valores de referencia del USDA por 100 g) para los {count} ingredientes medidos; la estimación de la IA se muestra para comparar.",
+  },
+  "nutrition.estimated": {
+    one: "Son estimaciones de la IA. La tabla local de nutrientes cubrió {covered} de {count} ingrediente medido.",
+    other: "Son estimaciones de la IA. La tabla local de nutrientes cubrió {covered} de {count} ingredientes medidos.",
+  },
+  "nutrition.notFound": "No encontrados: {items}.",
+  "nutrition.discrepancies":
+    "Los valores de {macros} de la IA difieren mucho del cálculo a partir de los ingredientes.",
+  "nutrition.detailsEstimated":
+    "La fibra, los azúcares, las grasas saturadas, el colesterol, el sodio, las vitaminas y los minerales son estimaciones de la IA.",
+
+  "facts.perServing": "Por ración",
+  "facts.wholeRecipe": "Receta completa",
+  "facts.title": "Información nutricional",
+  "facts.servings": { one: "{count} ración por receta", other: "{count} raciones por receta" },
+  "facts.amountPerServing": "Cantidad por ración",
+  "facts.amountPerRecipe": "Cantidad por receta",
+  "facts.dailyValue": "% Valor diario*",
+  "facts.footnote":
+    "* El % del valor diario indica cuánto aporta un nutriente de una ración de alimento a una dieta diaria. Se usan 2000 calorías al día como referencia nutricional general.",
+
+  "refine.title": "Ajusta esta receta",
+  "refine.description":
+    "Pide cambios con tus palabras. Se guardan todas las versiones, así que puedes volver atrás cuando quieras.",
+  "refine.original": "Receta original.",
+  "refine.basedOn": "(basada en la versión {version})",
+  "refine.showing": "Mostrando v{version}",
+  "refine.use": "Usar v{version}",
+  "refine.working": "Rehaciendo la receta...",
+  "refine.placeholder": "p. ej. \"sin horno\", \"cambia el arroz por quinoa\"",
+  "refine.send": "Enviar",
+  "refine.spicier": "Más picante",
+  "refine.noOven": "Sin horno",
+  "refine.vegetarian": "Hazla vegetariana",
+  "refine.lighter": "Más ligera, menos calorías",
+  "refine.quicker": "Más rápida",
+
+  "substitute.title": "Sustituir {name}",
+  "substitute.noneKnown": "Aún no conocemos sustitutos habituales para este ingrediente.",
+  "substitute.aiSuggestion": "Sugerencia de la IA",
+  "substitute.use": "Usar este",
+  "substitute.perServing": "Por ración: {change}",
+  "substitute.unknown": "cambio nutricional desconocido",
+  "substitute.same": "nutrición similar",
+  "substitute.calories": "{delta} cal",
+  "substitute.protein": "{delta} g de proteínas",
+  "substitute.carbs": "{delta} g de carbohidratos",
+  "substitute.fats": "{delta} g de grasas",
+  "substitute.nowDiet": "Ahora {diet}",
+  "substitute.noLongerDiet": "Ya no es {diet}",
+  "substitute.removesAllergen": "Sin {allergen}",
+  "substitute.addsAllergen": "Añade {allergen}",
+  "substitute.breaksDiet": "\"{item}\" contiene {keyword}, lo que incumple el requisito de dieta {diet}",
+  "substitute.breaksAllergen": "\"{item}\" contiene {keyword}, lo que incumple la alergia a {allergen}",
+  "substitute.asking": "Preguntando a la IA...",
+  "substitute.askMore": "Pedir más ideas a la IA",
+  "substitute.noIdeasTitle": "Sin ideas esta vez",
+  "substitute.noIdeasDescription": "La IA no encontró un buen sustituto para {name}.",
+  "substitute.failed": "No se pudieron sugerir sustitutos. Inténtalo de nuevo.",
+
+  "compare.title": "Comparar recetas",
+  "compare.failed": "No se pudieron generar las recetas. Inténtalo de nuevo.",
+  "compare.cooking": { one: "Preparando {count} idea...", other: "Preparando {count} ideas..." },
+  "compare.cookingSome": "Preparando algunas ideas...",
+  "compare.cookingDescription": "Estamos generando distintas versiones con tus ingredientes.",
+  "compare.pick": "Elige una receta",
+  "compare.pickDescription": {
+    one: "{count} idea con tus ingredientes. Ábrela para ver la receta completa.",
+    other: "{count} ideas distintas con los mismos ingredientes. Abre una para ver la receta completa.",
+  },
+  "compare.cached": "Las pediste hace poco, así que estaban listas al instante.",
+  "compare.fresh": "Ideas nuevas",
+  "compare.usesUrgent": "Usa {used} de {total}",
+  "compare.ingredients": { one: "{count} ingrediente", other: "{count} ingredientes" },
+  "compare.steps": { one: "{count} paso", other: "{count} pasos" },
+
+  "history.fetchFailed": "No se pudo cargar tu historial.",
+  "history.loading": "Cargando tu historial...",
+  "history.emptyTitle": "Aún no hay nada",
+  "history.emptyDescription": "Cada receta que generes aparece aquí, la guardes o no.",
+  "history.fromCache": "Desde la caché",
+  "history.seconds": "{seconds} s",
+  "history.useFirst": "Usar primero: {items}",
+  "history.compare": { one: "Comparar {count} receta", other: "Comparar {count} recetas" },
+  "history.regenerate": "Regenerar",
+  "history.savedTitle": { one: "¡Receta guardada!", other: "¡Recetas guardadas!" },
+  "history.savedDescription": "Añadidas a tu colección de recetas.",
+
+  "settings.loadFailed": "No se pudieron cargar los ajustes de tu cocina.",
+  "settings.saveFailed": "No se pudieron guardar los ajustes de tu cocina.",
+  "settings.savedTitle": "Ajustes guardados",
+  "settings.savedDescription": "Las nuevas recetas se adaptarán a tu cocina.",
+  "settings.loading": "Cargando tu cocina...",
+  "settings.equipment": "Equipamiento",
+  "settings.equipmentDescription":
+    "Las recetas solo usarán los aparatos que tengas. Siempre se dan por hecho cuchillos, cuencos, ollas y sartenes.",
+  "settings.fullKitchen": "Tengo una cocina totalmente equipada",
+  "settings.units": "Unidades",
+  "settings.unitsDescription": "Muestra cantidades y temperaturas del horno en tu sistema de medida preferido.",
+  "settings.language": "Idioma de las recetas",
+  "settings.languageDescription":
+    "Las nuevas recetas se escriben en este idioma. Las recetas guardadas se pueden traducir desde Mis recetas.",
+  "settings.sameAsBrowser": "El de mi navegador",
+  "settings.save": "Guardar ajustes",
+
+  "saved.fetchFailed": "No se pudieron cargar las recetas guardadas.",
+  "saved.deletedTitle": "Receta eliminada",
+  "saved.deletedDescription": "Receta quitada de tu colección.",
+  "saved.deleteFailed": "No se pudo eliminar la receta.",
+  "saved.delete": "Eliminar receta",
+  "saved.translate": "Traducir",
+  "saved.translateTo": "Traducir a",
+  "saved.translatedTitle": "Receta traducida",
+  "saved.translatedDescription": "Se guardó una copia en {language} de {name}.",
+  "saved.translateUnreadable": "No se pudo leer la receta traducida.",
+  "saved.translateFailed": "No se pudo traducir la receta. Inténtalo de nuevo.",
+  "saved.time": "{total} ({parts})",
+  "saved.prep": "{time} de preparación",
+  "saved.cook": "{time} de cocción",
+  "saved.rest": "{time} de reposo",
+  "saved.savedOn": "Guardada el {date}",
+  "saved.noneFound": "No se encontraron recetas",
+  "saved.noFavorites": "¡Todavía no has añadido favoritas!",
+  "saved.startCreating": "¡Empieza a crear y guardar recetas!",
+  "saved.createFirst": "Crea tu primera receta",
+  "saved.viewRecipe": "Ver receta",
+  "saved.loading": "Cargando tus recetas...",
+  "saved.emptyTitle": "Aún no hay recetas guardadas",
+  "saved.emptyDescription": "¡Empieza a crear recetas y guarda tus favoritas!",
+  "saved.savedTab": { one: "Receta guardada ({count})", other: "Recetas guardadas ({count})" },
+  "saved.favoritesTab": { one: "Favorita ({count})", other: "Favoritas ({count})" },
+
+  "auth.welcomeTitle": "¡Bienvenido de nuevo!",
+  "auth.welcomeDescription": "Has iniciado sesión correctamente.",
+  "auth.createdTitle": "¡Cuenta creada!",
+  "auth.createdDescription": "Ya puedes iniciar sesión y empezar a crear recetas.",
+  "auth.failed": "Se produjo un error al autenticarte.",
+  "auth.login": "Iniciar sesión",
+  "auth.signUp": "Registrarse",
+  "auth.email": "Correo electrónico",
+  "auth.emailPlaceholder": "tu@correo.com",
+  "auth.password": "Contraseña",
+  "auth.loggingIn": "Iniciando sesión...",
+  "auth.creatingAccount": "Creando la cuenta...",
+  "auth.createAccount": "Crear cuenta",
+
+  "notFound.message": "¡Vaya! Página no encontrada",
+  "notFound.home": "Volver al inicio",
+};
+
+export default es;
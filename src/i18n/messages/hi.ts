@@ -0,0 +1,414 @@
+import type { Catalog } from "../types";
+
+const hi: Catalog = {
+  "common.error": "त्रुटि",
+  "common.cancel": "रद्द करें",
+  "common.language": "भाषा",
+  "common.any": "कोई भी",
+  "common.clear": "हटाएँ",
+  "common.reset": "रीसेट करें",
+  "common.save": "सहेजें",
+  "common.saving": "सहेजा जा रहा है...",
+  "common.saved": "सहेजी गई",
+  "common.openRecipe": "रेसिपी खोलें",
+  "list.separator": ", ",
+
+  "time.minutes": "{count} मिनट",
+  "time.hours": "{count} घंटा",
+  "time.hoursMinutes": "{hours} घंटा {minutes} मिनट",
+
+  "errors.invalidRequest": "अनुरोध में कुछ गड़बड़ थी। कृपया फिर से कोशिश करें।",
+  "errors.invalidRecipe": "AI ने अमान्य रेसिपी लौटाई। कृपया फिर से कोशिश करें।",
+  "errors.invalidTranslation": "AI ने अधूरा अनुवाद लौटाया। कृपया फिर से कोशिश करें।",
+  "errors.constraintViolation": "AI आपकी आहार संबंधी ज़रूरतों के अनुसार रेसिपी नहीं बना सका। दूसरी सामग्री आज़माएँ।",
+  "errors.missingIngredients":
+    "AI केवल आपकी सामग्री से रेसिपी नहीं बना सका। कुछ और जोड़ें या \"सिर्फ़ वही इस्तेमाल करें जो मेरे पास है\" बंद करें।",
+  "errors.equipmentUnavailable": "AI आपकी रसोई के उपकरणों से रेसिपी नहीं बना सका। दूसरी सामग्री आज़माएँ।",
+  "errors.overTimeBudget": "AI आपके समय में रेसिपी नहीं बना सका। थोड़ा और समय देकर देखें।",
+  "errors.rejectedIngredients": "कुछ सामग्री रेसिपी में इस्तेमाल नहीं की जा सकती।",
+  "errors.unauthorized": "रेसिपी बनाने के लिए कृपया साइन इन करें।",
+  "errors.rateLimited": {
+    one: "आप रेसिपी बनाने की सीमा तक पहुँच गए हैं। {count} मिनट बाद फिर से कोशिश करें।",
+    other: "आप रेसिपी बनाने की सीमा तक पहुँच गए हैं। {count} मिनट बाद फिर से कोशिश करें।",
+  },
+  "errors.aiRateLimited": "AI अभी व्यस्त है। कृपया बाद में कोशिश करें।",
+  "errors.paymentRequired": "AI सेवा के क्रेडिट खत्म हो गए हैं। कृपया बाद में कोशिश करें।",
+  "errors.fields": "समस्या वाले फ़ील्ड: {fields}।",
+
+  "nav.myRecipes": "मेरी रेसिपी",
+  "nav.history": "इतिहास",
+  "nav.myKitchen": "मेरी रसोई",
+  "nav.logout": "लॉग आउट",
+  "nav.backToIngredients": "सामग्री पर वापस जाएँ",
+  "nav.backToHome": "होम पर वापस जाएँ",
+
+  "difficulty.Easy": "आसान",
+  "difficulty.Medium": "मध्यम",
+  "difficulty.Hard": "कठिन",
+
+  "diet.vegan": "वीगन",
+  "diet.vegetarian": "शाकाहारी",
+  "diet.keto": "कीटो",
+  "diet.halal": "हलाल",
+  "diet.kosher": "कोशर",
+  "diet.gluten-free": "ग्लूटेन-मुक्त",
+
+  "allergen.peanuts": "मूंगफली नहीं",
+  "allergen.tree-nuts": "मेवे नहीं",
+  "allergen.dairy": "डेयरी नहीं",
+  "allergen.eggs": "अंडा नहीं",
+  "allergen.gluten": "ग्लूटेन नहीं",
+  "allergen.soy": "सोया नहीं",
+  "allergen.fish": "मछली नहीं",
+  "allergen.shellfish": "शेलफ़िश नहीं",
+  "allergen.sesame": "तिल नहीं",
+
+  "allergenName.peanuts": "मूंगफली",
+  "allergenName.tree-nuts": "मेवे",
+  "allergenName.dairy": "डेयरी",
+  "allergenName.eggs": "अंडे",
+  "allergenName.gluten": "ग्लूटेन",
+  "allergenName.soy": "सोया",
+  "allergenName.fish": "मछली",
+  "allergenName.shellfish": "शेलफ़िश",
+  "allergenName.sesame": "तिल",
+
+  "cuisine.italian": "इतालवी",
+  "cuisine.mexican": "मैक्सिकन",
+  "cuisine.thai": "थाई",
+  "cuisine.indian": "भारतीय",
+  "cuisine.chinese": "चीनी",
+  "cuisine.japanese": "जापानी",
+  "cuisine.korean": "कोरियाई",
+  "cuisine.french": "फ़्रेंच",
+  "cuisine.greek": "ग्रीक",
+  "cuisine.middle-eastern": "मध्य-पूर्वी",
+  "cuisine.mediterranean": "भूमध्यसागरीय",
+  "cuisine.american": "अमेरिकी",
+
+  "mealType.breakfast": "नाश्ता",
+  "mealType.lunch": "दोपहर का भोजन",
+  "mealType.dinner": "रात का भोजन",
+  "mealType.snack": "स्नैक",
+  "mealType.dessert": "मिठाई",
+
+  "flavor.mild": "हल्का",
+  "flavor.spicy": "तीखा",
+  "flavor.savory": "नमकीन",
+  "flavor.sweet": "मीठा",
+  "flavor.tangy": "खट्टा",
+  "flavor.smoky": "धुएँदार",
+  "flavor.herby": "ताज़ा और हर्बी",
+
+  "equipment.stovetop": "चूल्हा",
+  "equipment.oven": "ओवन",
+  "equipment.microwave": "माइक्रोवेव",
+  "equipment.air-fryer": "एयर फ़्रायर",
+  "equipment.pressure-cooker": "इंस्टेंट पॉट / प्रेशर कुकर",
+  "equipment.slow-cooker": "स्लो कुकर",
+  "equipment.grill": "ग्रिल",
+  "equipment.blender": "ब्लेंडर",
+  "equipment.food-processor": "फ़ूड प्रोसेसर",
+  "equipment.mixer": "इलेक्ट्रिक मिक्सर",
+  "equipment.rice-cooker": "राइस कुकर",
+  "equipment.toaster": "टोस्टर",
+
+  "units.original": "जैसा बना",
+  "units.metric": "मीट्रिक",
+  "units.us": "अमेरिकी माप",
+
+  "source.have": "आपके पास है",
+  "source.staple": "रोज़मर्रा का",
+  "source.missing": "नहीं है",
+
+  "macro.calories": "कैलोरी",
+  "macro.protein": "प्रोटीन",
+  "macro.carbs": "कार्ब्स",
+  "macro.fats": "वसा",
+  "macro.caloriesShort": "कैलोरी",
+
+  "nutrient.calories": "कैलोरी",
+  "nutrient.protein": "प्रोटीन",
+  "nutrient.carbs": "कुल कार्बोहाइड्रेट",
+  "nutrient.fats": "कुल वसा",
+  "nutrient.fiber": "आहार फ़ाइबर",
+  "nutrient.sugar": "कुल शर्करा",
+  "nutrient.saturatedFat": "संतृप्त वसा",
+  "nutrient.cholesterol": "कोलेस्ट्रॉल",
+  "nutrient.sodium": "सोडियम",
+  "nutrient.vitaminD": "विटामिन D",
+  "nutrient.calcium": "कैल्शियम",
+  "nutrient.iron": "आयरन",
+  "nutrient.potassium": "पोटैशियम",
+
+  "dietary.diets": "आहार संबंधी पसंद",
+  "dietary.allergens": "एलर्जी (कभी शामिल न करें)",
+
+  "style.cuisine": "व्यंजन शैली",
+  "style.mealType": "भोजन",
+  "style.flavor": "स्वाद",
+
+  "pantry.strict": "सिर्फ़ वही इस्तेमाल करें जो मेरे पास है",
+  "pantry.staplesHint": "आपकी सामग्री के अलावा, रेसिपी सिर्फ़ ये बुनियादी चीज़ें इस्तेमाल कर सकती है:",
+  "pantry.removeStaple": "{name} हटाएँ",
+  "pantry.addStaple": "कोई बुनियादी चीज़ जोड़ें (जैसे, लहसुन)",
+
+  "freshness.label": "{name} की ताज़गी",
+  "freshness.expires": "{date} को समाप्त",
+  "freshness.setExpiry": "समाप्ति तिथि डालें",
+  "freshness.expiresOn": "समाप्ति तिथि",
+  "freshness.useSoon": "जल्दी इस्तेमाल करें",
+  "freshness.usedFirst": "रेसिपी इसे पहले इस्तेमाल करेंगी ({when})।",
+  "freshness.soon": "जल्दी इस्तेमाल करें",
+  "freshness.pastDate": "तिथि निकल चुकी है",
+  "freshness.today": "आज समाप्त",
+  "freshness.tomorrow": "कल समाप्त",
+  "freshness.inDays": { one: "{count} दिन में समाप्त", other: "{count} दिनों में समाप्त" },
+
+  "index.heroAlt": "ताज़ी सामग्री वाली रसोई",
+  "index.tagline": "AI के जादू से अपनी सामग्री को स्वादिष्ट रेसिपी में बदलें",
+  "index.heading": "आपकी रसोई में क्या है?",
+  "index.ingredientPlaceholder": "कोई सामग्री लिखें (जैसे, चिकन, टमाटर)",
+  "index.addIngredient": "सामग्री जोड़ें",
+  "index.suggestions": "सुझाव",
+  "index.didYouMean": "क्या आपका मतलब था?",
+  "index.addTyped": "\"{name}\" जोड़ें",
+  "index.pasteList": "सूची चिपकाएँ",
+  "index.removeIngredient": "{name} हटाएँ",
+  "index.useFirst": "रेसिपी पहले {items} का इस्तेमाल करेंगी।",
+  "index.freshnessHint": "किसी सामग्री की एक्सपायरी तारीख जोड़ने या उसे जल्दी इस्तेमाल के लिए चिह्नित करने हेतु रेतघड़ी पर टैप करें।",
+  "index.timeAvailable": "उपलब्ध समय",
+  "index.noTimeLimit": "कोई समय सीमा नहीं",
+  "index.underTime": "{time} से कम",
+  "index.recipeLanguage": "रेसिपी की भाषा",
+  "index.howManyIdeas": "कितने सुझाव?",
+  "index.oneRecipe": "एक रेसिपी",
+  "index.recipesToCompare": "तुलना के लिए {count} रेसिपी",
+  "index.generate": "रेसिपी बनाएँ",
+  "index.reset": "रीसेट करें",
+  "index.noIngredientsTitle": "कुछ सामग्री जोड़ें",
+  "index.noIngredientsDescription": "रेसिपी बनाने के लिए कम से कम एक सामग्री जोड़ें।",
+  "index.rejectedTitle": "कुछ सामग्री इस्तेमाल नहीं की जा सकती",
+  "index.rejectedDescription": "चिह्नित सामग्री हटाएँ या बदलें और फिर से कोशिश करें।",
+  "index.rejectedItem": "{item}: {reason}",
+
+  "bulk.title": "सामग्री की सूची जोड़ें",
+  "bulk.description": "सूची चिपकाएँ या बताएँ कि आपके पास क्या है। जोड़ने से पहले आप सब कुछ जाँच सकते हैं।",
+  "bulk.reviewDescription": "जो नहीं चाहिए उसका निशान हटाएँ और गलत पढ़े गए नाम ठीक करें।",
+  "bulk.placeholder": "2 chicken breasts, half a bag of spinach and some feta",
+  "bulk.read": "सूची पढ़ें",
+  "bulk.nothingFound": "इस पाठ में कोई सामग्री नहीं मिली।",
+  "bulk.include": "{name} शामिल करें",
+  "bulk.nameLabel": "सामग्री का नाम",
+  "bulk.didYouMean": "क्या आपका मतलब {name} था?",
+  "bulk.needsReview": "इसे एक ही चीज़ माना गया है। अगर ये कई सामग्रियाँ हैं, तो इन्हें अलग-अलग लिखें।",
+  "bulk.back": "वापस",
+  "bulk.add": "{count} सामग्री जोड़ें",
+
+  "rejection.too-many": "एक बार में केवल {max} सामग्री इस्तेमाल की जा सकती हैं।",
+  "rejection.too-long": "सामग्री का नाम अधिकतम {length} अक्षरों का हो सकता है।",
+  "rejection.characters": "इसमें ऐसे अक्षर हैं जो सामग्री के नाम में नहीं होते।",
+  "rejection.instructions": "यह सामग्री नहीं, बल्कि कोई निर्देश लगता है।",
+  "rejection.unsafe": "खाने के लिए सुरक्षित नहीं है।",
+  "rejection.not-food": "यह खाना पकाने की चीज़ नहीं लगती।",
+  "rejection.unknown": "यह कोई जानी-पहचानी सामग्री नहीं है। वर्तनी जाँचें या इसका अंग्रेज़ी नाम आज़माएँ।",
+
+  "recipe.generatedTitle": "रेसिपी तैयार!",
+  "recipe.generatedCached": "आपने इसे हाल ही में माँगा था, इसलिए यह तुरंत फिर से हाज़िर है।",
+  "recipe.generatedFresh": "आपकी स्वादिष्ट रेसिपी तैयार है।",
+  "recipe.generateFailed": "रेसिपी नहीं बन सकी। कृपया फिर से कोशिश करें।",
+  "recipe.cancelledTitle": "रेसिपी बनाना रद्द किया गया",
+  "recipe.cancelledDescription": "आपकी सामग्री अभी भी वहीं है।",
+  "recipe.refineUnreadable": "बदली हुई रेसिपी पढ़ी नहीं जा सकी।",
+  "recipe.refineFailed": "रेसिपी बदली नहीं जा सकी। कृपया फिर से कोशिश करें।",
+  "recipe.swapInstruction": "{from} की जगह {to} लें",
+  "recipe.swapSummary": "{from} की जगह {to} लिया गया।",
+  "recipe.swappedTitle": "सामग्री बदली गई",
+  "recipe.swappedDescription": "आप कभी भी पिछले संस्करण पर लौट सकते हैं।",
+  "recipe.savedTitle": "रेसिपी सहेजी गई!",
+  "recipe.savedDescription": "यह आपको अपनी सहेजी गई रेसिपी में मिलेगी।",
+  "recipe.saveFailed": "रेसिपी सहेजी नहीं जा सकी।",
+  "recipe.favoritedTitle": "पसंदीदा में जोड़ी गई!",
+  "recipe.favoritedDescription": "रेसिपी आपकी पसंदीदा में सहेजी गई।",
+  "recipe.favoriteFailed": "पसंदीदा में नहीं जोड़ी जा सकी।",
+  "recipe.cooking": "आपकी रेसिपी बन रही है...",
+  "recipe.totalTime": "कुल {time}",
+  "recipe.prepTime": "तैयारी {time}",
+  "recipe.cookTime": "पकाना {time}",
+  "recipe.restTime": "आराम {time}",
+  "recipe.fewerServings": "कम सर्विंग",
+  "recipe.moreServings": "ज़्यादा सर्विंग",
+  "recipe.servings": "{count} सर्विंग",
+  "recipe.ingredients": "सामग्री",
+  "recipe.units": "इकाइयाँ",
+  "recipe.findSubstitute": "विकल्प खोजें",
+  "recipe.optional": "वैकल्पिक",
+  "recipe.useItUp": "पहले इस्तेमाल करें",
+  "recipe.usesUrgent": "{items} को ख़राब होने से पहले इस्तेमाल करती है।",
+  "recipe.leavesOut": "{items} शामिल नहीं है।",
+  "recipe.equipment": "उपकरण",
+  "recipe.instructions": "विधि",
+  "recipe.tidying": "रेसिपी ठीक की जा रही है...",
+  "recipe.writing": "आपकी रेसिपी लिखी जा रही है...",
+  "recipe.saving": "सहेजा जा रहा है...",
+  "recipe.saved": "सहेजी गई",
+  "recipe.save": "रेसिपी सहेजें",
+  "recipe.adding": "जोड़ा जा रहा है...",
+  "recipe.favorited": "पसंदीदा",
+  "recipe.addFavorite": "पसंदीदा में जोड़ें",
+  "recipe.freshOne": "नई रेसिपी बनाएँ",
+  "recipe.createAnother": "एक और रेसिपी बनाएँ",
+
+  "nutrition.aiEstimate": "AI का अनुमान: {value}",
+  "nutrition.partial": "गणना (आंशिक): {value}",
+  "nutrition.calculated": {
+    one: "{count} मापी गई सामग्री के लिए स्थानीय पोषक तालिका (प्रति 100 g USDA संदर्भ मान) से गणना की गई; तुलना के लिए AI का अनुमान दिखाया गया है।",
+    other: "सभी {count} मापी गई सामग्रियों के लिए स्थानीय पोषक तालिका (प्रति 100 g USDA संदर्भ मान) से गणना की गई; तुलना के लिए AI का अनुमान दिखाया गया है।",
+  },
+  "nutrition.estimated": {
+    one: "ये AI के अनुमान हैं। स्थानीय पोषक तालिका में {count} में से {covered} मापी गई सामग्री मिली।",
+    other: "ये AI के अनुमान हैं। स्थानीय पोषक तालिका में {count} में से {covered} मापी गई सामग्रियाँ मिलीं।",
+  },
+  "nutrition.notFound": "नहीं मिलीं: {items}।",
+  "nutrition.discrepancies": "AI के {macros} सामग्री से की गई गणना से काफ़ी अलग हैं।",
+  "nutrition.detailsEstimated": "फ़ाइबर, शर्करा, संतृप्त वसा, कोलेस्ट्रॉल, सोडियम, विटामिन और खनिज AI के अनुमान हैं।",
+
+  "facts.perServing": "प्रति सर्विंग",
+  "facts.wholeRecipe": "पूरी रेसिपी",
+  "facts.title": "पोषण तथ्य",
+  "facts.servings": "प्रति रेसिपी {count} सर्विंग",
+  "facts.amountPerServing": "प्रति सर्विंग मात्रा",
+  "facts.amountPerRecipe": "प्रति रेसिपी मात्रा",
+  "facts.dailyValue": "% दैनिक मूल्य*",
+  "facts.footnote":
+    "* % दैनिक मूल्य बताता है कि भोजन की एक सर्विंग में मौजूद पोषक तत्व दैनिक आहार में कितना योगदान देता है। सामान्य पोषण सलाह के लिए प्रतिदिन 2,000 कैलोरी मानी जाती है।",
+
+  "refine.title": "इस रेसिपी को बेहतर बनाएँ",
+  "refine.description": "सीधे शब्दों में बदलाव माँगें। हर संस्करण सहेजा जाता है, इसलिए आप कभी भी पीछे जा सकते हैं।",
+  "refine.original": "मूल रेसिपी।",
+  "refine.basedOn": "(संस्करण {version} पर आधारित)",
+  "refine.showing": "v{version} दिख रहा है",
+  "refine.use": "v{version} इस्तेमाल करें",
+  "refine.working": "रेसिपी दोबारा बनाई जा रही है...",
+  "refine.placeholder": "जैसे \"ओवन के बिना\", \"चावल की जगह क्विनोआ\"",
+  "refine.send": "भेजें",
+  "refine.spicier": "और तीखा बनाएँ",
+  "refine.noOven": "ओवन के बिना",
+  "refine.vegetarian": "शाकाहारी बनाएँ",
+  "refine.lighter": "हल्का, कम कैलोरी",
+  "refine.quicker": "जल्दी बनने वाला",
+
+  "substitute.title": "{name} का विकल्प",
+  "substitute.noneKnown": "इस सामग्री के लिए अभी कोई आम विकल्प ज्ञात नहीं है।",
+  "substitute.aiSuggestion": "AI का सुझाव",
+  "substitute.use": "इसे इस्तेमाल करें",
+  "substitute.perServing": "प्रति सर्विंग: {change}",
+  "substitute.unknown": "पोषण में बदलाव अज्ञात",
+  "substitute.same": "पोषण लगभग समान",
+  "substitute.calories": "{delta} कैलोरी",
+  "substitute.protein": "{delta} g प्रोटीन",
+  "substitute.carbs": "{delta} g कार्ब्स",
+  "substitute.fats": "{delta} g वसा",
+  "substitute.nowDiet": "अब {diet}",
+  "substitute.noLongerDiet": "अब {diet} नहीं",
+  "substitute.removesAllergen": "अब {allergen} नहीं",
+  "substitute.addsAllergen": "{allergen} जुड़ता है",
+  "substitute.breaksDiet": "\"{item}\" में {keyword} है, जो {diet} आहार की शर्त तोड़ता है",
+  "substitute.breaksAllergen": "\"{item}\" में {keyword} है, जो {allergen} एलर्जी की शर्त तोड़ता है",
+  "substitute.asking": "AI से पूछा जा रहा है...",
+  "substitute.askMore": "AI से और सुझाव माँगें",
+  "substitute.noIdeasTitle": "इस बार कोई सुझाव नहीं",
+  "substitute.noIdeasDescription": "AI को {name} के लिए अच्छा विकल्प नहीं मिला।",
+  "substitute.failed": "विकल्प सुझाए नहीं जा सके। कृपया फिर से कोशिश करें।",
+
+  "compare.title": "रेसिपी की तुलना करें",
+  "compare.failed": "रेसिपी नहीं बन सकीं। कृपया फिर से कोशिश करें।",
+  "compare.cooking": { one: "{count} आइडिया तैयार हो रहा है...", other: "{count} आइडिया तैयार हो रहे हैं..." },
+  "compare.cookingSome": "कुछ आइडिया तैयार हो रहे हैं...",
+  "compare.cookingDescription": "हम आपकी सामग्री से अलग-अलग रेसिपी बना रहे हैं।",
+  "compare.pick": "एक रेसिपी चुनें",
+  "compare.pickDescription": {
+    one: "आपकी सामग्री से {count} आइडिया। पूरी रेसिपी देखने के लिए इसे खोलें।",
+    other: "एक ही सामग्री से {count} अलग-अलग आइडिया। पूरी रेसिपी देखने के लिए कोई एक खोलें।",
+  },
+  "compare.cached": "आपने ये हाल ही में माँगी थीं, इसलिए ये तुरंत तैयार थीं।",
+  "compare.fresh": "नए आइडिया",
+  "compare.usesUrgent": "{total} में से {used} इस्तेमाल",
+  "compare.ingredients": { one: "{count} सामग्री", other: "{count} सामग्रियाँ" },
+  "compare.steps": "{count} चरण",
+
+  "history.fetchFailed": "आपका इतिहास लोड नहीं हो सका।",
+  "history.loading": "आपका इतिहास लोड हो रहा है...",
+  "history.emptyTitle": "अभी यहाँ कुछ नहीं है",
+  "history.emptyDescription": "आपकी बनाई हर रेसिपी यहाँ दिखती है, चाहे सहेजी गई हो या नहीं।",
+  "history.fromCache": "कैश से",
+  "history.seconds": "{seconds} सेकंड",
+  "history.useFirst": "पहले इस्तेमाल करें: {items}",
+  "history.compare": "{count} रेसिपी की तुलना करें",
+  "history.regenerate": "फिर से बनाएँ",
+  "history.savedTitle": { one: "रेसिपी सहेजी गई!", other: "रेसिपी सहेजी गईं!" },
+  "history.savedDescription": "आपके रेसिपी संग्रह में जोड़ दी गई।",
+
+  "settings.loadFailed": "आपकी रसोई की सेटिंग्स लोड नहीं हो सकीं।",
+  "settings.saveFailed": "आपकी रसोई की सेटिंग्स सहेजी नहीं जा सकीं।",
+  "settings.savedTitle": "सेटिंग्स सहेजी गईं",
+  "settings.savedDescription": "नई रेसिपी आपकी रसोई के हिसाब से बनेंगी।",
+  "settings.loading": "आपकी रसोई लोड हो रही है...",
+  "settings.equipment": "उपकरण",
+  "settings.equipmentDescription":
+    "रेसिपी सिर्फ़ आपके पास मौजूद उपकरण इस्तेमाल करेंगी। चाकू, कटोरे, बर्तन और कड़ाही हमेशा माने जाते हैं।",
+  "settings.fullKitchen": "मेरी रसोई में सब कुछ है",
+  "settings.units": "इकाइयाँ",
+  "settings.unitsDescription": "मात्राएँ और ओवन का तापमान अपनी पसंद की माप प्रणाली में दिखाएँ।",
+  "settings.language": "रेसिपी की भाषा",
+  "settings.languageDescription":
+    "नई रेसिपी इसी भाषा में लिखी जाती हैं। सहेजी गई रेसिपी का अनुवाद मेरी रेसिपी से किया जा सकता है।",
+  "settings.sameAsBrowser": "मेरे ब्राउज़र जैसी",
+  "settings.save": "सेटिंग्स सहेजें",
+
+  "saved.fetchFailed": "सहेजी गई रेसिपी लोड नहीं हो सकीं।",
+  "saved.deletedTitle": "रेसिपी हटाई गई",
+  "saved.deletedDescription": "रेसिपी आपके संग्रह से हटा दी गई।",
+  "saved.deleteFailed": "रेसिपी हटाई नहीं जा सकी।",
+  "saved.delete": "रेसिपी हटाएँ",
+  "saved.translate": "अनुवाद करें",
+  "saved.translateTo": "इस भाषा में अनुवाद करें",
+  "saved.translatedTitle": "रेसिपी का अनुवाद हो गया",
+  "saved.translatedDescription": "{name} की {language} प्रति सहेजी गई।",
+  "saved.translateUnreadable": "अनुवादित रेसिपी पढ़ी नहीं जा सकी।",
+  "saved.translateFailed": "रेसिपी का अनुवाद नहीं हो सका। कृपया फिर से कोशिश करें।",
+  "saved.time": "{total} ({parts})",
+  "saved.prep": "{time} तैयारी",
+  "saved.cook": "{time} पकाना",
+  "saved.rest": "{time} आराम",
+  "saved.savedOn": "{date} को सहेजी गई",
+  "saved.noneFound": "कोई रेसिपी नहीं मिली",
+  "saved.noFavorites": "आपने अभी तक कोई पसंदीदा नहीं जोड़ी है!",
+  "saved.startCreating": "रेसिपी बनाना और सहेजना शुरू करें!",
+  "saved.createFirst": "अपनी पहली रेसिपी बनाएँ",
+  "saved.viewRecipe": "रेसिपी देखें",
+  "saved.loading": "आपकी रेसिपी लोड हो रही हैं...",
+  "saved.emptyTitle": "अभी तक कोई सहेजी गई रेसिपी नहीं",
+  "saved.emptyDescription": "रेसिपी बनाना शुरू करें और अपनी पसंदीदा सहेजें!",
+  "saved.savedTab": "सहेजी गई रेसिपी ({count})",
+  "saved.favoritesTab": "पसंदीदा ({count})",
+
+  "auth.welcomeTitle": "फिर से स्वागत है!",
+  "auth.welcomeDescription": "आप सफलतापूर्वक लॉग इन हो गए हैं।",
+  "auth.createdTitle": "खाता बन गया!",
+  "auth.createdDescription": "अब आप लॉग इन करके रेसिपी बनाना शुरू कर सकते हैं।",
+  "auth.failed": "प्रमाणीकरण के दौरान एक त्रुटि हुई।",
+  "auth.login": "लॉग इन",
+  "auth.signUp": "साइन अप",
+  "auth.email": "ईमेल",
+  "auth.emailPlaceholder": "aap@email.com",
+  "auth.password": "पासवर्ड",
+  "auth.loggingIn": "लॉग इन हो रहा है...",
+  "auth.creatingAccount": "खाता बनाया जा रहा है...",
+  "auth.createAccount": "खाता बनाएँ",
+
+  "notFound.message": "ओह! पेज नहीं मिला",
+  "notFound.home": "होम पर लौटें",
+};
+
+export default hi;
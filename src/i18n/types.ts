@@ -0,0 +1,14 @@
+import type en from "./messages/en";
+
+/** Forms picked by `Intl.PluralRules` from the `count` parameter; `other` is the fallback. */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/** Text with `{name}` placeholders, or one such text per plural form. */
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+
+/** Every other catalog must translate every English key. */
+export type Catalog = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
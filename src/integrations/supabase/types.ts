@@ -14,30 +14,126 @@ export type Database = {
   }
   public: {
     Tables: {
+      generation_requests: {
+        Row: {
+          created_at: string
+          function_name: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          function_name: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          function_name?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
           email: string | null
+          equipment: string[] | null
           id: string
+          language: string | null
+          units: string
           updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
           email?: string | null
+          equipment?: string[] | null
           id: string
+          language?: string | null
+          units?: string
           updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
           email?: string | null
+          equipment?: string[] | null
           id?: string
+          language?: string | null
+          units?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      recipe_cache: {
+        Row: {
+          cache_key: string
+          created_at: string
+          expires_at: string
+          ingredients: string[]
+          model: string
+          options: Json
+          result: Json
+        }
+        Insert: {
+          cache_key: string
+          created_at?: string
+          expires_at: string
+          ingredients: string[]
+          model: string
+          options?: Json
+          result: Json
+        }
+        Update: {
+          cache_key?: string
+          created_at?: string
+          expires_at?: string
+          ingredients?: string[]
+          model?: string
+          options?: Json
+          result?: Json
+        }
+        Relationships: []
+      }
+      recipe_generations: {
+        Row: {
+          cached: boolean
+          created_at: string
+          id: string
+          ingredients: string[]
+          latency_ms: number
+          model: string
+          options: Json
+          recipes: Json
+          user_id: string
+        }
+        Insert: {
+          cached?: boolean
+          created_at?: string
+          id?: string
+          ingredients: string[]
+          latency_ms: number
+          model: string
+          options?: Json
+          recipes: Json
+          user_id: string
+        }
+        Update: {
+          cached?: boolean
+          created_at?: string
+          id?: string
+          ingredients?: string[]
+          latency_ms?: number
+          model?: string
+          options?: Json
+          recipes?: Json
+          user_id?: string
+        }
+        Relationships: []
+      }
       saved_recipes: {
         Row: {
           created_at: string
@@ -73,7 +169,15 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      consume_generation_quota: {
+        Args: {
+          p_daily_limit: number
+          p_function_name: string
+          p_hourly_limit: number
+          p_user_id: string
+        }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,67 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import type { I18n, MessageKey } from "@/i18n";
+import type { RecipeFieldError } from "@shared/recipe";
+import type { RejectedIngredient } from "@shared/ingredient-guard";
+
+export interface FunctionErrorBody {
+  error: string;
+  code?: string;
+  fields?: RecipeFieldError[];
+  /** Ingredients generate-recipe refused to use, each with the reason. */
+  rejected?: RejectedIngredient[];
+  /** Seconds until a rate-limited user may try again. */
+  retryAfter?: number;
+}
+
+/** Error reported inside a successful response, e.g. as a stream event. */
+export class FunctionError extends Error {
+  constructor(public body: FunctionErrorBody) {
+    super(body.error);
+    this.name = "FunctionError";
+  }
+}
+
+/**
+ * Turns an error thrown by `supabase.functions.invoke` into the JSON body the
+ * edge function sent back, falling back to the error message.
+ */
+export async function readFunctionError(error: unknown): Promise<FunctionErrorBody> {
+  if (error instanceof FunctionError) return error.body;
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json();
+      if (body?.error) return body;
+    } catch {
+      // Non-JSON body; use the generic message below.
+    }
+  }
+  return { error: error instanceof Error ? error.message : String(error) };
+}
+
+// The edge functions' error codes; their English `error` text is only shown
+// for codes missing here.
+const ERROR_MESSAGES: Partial<Record<string, MessageKey>> = {
+  INVALID_REQUEST: "errors.invalidRequest",
+  INVALID_RECIPE: "errors.invalidRecipe",
+  INVALID_TRANSLATION: "errors.invalidTranslation",
+  CONSTRAINT_VIOLATION: "errors.constraintViolation",
+  MISSING_INGREDIENTS: "errors.missingIngredients",
+  EQUIPMENT_UNAVAILABLE: "errors.equipmentUnavailable",
+  OVER_TIME_BUDGET: "errors.overTimeBudget",
+  REJECTED_INGREDIENTS: "errors.rejectedIngredients",
+  UNAUTHORIZED: "errors.unauthorized",
+  RATE_LIMITED: "errors.rateLimited",
+  AI_RATE_LIMITED: "errors.aiRateLimited",
+  PAYMENT_REQUIRED: "errors.paymentRequired",
+};
+
+/** The error in the interface language, with the fields the server flagged. */
+export function describeFunctionError(
+  { error, code, fields, retryAfter }: FunctionErrorBody,
+  { t, formatList }: Pick<I18n, "t" | "formatList">,
+): string {
+  const key = code ? ERROR_MESSAGES[code] : undefined;
+  const message = key ? t(key, { count: Math.ceil((retryAfter ?? 60) / 60) }) : error;
+  if (!fields?.length) return message;
+  return `${message} ${t("errors.fields", { fields: formatList(fields.map((f) => f.field)) })}`;
+}
@@ -0,0 +1,52 @@
+/**
+ * Parses the longest usable prefix of an incomplete JSON document, closing any
+ * open strings, arrays and objects. Used to render model output mid-stream.
+ */
+export function parsePartialJson(text: string): unknown {
+  const stack: string[] = [];
+  // Positions where everything before is a complete value, with the closers needed there.
+  let lastCut: { index: number; closers: string } | null = null;
+  let inString = false;
+  let escaped = false;
+
+  const closers = () => [...stack].reverse().join("");
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      stack.push(char === "{" ? "}" : "]");
+      lastCut = { index: i + 1, closers: closers() };
+    } else if (char === "}" || char === "]") {
+      stack.pop();
+      lastCut = { index: i + 1, closers: closers() };
+    } else if (char === ",") {
+      lastCut = { index: i, closers: closers() };
+    }
+  }
+
+  // First try keeping everything, which shows strings as they are typed.
+  let attempt = text;
+  if (inString) attempt += escaped ? '\\"' : '"';
+  try {
+    return JSON.parse(attempt.replace(/,\s*$/, "") + closers());
+  } catch {
+    // Dangling key, colon or half-written literal; fall back below.
+  }
+
+  if (!lastCut) return undefined;
+  try {
+    return JSON.parse(text.slice(0, lastCut.index) + lastCut.closers);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,64 @@
+import { supabase } from "@/integrations/supabase/client";
+import { FunctionError } from "@/lib/functions";
+import { parsePartialJson } from "@/lib/partial-json";
+import type { IngredientLine } from "@shared/ingredients";
+import type { Macros, Recipe, RecipeStreamEvent } from "@shared/recipe";
+import { readSseData } from "@shared/sse";
+
+/** A recipe as far as the model has written it; any field may still be missing. */
+export type RecipeDraft = Partial<Omit<Recipe, "macros" | "ingredients" | "instructions">> & {
+  macros?: Partial<Macros>;
+  ingredients?: Partial<IngredientLine>[];
+  instructions?: string[];
+};
+
+/** The final recipe, and whether the server answered from its cache. */
+export interface StreamedRecipe {
+  recipe: Recipe;
+  cached: boolean;
+  cachedAt?: string;
+}
+
+interface StreamRecipeOptions {
+  signal?: AbortSignal;
+  onDraft?: (draft: RecipeDraft) => void;
+  onRepairing?: () => void;
+}
+
+/**
+ * Calls generate-recipe in streaming mode, reporting partial drafts as they
+ * arrive and resolving with the validated recipe from the final event.
+ */
+export async function streamRecipe(
+  body: Record<string, unknown>,
+  { signal, onDraft, onRepairing }: StreamRecipeOptions = {},
+): Promise<StreamedRecipe> {
+  const { data, error } = await supabase.functions.invoke<Response>("generate-recipe", {
+    body: { ...body, stream: true },
+    signal,
+  });
+  if (error) throw error;
+
+  let content = "";
+  for await (const payload of readSseData(data.body)) {
+    const event = JSON.parse(payload) as RecipeStreamEvent;
+
+    switch (event.type) {
+      case "delta": {
+        content += event.content;
+        const draft = parsePartialJson(content);
+        if (draft && typeof draft === "object") onDraft?.(draft as RecipeDraft);
+        break;
+      }
+      case "repairing":
+        onRepairing?.();
+        break;
+      case "recipe":
+        return { recipe: event.recipe, cached: event.cached ?? false, cachedAt: event.cachedAt };
+      case "error":
+        throw new FunctionError({ error: event.error, code: event.code, fields: event.fields });
+    }
+  }
+
+  throw new FunctionError({ error: "The recipe stream ended unexpectedly. Please try again." });
+}
@@ -4,7 +4,9 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
 import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/useI18n";
 import { supabase } from "@/integrations/supabase/client";
 import { ChefHat, Loader2 } from "lucide-react";
 
@@ -15,6 +17,7 @@ const Auth = () => {
   const [isLoading, setIsLoading] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { t } = useI18n();
 
   useEffect(() => {
     // Check if user is already logged in
@@ -39,8 +42,8 @@ const Auth = () => {
         if (error) throw error;
 
         toast({
-          title: "Welcome back!",
-          description: "You've successfully logged in.",
+          title: t("auth.welcomeTitle"),
+          description: t("auth.welcomeDescription"),
         });
         navigate("/");
       } else {
@@ -55,15 +58,15 @@ const Auth = () => {
         if (error) throw error;
 
         toast({
-          title: "Account created!",
-          description: "You can now log in and start creating recipes.",
+          title: t("auth.createdTitle"),
+          description: t("auth.createdDescription"),
         });
         setIsLogin(true);
       }
     } catch (error: any) {
       toast({
-        title: "Error",
-        description: error.message || "An error occurred during authentication.",
+        title: t("common.error"),
+        description: error.message || t("auth.failed"),
         variant: "destructive",
       });
     } finally {
@@ -72,7 +75,8 @@ const Auth = () => {
   };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-primary/10 via-background to-accent/10 flex items-center justify-center p-4">
+    <div className="min-h-screen bg-gradient-to-br from-primary/10 via-background to-accent/10 flex items-center justify-center p-4 relative">
+      <LanguageSwitcher className="absolute top-4 end-4" />
       <Card className="w-full max-w-md p-8 shadow-lg">
         <div className="flex items-center justify-center gap-3 mb-6">
           <ChefHat className="w-10 h-10 text-primary" />
@@ -87,7 +91,7 @@ const Auth = () => {
               className="flex-1"
               onClick={() => setIsLogin(true)}
             >
-              Login
+              {t("auth.login")}
             </Button>
             <Button
               type="button"
@@ -95,18 +99,18 @@ const Auth = () => {
               className="flex-1"
               onClick={() => setIsLogin(false)}
             >
-              Sign Up
+              {t("auth.signUp")}
             </Button>
           </div>
         </div>
 
         <form onSubmit={handleAuth} className="space-y-4">
           <div>
-            <Label htmlFor="email">Email</Label>
+            <Label htmlFor="email">{t("auth.email")}</Label>
             <Input
               id="email"
               type="email"
-              placeholder="your@email.com"
+              placeholder={t("auth.emailPlaceholder")}
               value={email}
               onChange={(e) => setEmail(e.target.value)}
               required
@@ -115,7 +119,7 @@ const Auth = () => {
           </div>
 
           <div>
-            <Label htmlFor="password">Password</Label>
+            <Label htmlFor="password">{t("auth.password")}</Label>
             <Input
               id="password"
               type="password"
@@ -136,11 +140,11 @@ const Auth = () => {
           >
             {isLoading ? (
               <>
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                {isLogin ? "Logging in..." : "Creating account..."}
+                <Loader2 className="w-4 h-4 me-2 animate-spin" />
+                {isLogin ? t("auth.loggingIn") : t("auth.creatingAccount")}
               </>
             ) : (
-              <>{isLogin ? "Login" : "Create Account"}</>
+              <>{isLogin ? t("auth.login") : t("auth.createAccount")}</>
             )}
           </Button>
         </form>
@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, ChefHat, Clock, Hourglass, Loader2, RefreshCw, TrendingUp, Users } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/useI18n";
+import { describeFunctionError, readFunctionError } from "@/lib/functions";
+import { DIFFICULTIES, normalizeRecipe, type Recipe } from "@shared/recipe";
+
+const CompareRecipes = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+  const { t, formatList, formatMinutes } = useI18n();
+
+  const request = location.state?.request;
+
+  useEffect(() => {
+    // Coming back from a recipe: show the candidates we already have.
+    if (location.state?.recipes) {
+      setRecipes(location.state.recipes.map(normalizeRecipe).filter(Boolean));
+      setIsLoading(false);
+      return;
+    }
+
+    if (!location.state?.request) {
+      navigate("/");
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsLoading(true);
+
+    supabase.functions
+      .invoke("generate-recipe", { body: location.state.request, signal: controller.signal })
+      .then(({ data, error }) => {
+        if (controller.signal.aborted) return;
+        if (error) throw error;
+        navigate("/compare", {
+          replace: true,
+          state: { request: location.state.request, recipes: data.recipes, cached: data.cached },
+        });
+      })
+      .catch(async (error) => {
+        if (controller.signal.aborted) return;
+        console.error("Error generating recipes:", error);
+        const details = await readFunctionError(error);
+        toast({
+          title: t("common.error"),
+          description: describeFunctionError(details, { t, formatList }) || t("compare.failed"),
+          variant: "destructive",
+        });
+        navigate("/", { replace: true, state: { request: location.state.request, rejected: details.rejected } });
+      });
+
+    return () => controller.abort();
+  }, [location, navigate, toast, t, formatList]);
+
+  // Highlight the quickest option, the most common tie-breaker.
+  const fastest = Math.min(...recipes.map((r) => r.totalTime));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted/30">
+      {/* Header */}
+      <div className="bg-background/95 backdrop-blur-sm border-b sticky top-0 z-10">
+        <div className="container max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/", { state: { request } })}
+            className="gap-2"
+          >
+            <ArrowLeft className="w-4 h-4 rtl:rotate-180" />
+            {t("nav.backToIngredients")}
+          </Button>
+          <div className="flex items-center gap-2">
+            <ChefHat className="w-6 h-6 text-primary" />
+            <span className="font-bold text-lg">{t("compare.title")}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="container max-w-6xl mx-auto px-4 py-12">
+        {isLoading ? (
+          <Card className="p-12 text-center">
+            <Loader2 className="w-12 h-12 mx-auto mb-4 text-primary animate-spin" />
+            <h2 className="text-2xl font-bold mb-2">
+              {request?.count ? t("compare.cooking", { count: request.count }) : t("compare.cookingSome")}
+            </h2>
+            <p className="text-muted-foreground mb-6">{t("compare.cookingDescription")}</p>
+            <Button variant="outline" onClick={() => navigate("/", { state: { request } })}>
+              {t("common.cancel")}
+            </Button>
+          </Card>
+        ) : (
+          <>
+            <h1 className="text-3xl font-bold mb-2 text-foreground">{t("compare.pick")}</h1>
+            <p className="text-muted-foreground mb-8">{t("compare.pickDescription", { count: recipes.length })}</p>
+            {location.state?.cached && (
+              <div className="flex flex-wrap items-center gap-3 mb-8 -mt-4">
+                <p className="text-sm text-muted-foreground">{t("compare.cached")}</p>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-2"
+                  onClick={() => navigate("/compare", { state: { request: { ...request, fresh: true } } })}
+                >
+                  <RefreshCw className="w-4 h-4" />
+                  {t("compare.fresh")}
+                </Button>
+              </div>
+            )}
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {recipes.map((recipe) => (
+                <Card key={recipe.name} className="p-6 flex flex-col hover:shadow-lg transition-shadow">
+                  <h3 className="text-xl font-bold mb-2">{recipe.name}</h3>
+                  {recipe.technique && (
+                    <p className="text-sm text-muted-foreground capitalize mb-3">{recipe.technique}</p>
+                  )}
+
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    <Badge
+                      variant={recipes.length > 1 && recipe.totalTime === fastest ? "default" : "outline"}
+                      className="text-xs flex items-center gap-1"
+                    >
+                      <Clock className="w-3 h-3" />
+                      {formatMinutes(recipe.totalTime)}
+                    </Badge>
+                    <Badge variant="outline" className="text-xs flex items-center gap-1">
+                      <TrendingUp className="w-3 h-3" />
+                      {DIFFICULTIES.includes(recipe.difficulty) ? t(`difficulty.${recipe.difficulty}`) : recipe.difficulty}
+                    </Badge>
+                    <Badge variant="outline" className="text-xs flex items-center gap-1">
+                      <Users className="w-3 h-3" />
+                      {recipe.servings}
+                    </Badge>
+                    {recipe.useFirst && (
+                      <Badge
+                        variant={recipe.useFirst.unused.length === 0 ? "secondary" : "outline"}
+                        className="text-xs flex items-center gap-1"
+                        title={
+                          recipe.useFirst.unused.length > 0
+                            ? t("recipe.leavesOut", { items: formatList(recipe.useFirst.unused) })
+                            : undefined
+                        }
+                      >
+                        <Hourglass className="w-3 h-3" />
+                        {t("compare.usesUrgent", {
+                          used: recipe.useFirst.used.length,
+                          total: recipe.useFirst.used.length + recipe.useFirst.unused.length,
+                        })}
+                      </Badge>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-4 gap-2 p-3 bg-muted/50 rounded-lg mb-4 text-center">
+                    <div>
+                      <p className="font-bold text-primary">{recipe.macros.calories}</p>
+                      <p className="text-[10px] text-muted-foreground uppercase">{t("macro.caloriesShort")}</p>
+                    </div>
+                    <div>
+                      <p className="font-bold text-secondary">{recipe.macros.protein}g</p>
+                      <p className="text-[10px] text-muted-foreground uppercase">{t("macro.protein")}</p>
+                    </div>
+                    <div>
+                      <p className="font-bold text-accent">{recipe.macros.carbs}g</p>
+                      <p className="text-[10px] text-muted-foreground uppercase">{t("macro.carbs")}</p>
+                    </div>
+                    <div>
+                      <p className="font-bold text-foreground">{recipe.macros.fats}g</p>
+                      <p className="text-[10px] text-muted-foreground uppercase">{t("macro.fats")}</p>
+                    </div>
+                  </div>
+
+                  <p className="text-sm text-muted-foreground mb-4 flex-1">
+                    {[
+                      t("saved.prep", { time: formatMinutes(recipe.prepTime) }),
+                      t("saved.cook", { time: formatMinutes(recipe.cookTime) }),
+                      recipe.restTime > 0 && t("saved.rest", { time: formatMinutes(recipe.restTime) }),
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                    <br />
+                    {t("compare.ingredients", { count: recipe.ingredients.length })} ·{" "}
+                    {t("compare.steps", { count: recipe.instructions.length })}
+                  </p>
+
+                  <Button onClick={() => navigate("/recipe", { state: { recipe } })} className="w-full">
+                    {t("common.openRecipe")}
+                  </Button>
+                </Card>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareRecipes;
@@ -0,0 +1,321 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ChefHat, ArrowLeft, Clock, RefreshCw, Save, Zap } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/useI18n";
+import { styleMessageKeys } from "@/i18n";
+import { normalizeRecipe, type Recipe } from "@shared/recipe";
+import { normalizeConstraints, type DietaryConstraints } from "@shared/constraints";
+import { normalizeStyle, type RecipeStyle } from "@shared/style";
+import type { UrgentIngredient } from "@shared/freshness";
+import { normalizeAmounts, type AmountMap } from "@shared/ingredient-list";
+import { LANGUAGE_LABELS, normalizeLanguage, type Language } from "@shared/language";
+
+interface Generation {
+  id: string;
+  createdAt: string;
+  ingredients: string[];
+  constraints: DietaryConstraints;
+  style: RecipeStyle;
+  strict: boolean;
+  staples?: string[];
+  maxTime?: number;
+  /** Near-expiry ingredients, most urgent first. */
+  useFirst: string[];
+  /** How much of each ingredient the user said they had. */
+  amounts: AmountMap;
+  language?: Language;
+  count: number;
+  model: string;
+  latencyMs: number;
+  cached: boolean;
+  recipes: Recipe[];
+}
+
+const History = () => {
+  const navigate = useNavigate();
+  const [generations, setGenerations] = useState<Generation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+  const { t, formatDate, formatList, formatMinutes, formatNumber } = useI18n();
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          navigate("/auth");
+          return;
+        }
+
+        const { data, error } = await supabase
+          .from("recipe_generations")
+          .select("*")
+          .eq("user_id", user.id)
+          .order("created_at", { ascending: false })
+          .limit(50);
+
+        if (error) throw error;
+        setGenerations(
+          (data || []).map((row) => {
+            const options = (row.options ?? {}) as {
+              constraints?: unknown;
+              style?: unknown;
+              strict?: boolean;
+              staples?: string[];
+              maxTime?: number;
+              useFirst?: UrgentIngredient[];
+              amounts?: unknown;
+              language?: string;
+              count?: number;
+            };
+            return {
+              id: row.id,
+              createdAt: row.created_at,
+              ingredients: row.ingredients,
+              constraints: normalizeConstraints(options.constraints),
+              style: normalizeStyle(options.style),
+              strict: options.strict === true,
+              staples: options.staples,
+              maxTime: options.maxTime,
+              useFirst: Array.isArray(options.useFirst) ? options.useFirst.map(({ name }) => name) : [],
+              amounts: normalizeAmounts(options.amounts, row.ingredients),
+              // Only recorded when it isn't English.
+              language: normalizeLanguage(options.language) ?? undefined,
+              count: Number(options.count) || 1,
+              model: row.model,
+              latencyMs: row.latency_ms,
+              cached: row.cached,
+              recipes: (Array.isArray(row.recipes) ? row.recipes : [])
+                .map(normalizeRecipe)
+                .filter((recipe): recipe is Recipe => recipe !== null),
+            };
+          })
+        );
+      } catch (error) {
+        toast({
+          title: t("common.error"),
+          description: error instanceof Error ? error.message : t("history.fetchFailed"),
+          variant: "destructive",
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [navigate, toast, t]);
+
+  const requestFor = (generation: Generation) => ({
+    ingredients: generation.ingredients,
+    constraints: generation.constraints,
+    style: generation.style,
+    strict: generation.strict,
+    staples: generation.staples,
+    maxTime: generation.maxTime,
+    // The dates have moved on since; keep the items flagged without them.
+    freshness: Object.fromEntries(generation.useFirst.map((name) => [name, { useSoon: true }])),
+    amounts: generation.amounts,
+    language: generation.language ?? "en",
+    count: generation.count,
+  });
+
+  const handleOpen = (generation: Generation) => {
+    if (generation.recipes.length === 1) {
+      navigate("/recipe", { state: { recipe: generation.recipes[0] } });
+    } else {
+      navigate("/compare", { state: { request: requestFor(generation), recipes: generation.recipes } });
+    }
+  };
+
+  // Skips the cache: the point of regenerating is a new take on the same request.
+  const handleRegenerate = (generation: Generation) => {
+    const request = { ...requestFor(generation), fresh: true };
+    navigate(generation.count > 1 ? "/compare" : "/recipe", { state: { request } });
+  };
+
+  const handleSave = async (generation: Generation) => {
+    setSavingId(generation.id);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase.from("saved_recipes").insert(
+        generation.recipes.map((recipe) => ({
+          user_id: user.id,
+          recipe_name: recipe.name,
+          recipe_data: recipe as unknown as Json,
+          is_favorite: false,
+        }))
+      );
+
+      if (error) throw error;
+
+      setSavedIds((previous) => new Set(previous).add(generation.id));
+      toast({
+        title: t("history.savedTitle", { count: generation.recipes.length }),
+        description: t("history.savedDescription"),
+      });
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: error instanceof Error ? error.message : t("recipe.saveFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted/30">
+      {/* Header */}
+      <div className="bg-background/95 backdrop-blur-sm border-b sticky top-0 z-10">
+        <div className="container max-w-5xl mx-auto px-4 py-4 flex items-center justify-between">
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/")}
+            className="gap-2"
+          >
+            <ArrowLeft className="w-4 h-4 rtl:rotate-180" />
+            {t("nav.backToHome")}
+          </Button>
+          <div className="flex items-center gap-2">
+            <ChefHat className="w-6 h-6 text-primary" />
+            <span className="font-bold text-lg">{t("nav.history")}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="container max-w-5xl mx-auto px-4 py-12">
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">{t("history.loading")}</p>
+          </div>
+        ) : generations.length === 0 ? (
+          <Card className="p-12 text-center">
+            <ChefHat className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+            <h2 className="text-2xl font-bold mb-2">{t("history.emptyTitle")}</h2>
+            <p className="text-muted-foreground mb-6">{t("history.emptyDescription")}</p>
+            <Button onClick={() => navigate("/")}>{t("saved.createFirst")}</Button>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {generations.map((generation) => (
+              <Card key={generation.id} className="p-6 hover:shadow-lg transition-shadow">
+                <div className="flex flex-wrap items-start justify-between gap-2 mb-3">
+                  <div className="flex-1">
+                    <h3 className="text-xl font-bold">
+                      {generation.recipes.map((recipe) => recipe.name).join(" · ")}
+                    </h3>
+                    <p className="text-sm text-muted-foreground">
+                      {formatDate(generation.createdAt, { dateStyle: "medium", timeStyle: "short" })}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="outline" className="text-xs flex items-center gap-1">
+                      {generation.cached ? <Zap className="w-3 h-3" /> : <Clock className="w-3 h-3" />}
+                      {generation.cached
+                        ? t("history.fromCache")
+                        : t("history.seconds", {
+                            seconds: formatNumber(generation.latencyMs / 1000, {
+                              minimumFractionDigits: 1,
+                              maximumFractionDigits: 1,
+                            }),
+                          })}
+                    </Badge>
+                    <Badge variant="outline" className="text-xs">{generation.model}</Badge>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {generation.ingredients.map((ingredient) => (
+                    <Badge key={ingredient} variant="secondary" className="text-xs">
+                      {ingredient}
+                    </Badge>
+                  ))}
+                  {generation.constraints.diets.map((diet) => (
+                    <Badge key={diet} variant="outline" className="text-xs">
+                      {t(`diet.${diet}`)}
+                    </Badge>
+                  ))}
+                  {generation.constraints.allergens.map((allergen) => (
+                    <Badge key={allergen} variant="outline" className="text-xs">
+                      {t(`allergen.${allergen}`)}
+                    </Badge>
+                  ))}
+                  {styleMessageKeys(generation.style).map((key) => (
+                    <Badge key={key} variant="outline" className="text-xs">
+                      {t(key)}
+                    </Badge>
+                  ))}
+                  {generation.maxTime && (
+                    <Badge variant="outline" className="text-xs">
+                      {t("index.underTime", { time: formatMinutes(generation.maxTime) })}
+                    </Badge>
+                  )}
+                  {generation.useFirst.length > 0 && (
+                    <Badge variant="outline" className="text-xs">
+                      {t("history.useFirst", { items: formatList(generation.useFirst) })}
+                    </Badge>
+                  )}
+                  {generation.language && (
+                    <Badge variant="outline" className="text-xs">{LANGUAGE_LABELS[generation.language]}</Badge>
+                  )}
+                  {generation.strict && (
+                    <Badge variant="outline" className="text-xs">{t("pantry.strict")}</Badge>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    onClick={() => handleOpen(generation)}
+                    size="sm"
+                    className="flex-1 md:flex-initial"
+                  >
+                    {generation.recipes.length === 1
+                      ? t("common.openRecipe")
+                      : t("history.compare", { count: generation.recipes.length })}
+                  </Button>
+                  <Button
+                    onClick={() => handleSave(generation)}
+                    disabled={savingId === generation.id || savedIds.has(generation.id)}
+                    size="sm"
+                    variant="outline"
+                    className="gap-2"
+                  >
+                    <Save className="w-4 h-4" />
+                    {savingId === generation.id
+                      ? t("common.saving")
+                      : savedIds.has(generation.id)
+                        ? t("common.saved")
+                        : t("common.save")}
+                  </Button>
+                  <Button
+                    onClick={() => handleRegenerate(generation)}
+                    size="sm"
+                    variant="outline"
+                    className="gap-2"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                    {t("history.regenerate")}
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -1,22 +1,68 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import DietaryConstraintsPicker from "@/components/DietaryConstraintsPicker";
+import RecipeStylePicker from "@/components/RecipeStylePicker";
+import PantrySettings from "@/components/PantrySettings";
+import FreshnessPicker from "@/components/FreshnessPicker";
+import IngredientInput from "@/components/IngredientInput";
+import BulkIngredientDialog, { type BulkIngredient } from "@/components/BulkIngredientDialog";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
 import { useToast } from "@/hooks/use-toast";
+import { useLanguagePreference } from "@/hooks/useLanguagePreference";
+import { useI18n } from "@/hooks/useI18n";
 import { supabase } from "@/integrations/supabase/client";
-import { UtensilsCrossed, Plus, X, Loader2, LogOut, BookMarked } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { UtensilsCrossed, X, ClipboardList, LogOut, BookMarked, History, CookingPot } from "lucide-react";
 import kitchenHero from "@/assets/kitchen-hero.jpg";
 import type { User } from "@supabase/supabase-js";
+import { EMPTY_CONSTRAINTS, type DietaryConstraints } from "@shared/constraints";
+import { EMPTY_STYLE, type RecipeStyle } from "@shared/style";
+import { DEFAULT_STAPLES } from "@shared/pantry";
+import { localDate, rankUrgentIngredients, type Freshness, type FreshnessMap } from "@shared/freshness";
+import { LANGUAGE_LABELS, LANGUAGES, normalizeLanguage } from "@shared/language";
+import { canonicalIngredient, ingredientKey } from "@shared/ingredient-dictionary";
+import { formatAmount, type AmountMap } from "@shared/ingredient-list";
+import {
+  MAX_INGREDIENT_LENGTH,
+  MAX_INGREDIENTS,
+  normalizeRejectedIngredients,
+  screenIngredients,
+  type RejectedIngredient,
+  type RejectionReason,
+} from "@shared/ingredient-guard";
+
+const TIME_BUDGETS = [15, 20, 30, 45, 60, 90];
 
 const Index = () => {
-  const [ingredients, setIngredients] = useState<string[]>([]);
+  const location = useLocation();
+  // Restored when coming back from a cancelled or failed generation.
+  const previousRequest = location.state?.request;
+  const [ingredients, setIngredients] = useState<string[]>(previousRequest?.ingredients ?? []);
+  const [constraints, setConstraints] = useState<DietaryConstraints>(
+    previousRequest?.constraints ?? EMPTY_CONSTRAINTS
+  );
+  const [style, setStyle] = useState<RecipeStyle>(previousRequest?.style ?? EMPTY_STYLE);
+  const [strict, setStrict] = useState<boolean>(previousRequest?.strict ?? false);
+  const [staples, setStaples] = useState<string[]>(previousRequest?.staples ?? DEFAULT_STAPLES);
+  const [maxTime, setMaxTime] = useState<number | null>(previousRequest?.maxTime ?? null);
+  const [count, setCount] = useState<number>(previousRequest?.count ?? 1);
+  const [freshness, setFreshness] = useState<FreshnessMap>(previousRequest?.freshness ?? {});
+  const [amounts, setAmounts] = useState<AmountMap>(previousRequest?.amounts ?? {});
+  const [isBulkOpen, setIsBulkOpen] = useState(false);
+  // Ingredients the last generation attempt refused, highlighted until they're removed.
+  const [rejected, setRejected] = useState<RejectedIngredient[]>(() =>
+    normalizeRejectedIngredients(location.state?.rejected)
+  );
   const [currentIngredient, setCurrentIngredient] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
   const [user, setUser] = useState<User | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { language, setLanguage } = useLanguagePreference();
+  const { t, formatList, formatMinutes } = useI18n();
 
   useEffect(() => {
     // Check authentication status
@@ -40,57 +86,86 @@ const Index = () => {
     return () => subscription.unsubscribe();
   }, [navigate]);
 
-  const addIngredient = () => {
-    if (currentIngredient.trim() && !ingredients.includes(currentIngredient.trim())) {
-      setIngredients([...ingredients, currentIngredient.trim()]);
-      setCurrentIngredient("");
+  // Known ingredients go in under their dictionary name, so "Tomatoes" and "tomato" are one chip.
+  const addIngredients = (entries: BulkIngredient[]) => {
+    const nextIngredients = [...ingredients];
+    const nextAmounts = { ...amounts };
+    for (const { name, amount } of entries) {
+      const ingredient = canonicalIngredient(name) ?? name;
+      const key = ingredientKey(ingredient);
+      const existing = nextIngredients.find((item) => ingredientKey(item) === key);
+      if (!existing) nextIngredients.push(ingredient);
+      if (amount) nextAmounts[existing ?? ingredient] = amount;
     }
+    setIngredients(nextIngredients);
+    setAmounts(nextAmounts);
+  };
+
+  const addIngredient = (name: string) => {
+    addIngredients([{ name, amount: null }]);
+    setCurrentIngredient("");
   };
 
   const removeIngredient = (ingredient: string) => {
     setIngredients(ingredients.filter((i) => i !== ingredient));
+    setRejected((current) => current.filter(({ item }) => item !== ingredient));
+    setAmounts(({ [ingredient]: _removed, ...rest }) => rest);
+    updateFreshness(ingredient, undefined);
   };
 
-  const generateRecipe = async () => {
+  const updateFreshness = (ingredient: string, value: Freshness | undefined) => {
+    setFreshness((current) => {
+      const { [ingredient]: _previous, ...rest } = current;
+      return value ? { ...rest, [ingredient]: value } : rest;
+    });
+  };
+
+  const today = localDate();
+  const urgent = new Set(rankUrgentIngredients(freshness, today).map(({ name }) => name));
+  const rejections = new Map(rejected.map(({ item, reason }) => [item, reason]));
+
+  const describeRejection = (reason: RejectionReason | undefined) =>
+    reason && t(`rejection.${reason}`, { max: MAX_INGREDIENTS, length: MAX_INGREDIENT_LENGTH });
+
+  const generateRecipe = () => {
     if (ingredients.length === 0) {
       toast({
-        title: "Add some ingredients",
-        description: "Please add at least one ingredient to generate a recipe.",
+        title: t("index.noIngredientsTitle"),
+        description: t("index.noIngredientsDescription"),
         variant: "destructive",
       });
       return;
     }
 
-    setIsLoading(true);
-
-    try {
-      const { data, error } = await supabase.functions.invoke("generate-recipe", {
-        body: { ingredients },
-      });
-
-      if (error) throw error;
-
-      if (data?.recipe) {
-        toast({
-          title: "Recipe generated!",
-          description: "Your delicious recipe is ready.",
-        });
-        navigate("/recipe", { state: { recipe: data.recipe } });
-      }
-    } catch (error: any) {
-      console.error("Error generating recipe:", error);
+    // The server screens them again; this just saves a round trip for the obvious cases.
+    const screening = screenIngredients(ingredients);
+    if (screening.rejected.length > 0) {
+      setRejected(screening.rejected);
       toast({
-        title: "Error",
-        description: error.message || "Failed to generate recipe. Please try again.",
+        title: t("index.rejectedTitle"),
+        description: t("index.rejectedDescription"),
         variant: "destructive",
       });
-    } finally {
-      setIsLoading(false);
+      return;
+    }
+    setRejected([]);
+
+    const request = { ingredients, constraints, style, strict, staples, maxTime, freshness, amounts, today, language };
+
+    if (count > 1) {
+      navigate("/compare", { state: { request: { ...request, count } } });
+      return;
     }
+
+    // The Recipe page streams the generation so it can render it as it arrives.
+    navigate("/recipe", { state: { request } });
   };
 
   const handleReset = () => {
     setIngredients([]);
+    setFreshness({});
+    setAmounts({});
+    setRejected([]);
     setCurrentIngredient("");
   };
 
@@ -105,18 +180,34 @@ const Index = () => {
       <div className="relative h-[400px] overflow-hidden">
         <img
           src={kitchenHero}
-          alt="Kitchen with fresh ingredients"
+          alt={t("index.heroAlt")}
           className="w-full h-full object-cover"
         />
         <div className="absolute inset-0 bg-gradient-to-b from-black/40 via-black/30 to-background" />
-        <div className="absolute top-4 right-4 z-10 flex gap-2">
+        <div className="absolute top-4 end-4 z-10 flex gap-2">
           <Button
             variant="secondary"
             onClick={() => navigate("/saved-recipes")}
             className="gap-2"
           >
             <BookMarked className="w-4 h-4" />
-            My Recipes
+            {t("nav.myRecipes")}
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => navigate("/history")}
+            className="gap-2"
+          >
+            <History className="w-4 h-4" />
+            {t("nav.history")}
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => navigate("/settings")}
+            className="gap-2"
+          >
+            <CookingPot className="w-4 h-4" />
+            {t("nav.myKitchen")}
           </Button>
           <Button
             variant="secondary"
@@ -124,8 +215,9 @@ const Index = () => {
             className="gap-2"
           >
             <LogOut className="w-4 h-4" />
-            Logout
+            {t("nav.logout")}
           </Button>
+          <LanguageSwitcher className="bg-secondary text-secondary-foreground border-0" />
         </div>
         <div className="absolute inset-0 flex flex-col items-center justify-center text-center px-4">
           <div className="flex items-center gap-3 mb-4">
@@ -135,7 +227,7 @@ const Index = () => {
             </h1>
           </div>
           <p className="text-xl md:text-2xl text-white/95 drop-shadow-md max-w-2xl">
-            Transform your ingredients into delicious recipes with AI magic
+            {t("index.tagline")}
           </p>
         </div>
       </div>
@@ -143,32 +235,47 @@ const Index = () => {
       {/* Main Content */}
       <div className="container max-w-5xl mx-auto px-4 py-12">
         <Card className="p-6 md:p-8 shadow-lg border-2">
-          <h2 className="text-2xl font-bold mb-4 text-foreground">What's in your kitchen?</h2>
-          
-          <div className="flex gap-2 mb-4">
-            <Input
-              placeholder="Enter an ingredient (e.g., chicken, tomatoes)"
-              value={currentIngredient}
-              onChange={(e) => setCurrentIngredient(e.target.value)}
-              onKeyPress={(e) => e.key === "Enter" && addIngredient()}
-              className="flex-1"
-            />
-            <Button onClick={addIngredient} size="icon" className="shrink-0">
-              <Plus className="w-4 h-4" />
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <h2 className="text-2xl font-bold text-foreground">{t("index.heading")}</h2>
+            <Button variant="outline" size="sm" onClick={() => setIsBulkOpen(true)} className="gap-2">
+              <ClipboardList className="w-4 h-4" />
+              {t("index.pasteList")}
             </Button>
           </div>
+          
+          <IngredientInput
+            value={currentIngredient}
+            onValueChange={setCurrentIngredient}
+            onAdd={addIngredient}
+            className="mb-4"
+          />
 
           {ingredients.length > 0 && (
-            <div className="flex flex-wrap gap-2 mb-6">
+            <div className="flex flex-wrap gap-2 mb-2">
               {ingredients.map((ingredient) => (
                 <Badge
                   key={ingredient}
                   variant="secondary"
-                  className="text-sm py-2 px-3 pr-2 flex items-center gap-2"
+                  className={cn(
+                    "text-sm py-2 px-3 pe-2 flex items-center gap-2",
+                    urgent.has(ingredient) && "border-destructive/60",
+                    rejections.has(ingredient) && "border-destructive bg-destructive/10 text-destructive"
+                  )}
+                  title={describeRejection(rejections.get(ingredient))}
                 >
+                  {amounts[ingredient] && (
+                    <span className="text-muted-foreground">{formatAmount(amounts[ingredient])}</span>
+                  )}
                   {ingredient}
+                  <FreshnessPicker
+                    ingredient={ingredient}
+                    value={freshness[ingredient]}
+                    today={today}
+                    onChange={(value) => updateFreshness(ingredient, value)}
+                  />
                   <button
                     onClick={() => removeIngredient(ingredient)}
+                    aria-label={t("index.removeIngredient", { name: ingredient })}
                     className="hover:bg-background/20 rounded-full p-0.5 transition-colors"
                   >
                     <X className="w-3 h-3" />
@@ -177,40 +284,107 @@ const Index = () => {
               ))}
             </div>
           )}
+          {rejected.length > 0 && (
+            <ul className="text-xs text-destructive mb-2 space-y-0.5">
+              {rejected.map(({ item, reason }) => (
+                <li key={item}>{t("index.rejectedItem", { item, reason: describeRejection(reason) })}</li>
+              ))}
+            </ul>
+          )}
+          {ingredients.length > 0 && (
+            <p className="text-xs text-muted-foreground mb-6">
+              {urgent.size > 0
+                ? t("index.useFirst", { items: formatList([...urgent]) })
+                : t("index.freshnessHint")}
+            </p>
+          )}
+
+          <div className="mb-6 space-y-4">
+            <DietaryConstraintsPicker value={constraints} onChange={setConstraints} />
+            <RecipeStylePicker value={style} onChange={setStyle} />
+            <PantrySettings
+              strict={strict}
+              staples={staples}
+              onStrictChange={setStrict}
+              onStaplesChange={setStaples}
+            />
+            <div>
+              <h3 className="text-sm font-semibold mb-2 text-foreground">{t("index.timeAvailable")}</h3>
+              <Select
+                value={maxTime ? String(maxTime) : "any"}
+                onValueChange={(value) => setMaxTime(value === "any" ? null : Number(value))}
+              >
+                <SelectTrigger className="w-full sm:w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">{t("index.noTimeLimit")}</SelectItem>
+                  {TIME_BUDGETS.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {t("index.underTime", { time: formatMinutes(minutes) })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <h3 className="text-sm font-semibold mb-2 text-foreground">{t("index.recipeLanguage")}</h3>
+              <Select value={language} onValueChange={(value) => setLanguage(normalizeLanguage(value) ?? language)}>
+                <SelectTrigger className="w-full sm:w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LANGUAGES.map((code) => (
+                    <SelectItem key={code} value={code} lang={code}>
+                      {LANGUAGE_LABELS[code]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <h3 className="text-sm font-semibold mb-2 text-foreground">{t("index.howManyIdeas")}</h3>
+              <Select value={String(count)} onValueChange={(value) => setCount(Number(value))}>
+                <SelectTrigger className="w-full sm:w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">{t("index.oneRecipe")}</SelectItem>
+                  {[2, 3, 4, 5].map((n) => (
+                    <SelectItem key={n} value={String(n)}>
+                      {t("index.recipesToCompare", { count: n })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
 
           <div className="flex gap-3">
             <Button
               onClick={generateRecipe}
-              disabled={isLoading || ingredients.length === 0}
+              disabled={ingredients.length === 0}
               className="flex-1 text-lg py-6 shadow-md hover:shadow-lg transition-all"
               size="lg"
             >
-              {isLoading ? (
-                <>
-                  <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                  Cooking up your recipe...
-                </>
-              ) : (
-                <>
-                  <UtensilsCrossed className="w-5 h-5 mr-2" />
-                  Generate Recipe
-                </>
-              )}
+              <UtensilsCrossed className="w-5 h-5 me-2" />
+              {t("index.generate")}
             </Button>
             {ingredients.length > 0 && (
               <Button
                 onClick={handleReset}
                 variant="outline"
-                disabled={isLoading}
                 className="text-lg py-6"
                 size="lg"
               >
-                Reset
+                {t("index.reset")}
               </Button>
             )}
           </div>
         </Card>
       </div>
+
+      <BulkIngredientDialog open={isBulkOpen} onOpenChange={setIsBulkOpen} onAdd={addIngredients} />
     </div>
   );
 };
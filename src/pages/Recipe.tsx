@@ -1,44 +1,208 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Clock, TrendingUp, ChefHat, ArrowLeft, Save, Heart } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Clock, TrendingUp, ChefHat, ArrowLeft, Save, Heart, Hourglass, Loader2, Minus, Plus, RefreshCw, X } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import NutritionPanel from "@/components/NutritionPanel";
+import RecipeRefinementPanel, { type RecipeVersion } from "@/components/RecipeRefinementPanel";
+import SubstitutionDialog from "@/components/SubstitutionDialog";
 import { useToast } from "@/hooks/use-toast";
+import { useUnitPreference } from "@/hooks/useUnitPreference";
+import { useI18n } from "@/hooks/useI18n";
+import { styleMessageKeys } from "@/i18n";
+import { describeFunctionError, readFunctionError } from "@/lib/functions";
+import { streamRecipe, type RecipeDraft } from "@/lib/recipe-stream";
+import { DIFFICULTIES, normalizeRecipe, type Recipe as RecipeData } from "@shared/recipe";
+import { formatQuantity, formatUnit, type IngredientLine } from "@shared/ingredients";
+import { scaleIngredient } from "@shared/scaling";
+import { applySubstitution, type Substitution } from "@shared/substitutions";
+import { convertIngredient, convertTemperatures, normalizeUnitSystem, UNIT_SYSTEMS } from "@shared/units";
+import { LANGUAGE_LABELS } from "@shared/language";
+import { classifyIngredient, type IngredientSource } from "@shared/pantry";
 
-interface Recipe {
-  name: string;
-  cookingTime: number;
-  difficulty: string;
-  servings: number;
-  macros: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fats: number;
-  };
-  ingredients: string[];
-  instructions: string[];
-}
+const SOURCE_BADGE_VARIANTS: Record<IngredientSource, "secondary" | "outline" | "destructive"> = {
+  have: "secondary",
+  staple: "outline",
+  missing: "destructive",
+};
+
+const MAX_SERVINGS = 50;
 
 const Recipe = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const [recipe, setRecipe] = useState<Recipe | null>(null);
+  // Kept together so a new version and the index that shows it change in one update.
+  const [{ versions, active: activeVersion }, setHistory] = useState<{ versions: RecipeVersion[]; active: number }>({
+    versions: [],
+    active: 0,
+  });
+  const [isRefining, setIsRefining] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isFavoriting, setIsFavoriting] = useState(false);
   const [isSaved, setIsSaved] = useState(false);
   const [isFavorited, setIsFavorited] = useState(false);
+  const [draft, setDraft] = useState<RecipeDraft | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [isRepairing, setIsRepairing] = useState(false);
+  // Chosen with the servings control; null shows the recipe as saved.
+  const [servings, setServings] = useState<number | null>(null);
+  // Ingredient line whose substitutes are being shown.
+  const [substituteIndex, setSubstituteIndex] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
+  const { units, setUnits } = useUnitPreference();
+  const { t, formatList, formatMinutes } = useI18n();
 
   useEffect(() => {
-    if (location.state?.recipe) {
-      setRecipe(location.state.recipe);
+    // Index hands us the generation request so the recipe can fill in as it streams.
+    const request = location.state?.request;
+    if (request) {
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setHistory({ versions: [], active: 0 });
+      setDraft(null);
+      setIsRepairing(false);
+      setIsStreaming(true);
+
+      streamRecipe(request, {
+        signal: controller.signal,
+        onDraft: setDraft,
+        onRepairing: () => setIsRepairing(true),
+      })
+        .then(({ recipe: generated, cached }) => {
+          toast({
+            title: t("recipe.generatedTitle"),
+            description: cached ? t("recipe.generatedCached") : t("recipe.generatedFresh"),
+          });
+          // Swap the request for the result so a refresh doesn't generate again.
+          navigate("/recipe", {
+            replace: true,
+            state: { recipe: generated, cachedRequest: cached ? request : undefined },
+          });
+        })
+        .catch(async (error) => {
+          if (controller.signal.aborted) return;
+          console.error("Error generating recipe:", error);
+          const details = await readFunctionError(error);
+          toast({
+            title: t("common.error"),
+            description: describeFunctionError(details, { t, formatList }) || t("recipe.generateFailed"),
+            variant: "destructive",
+          });
+          navigate("/", { replace: true, state: { request, rejected: details.rejected } });
+        });
+
+      return () => controller.abort();
+    }
+
+    const stored = location.state?.recipe ? normalizeRecipe(location.state.recipe) : null;
+    if (stored) {
+      setHistory({ versions: [{ recipe: stored }], active: 0 });
+      setServings(null);
+      setIsStreaming(false);
     } else {
       navigate("/");
     }
-  }, [location, navigate]);
+  }, [location, navigate, toast, t, formatList]);
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    toast({
+      title: t("recipe.cancelledTitle"),
+      description: t("recipe.cancelledDescription"),
+    });
+    navigate("/", { state: { request: location.state?.request } });
+  };
+
+  const recipe: RecipeData | null = versions[activeVersion]?.recipe ?? null;
+  // Set when the server answered from its cache; lets the user pay for a new take.
+  const cachedRequest = location.state?.cachedRequest;
+
+  const displayServings = servings ?? recipe?.scaledServings ?? recipe?.servings ?? 1;
+  const scale = recipe ? displayServings / recipe.servings : 1;
+
+  const selectVersion = (index: number) => {
+    setHistory((previous) => ({ ...previous, active: index }));
+    setServings(null);
+    setIsSaved(false);
+    setIsFavorited(false);
+  };
+
+  const handleRefine = async (instruction: string) => {
+    if (!recipe) return;
+
+    // Refinements can overlap, so pin the version this one starts from.
+    const basedOn = activeVersion;
+    // Requests that led to the version being refined, oldest first.
+    const history: string[] = [];
+    for (let index: number | undefined = basedOn; index !== undefined; index = versions[index].basedOn) {
+      if (versions[index].instruction) history.unshift(versions[index].instruction);
+    }
+
+    setIsRefining(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("refine-recipe", {
+        body: { recipe, instruction, history },
+      });
+      if (error) throw error;
+
+      const refined = normalizeRecipe(data?.recipe);
+      if (!refined) throw new Error(t("recipe.refineUnreadable"));
+
+      // Take the new index from the updated list, not the one captured before the request.
+      setHistory((previous) => ({
+        versions: [...previous.versions, { recipe: refined, instruction, summary: data.summary, basedOn }],
+        active: previous.versions.length,
+      }));
+      setServings(null);
+      setIsSaved(false);
+      setIsFavorited(false);
+    } catch (error) {
+      console.error("Error refining recipe:", error);
+      const details = await readFunctionError(error);
+      toast({
+        title: t("common.error"),
+        description: describeFunctionError(details, { t, formatList }) || t("recipe.refineFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const handleSubstitute = (index: number, substitution: Substitution) => {
+    if (!recipe) return;
+
+    // Swap into whichever version is showing once the update runs, not the one this render saw.
+    setHistory((previous) => {
+      const base = previous.versions[previous.active].recipe;
+      const item = base.ingredients[index].item;
+      return {
+        versions: [
+          ...previous.versions,
+          {
+            recipe: applySubstitution(base, index, substitution),
+            instruction: t("recipe.swapInstruction", { from: item, to: substitution.name }),
+            summary: t("recipe.swapSummary", { from: item, to: substitution.name }),
+            basedOn: previous.active,
+          },
+        ],
+        active: previous.versions.length,
+      };
+    });
+    // Unlike picking a version, a swap keeps the servings the user scaled to.
+    setIsSaved(false);
+    setIsFavorited(false);
+    setSubstituteIndex(null);
+    toast({
+      title: t("recipe.swappedTitle"),
+      description: t("recipe.swappedDescription"),
+    });
+  };
 
   const handleSaveRecipe = async () => {
     if (!recipe) return;
@@ -51,7 +215,7 @@ const Recipe = () => {
       const { error } = await supabase.from("saved_recipes").insert({
         user_id: user.id,
         recipe_name: recipe.name,
-        recipe_data: recipe as any,
+        recipe_data: { ...recipe, scaledServings: displayServings } as unknown as Json,
         is_favorite: false,
       });
 
@@ -59,13 +223,13 @@ const Recipe = () => {
 
       setIsSaved(true);
       toast({
-        title: "Recipe saved!",
-        description: "You can find it in your saved recipes.",
+        title: t("recipe.savedTitle"),
+        description: t("recipe.savedDescription"),
       });
     } catch (error: any) {
       toast({
-        title: "Error",
-        description: error.message || "Failed to save recipe.",
+        title: t("common.error"),
+        description: error.message || t("recipe.saveFailed"),
         variant: "destructive",
       });
     } finally {
@@ -84,7 +248,7 @@ const Recipe = () => {
       const { error } = await supabase.from("saved_recipes").insert({
         user_id: user.id,
         recipe_name: recipe.name,
-        recipe_data: recipe as any,
+        recipe_data: { ...recipe, scaledServings: displayServings } as unknown as Json,
         is_favorite: true,
       });
 
@@ -92,13 +256,13 @@ const Recipe = () => {
 
       setIsFavorited(true);
       toast({
-        title: "Added to favorites!",
-        description: "Recipe saved to your favorites.",
+        title: t("recipe.favoritedTitle"),
+        description: t("recipe.favoritedDescription"),
       });
     } catch (error: any) {
       toast({
-        title: "Error",
-        description: error.message || "Failed to add to favorites.",
+        title: t("common.error"),
+        description: error.message || t("recipe.favoriteFailed"),
         variant: "destructive",
       });
     } finally {
@@ -106,10 +270,22 @@ const Recipe = () => {
     }
   };
 
-  if (!recipe) {
+  if (!recipe && !isStreaming) {
     return null;
   }
 
+  const view: RecipeDraft = recipe ?? draft ?? {};
+  const ingredients: Partial<IngredientLine>[] = recipe
+    ? recipe.ingredients.map((line) => convertIngredient(scaleIngredient(line, scale), units))
+    : (draft?.ingredients ?? []).filter((ingredient) => ingredient?.item);
+  const instructions = recipe
+    ? recipe.instructions.map((instruction) => convertTemperatures(instruction, units))
+    : view.instructions ?? [];
+  // Only recipes generated from a pantry can say what the user still needs.
+  const sources: (IngredientSource | null)[] = ingredients.map((ingredient) =>
+    view.pantry && ingredient.item ? classifyIngredient({ item: ingredient.item, english: ingredient.english }, view.pantry) : null
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-background to-muted/30">
       {/* Header */}
@@ -117,11 +293,11 @@ const Recipe = () => {
         <div className="container max-w-5xl mx-auto px-4 py-4 flex items-center justify-between">
           <Button
             variant="ghost"
-            onClick={() => navigate("/")}
+            onClick={isStreaming ? handleCancel : () => navigate("/")}
             className="gap-2"
           >
-            <ArrowLeft className="w-4 h-4" />
-            Back to Ingredients
+            <ArrowLeft className="w-4 h-4 rtl:rotate-180" />
+            {t("nav.backToIngredients")}
           </Button>
           <div className="flex items-center gap-2">
             <ChefHat className="w-6 h-6 text-primary" />
@@ -132,62 +308,188 @@ const Recipe = () => {
 
       {/* Recipe Content */}
       <div className="container max-w-5xl mx-auto px-4 py-12">
-        <Card className="p-6 md:p-8 shadow-lg border-2 animate-in fade-in-50 duration-500">
+        <Card lang={recipe?.language} className="p-6 md:p-8 shadow-lg border-2 animate-in fade-in-50 duration-500">
           <div className="mb-6">
             <h1 className="text-3xl md:text-4xl font-bold mb-3 text-foreground">
-              {recipe.name}
+              {view.name || (
+                <span className="flex items-center gap-3 text-muted-foreground">
+                  <Loader2 className="w-8 h-8 animate-spin" />
+                  {t("recipe.cooking")}
+                </span>
+              )}
             </h1>
             <div className="flex flex-wrap gap-3 mb-4">
-              <Badge variant="outline" className="text-sm py-1 px-3 flex items-center gap-1.5">
-                <Clock className="w-4 h-4" />
-                {recipe.cookingTime} mins
-              </Badge>
-              <Badge variant="outline" className="text-sm py-1 px-3 flex items-center gap-1.5">
-                <TrendingUp className="w-4 h-4" />
-                {recipe.difficulty}
-              </Badge>
-              <Badge variant="outline" className="text-sm py-1 px-3">
-                {recipe.servings} servings
-              </Badge>
+              {view.totalTime != null && (
+                <Badge variant="outline" className="text-sm py-1 px-3 flex items-center gap-1.5">
+                  <Clock className="w-4 h-4" />
+                  {t("recipe.totalTime", { time: formatMinutes(view.totalTime) })}
+                </Badge>
+              )}
+              {view.prepTime != null && (
+                <Badge variant="outline" className="text-sm py-1 px-3">
+                  {t("recipe.prepTime", { time: formatMinutes(view.prepTime) })}
+                </Badge>
+              )}
+              {view.cookTime != null && (
+                <Badge variant="outline" className="text-sm py-1 px-3">
+                  {t("recipe.cookTime", { time: formatMinutes(view.cookTime) })}
+                </Badge>
+              )}
+              {view.restTime != null && view.restTime > 0 && (
+                <Badge variant="outline" className="text-sm py-1 px-3">
+                  {t("recipe.restTime", { time: formatMinutes(view.restTime) })}
+                </Badge>
+              )}
+              {view.difficulty && (
+                <Badge variant="outline" className="text-sm py-1 px-3 flex items-center gap-1.5">
+                  <TrendingUp className="w-4 h-4" />
+                  {DIFFICULTIES.includes(view.difficulty) ? t(`difficulty.${view.difficulty}`) : view.difficulty}
+                </Badge>
+              )}
+              {recipe ? (
+                <div className="flex items-center rounded-full border text-sm">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 rounded-full"
+                    onClick={() => setServings(Math.max(1, displayServings - 1))}
+                    disabled={displayServings <= 1}
+                    aria-label={t("recipe.fewerServings")}
+                  >
+                    <Minus className="w-3 h-3" />
+                  </Button>
+                  <span className="px-1 font-semibold">{t("recipe.servings", { count: displayServings })}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 rounded-full"
+                    onClick={() => setServings(Math.min(MAX_SERVINGS, displayServings + 1))}
+                    disabled={displayServings >= MAX_SERVINGS}
+                    aria-label={t("recipe.moreServings")}
+                  >
+                    <Plus className="w-3 h-3" />
+                  </Button>
+                </div>
+              ) : view.servings != null && (
+                <Badge variant="outline" className="text-sm py-1 px-3">
+                  {t("recipe.servings", { count: view.servings })}
+                </Badge>
+              )}
+              {view.constraints?.diets.map((diet) => (
+                <Badge key={diet} variant="secondary" className="text-sm py-1 px-3">
+                  {t(`diet.${diet}`)}
+                </Badge>
+              ))}
+              {view.constraints?.allergens.map((allergen) => (
+                <Badge key={allergen} variant="secondary" className="text-sm py-1 px-3">
+                  {t(`allergen.${allergen}`)}
+                </Badge>
+              ))}
+              {view.style && styleMessageKeys(view.style).map((key) => (
+                <Badge key={key} variant="secondary" className="text-sm py-1 px-3">
+                  {t(key)}
+                </Badge>
+              ))}
+              {recipe?.language && recipe.language !== "en" && (
+                <Badge variant="secondary" className="text-sm py-1 px-3">
+                  {LANGUAGE_LABELS[recipe.language]}
+                </Badge>
+              )}
             </div>
 
-            {/* Macros Grid */}
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-4 bg-muted/50 rounded-lg">
-              <div className="text-center">
-                <p className="text-2xl font-bold text-primary">{recipe.macros.calories}</p>
-                <p className="text-xs text-muted-foreground uppercase tracking-wide">Calories</p>
-              </div>
-              <div className="text-center">
-                <p className="text-2xl font-bold text-secondary">{recipe.macros.protein}g</p>
-                <p className="text-xs text-muted-foreground uppercase tracking-wide">Protein</p>
-              </div>
-              <div className="text-center">
-                <p className="text-2xl font-bold text-accent">{recipe.macros.carbs}g</p>
-                <p className="text-xs text-muted-foreground uppercase tracking-wide">Carbs</p>
-              </div>
-              <div className="text-center">
-                <p className="text-2xl font-bold text-foreground">{recipe.macros.fats}g</p>
-                <p className="text-xs text-muted-foreground uppercase tracking-wide">Fats</p>
-              </div>
-            </div>
+            <NutritionPanel stated={view.macros} recipe={recipe} servings={displayServings} />
           </div>
 
           <div className="mb-6">
-            <h2 className="text-xl font-semibold mb-3 text-foreground">Ingredients</h2>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <h2 className="text-xl font-semibold text-foreground">{t("recipe.ingredients")}</h2>
+              {recipe && (
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  size="sm"
+                  value={units}
+                  onValueChange={(value) => value && setUnits(normalizeUnitSystem(value))}
+                  aria-label={t("recipe.units")}
+                >
+                  {UNIT_SYSTEMS.map((system) => (
+                    <ToggleGroupItem key={system} value={system} className="text-xs">
+                      {t(`units.${system}`)}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              )}
+            </div>
             <ul className="space-y-2">
-              {recipe.ingredients.map((ingredient, index) => (
+              {ingredients.map((ingredient, index) => (
                 <li key={index} className="flex items-start gap-2">
                   <span className="text-primary font-bold mt-0.5">•</span>
-                  <span className="text-foreground">{ingredient}</span>
+                  <span className="text-foreground">
+                    {ingredient.quantity != null && (
+                      <span className="font-semibold">
+                        {formatQuantity(ingredient.quantity)}
+                        {ingredient.unit && ` ${formatUnit(ingredient.unit, ingredient.quantity)}`}{" "}
+                      </span>
+                    )}
+                    {recipe && !isRefining ? (
+                      <button
+                        onClick={() => setSubstituteIndex(index)}
+                        className="underline decoration-dotted underline-offset-4 hover:text-primary transition-colors"
+                        title={t("recipe.findSubstitute")}
+                      >
+                        {ingredient.item}
+                      </button>
+                    ) : (
+                      ingredient.item
+                    )}
+                    {ingredient.preparation && (
+                      <span className="text-muted-foreground">, {ingredient.preparation}</span>
+                    )}
+                    {ingredient.optional && (
+                      <Badge variant="outline" className="ms-2 text-xs">{t("recipe.optional")}</Badge>
+                    )}
+                    {sources[index] && (
+                      <Badge variant={SOURCE_BADGE_VARIANTS[sources[index]]} className="ms-2 text-xs">
+                        {t(`source.${sources[index]}`)}
+                      </Badge>
+                    )}
+                  </span>
                 </li>
               ))}
             </ul>
+            {recipe?.useFirst && (
+              <div className="mt-4 rounded-lg border p-3 text-sm space-y-1">
+                <p className="font-semibold flex items-center gap-2 text-foreground">
+                  <Hourglass className="w-4 h-4" />
+                  {t("recipe.useItUp")}
+                </p>
+                {recipe.useFirst.used.length > 0 && (
+                  <p className="text-foreground">{t("recipe.usesUrgent", { items: formatList(recipe.useFirst.used) })}</p>
+                )}
+                {recipe.useFirst.unused.length > 0 && (
+                  <p className="text-destructive">{t("recipe.leavesOut", { items: formatList(recipe.useFirst.unused) })}</p>
+                )}
+              </div>
+            )}
           </div>
 
+          {view.equipment && view.equipment.length > 0 && (
+            <div className="mb-6">
+              <h2 className="text-xl font-semibold mb-3 text-foreground">{t("recipe.equipment")}</h2>
+              <div className="flex flex-wrap gap-2">
+                {view.equipment.map((item) => (
+                  <Badge key={item} variant="outline" className="text-sm py-1 px-3 capitalize">
+                    {item}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div>
-            <h2 className="text-xl font-semibold mb-3 text-foreground">Instructions</h2>
+            <h2 className="text-xl font-semibold mb-3 text-foreground">{t("recipe.instructions")}</h2>
             <ol className="space-y-3">
-              {recipe.instructions.map((instruction, index) => (
+              {instructions.map((instruction, index) => (
                 <li key={index} className="flex gap-3">
                   <span className="text-primary font-bold shrink-0 w-6">{index + 1}.</span>
                   <span className="text-foreground">{instruction}</span>
@@ -196,37 +498,87 @@ const Recipe = () => {
             </ol>
           </div>
 
-          <div className="mt-8 pt-6 border-t flex flex-wrap gap-3">
-            <Button
-              onClick={handleSaveRecipe}
-              disabled={isSaving || isSaved}
-              size="lg"
-              variant="outline"
-              className="flex-1 md:flex-initial"
-            >
-              <Save className={`w-5 h-5 mr-2 ${isSaved ? 'fill-black text-black' : ''}`} />
-              {isSaving ? "Saving..." : isSaved ? "Saved" : "Save Recipe"}
-            </Button>
-            <Button
-              onClick={handleFavoriteRecipe}
-              disabled={isFavoriting || isFavorited}
-              size="lg"
-              variant="outline"
-              className="flex-1 md:flex-initial"
-            >
-              <Heart className={`w-5 h-5 mr-2 ${isFavorited ? 'fill-red-500 text-red-500' : ''}`} />
-              {isFavoriting ? "Adding..." : isFavorited ? "Favorited" : "Add to Favorites"}
-            </Button>
-            <Button
-              onClick={() => navigate("/")}
-              size="lg"
-              className="flex-1 md:flex-initial"
-            >
-              <ChefHat className="w-5 h-5 mr-2" />
-              Create Another Recipe
-            </Button>
-          </div>
+          {isStreaming ? (
+            <div className="mt-8 pt-6 border-t flex flex-wrap items-center gap-3">
+              <p className="flex-1 text-muted-foreground flex items-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                {isRepairing ? t("recipe.tidying") : t("recipe.writing")}
+              </p>
+              <Button
+                onClick={handleCancel}
+                size="lg"
+                variant="outline"
+                className="flex-1 md:flex-initial"
+              >
+                <X className="w-5 h-5 me-2" />
+                {t("common.cancel")}
+              </Button>
+            </div>
+          ) : (
+            <div className="mt-8 pt-6 border-t flex flex-wrap gap-3">
+              <Button
+                onClick={handleSaveRecipe}
+                disabled={isSaving || isSaved}
+                size="lg"
+                variant="outline"
+                className="flex-1 md:flex-initial"
+              >
+                <Save className={`w-5 h-5 me-2 ${isSaved ? 'fill-black text-black' : ''}`} />
+                {isSaving ? t("recipe.saving") : isSaved ? t("recipe.saved") : t("recipe.save")}
+              </Button>
+              <Button
+                onClick={handleFavoriteRecipe}
+                disabled={isFavoriting || isFavorited}
+                size="lg"
+                variant="outline"
+                className="flex-1 md:flex-initial"
+              >
+                <Heart className={`w-5 h-5 me-2 ${isFavorited ? 'fill-red-500 text-red-500' : ''}`} />
+                {isFavoriting ? t("recipe.adding") : isFavorited ? t("recipe.favorited") : t("recipe.addFavorite")}
+              </Button>
+              {cachedRequest && (
+                <Button
+                  onClick={() => navigate("/recipe", { state: { request: { ...cachedRequest, fresh: true } } })}
+                  size="lg"
+                  variant="outline"
+                  className="flex-1 md:flex-initial"
+                >
+                  <RefreshCw className="w-5 h-5 me-2" />
+                  {t("recipe.freshOne")}
+                </Button>
+              )}
+              <Button
+                onClick={() => navigate("/")}
+                size="lg"
+                className="flex-1 md:flex-initial"
+              >
+                <ChefHat className="w-5 h-5 me-2" />
+                {t("recipe.createAnother")}
+              </Button>
+            </div>
+          )}
         </Card>
+
+        {recipe && (
+          <RecipeRefinementPanel
+            versions={versions}
+            activeIndex={activeVersion}
+            isRefining={isRefining}
+            onRefine={handleRefine}
+            onSelect={selectVersion}
+          />
+        )}
+
+        {recipe && (
+          <SubstitutionDialog
+            recipe={recipe}
+            index={substituteIndex}
+            scale={scale}
+            units={units}
+            onApply={handleSubstitute}
+            onClose={() => setSubstituteIndex(null)}
+          />
+        )}
       </div>
     </div>
   );
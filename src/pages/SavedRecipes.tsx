@@ -3,10 +3,24 @@ import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ChefHat, ArrowLeft, Heart, Trash2, Clock } from "lucide-react";
+import { ChefHat, ArrowLeft, Heart, Trash2, Clock, Languages, Loader2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/useI18n";
+import { styleMessageKeys } from "@/i18n";
+import { describeFunctionError, readFunctionError } from "@/lib/functions";
+import { DIFFICULTIES, normalizeRecipe, type Difficulty } from "@shared/recipe";
+import { LANGUAGE_LABELS, LANGUAGES, normalizeLanguage, type Language } from "@shared/language";
+import { normalizeStyle } from "@shared/style";
 
 interface SavedRecipe {
   id: string;
@@ -21,7 +35,9 @@ const SavedRecipes = () => {
   const [recipes, setRecipes] = useState<SavedRecipe[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState("all");
+  const [translatingId, setTranslatingId] = useState<string | null>(null);
   const { toast } = useToast();
+  const { t, formatList, formatDate, formatMinutes } = useI18n();
 
   const savedRecipes = recipes.filter(r => !r.is_favorite);
   const favoriteRecipes = recipes.filter(r => r.is_favorite);
@@ -48,8 +64,8 @@ const SavedRecipes = () => {
       setRecipes(data || []);
     } catch (error: any) {
       toast({
-        title: "Error",
-        description: error.message || "Failed to fetch saved recipes.",
+        title: t("common.error"),
+        description: error.message || t("saved.fetchFailed"),
         variant: "destructive",
       });
     } finally {
@@ -68,63 +84,141 @@ const SavedRecipes = () => {
 
       setRecipes(recipes.filter((r) => r.id !== id));
       toast({
-        title: "Recipe deleted",
-        description: "Recipe removed from your collection.",
+        title: t("saved.deletedTitle"),
+        description: t("saved.deletedDescription"),
       });
     } catch (error: any) {
       toast({
-        title: "Error",
-        description: error.message || "Failed to delete recipe.",
+        title: t("common.error"),
+        description: error.message || t("saved.deleteFailed"),
         variant: "destructive",
       });
     }
   };
 
+  // Saves the translation as a copy so the original stays as it was.
+  const handleTranslate = async (saved: SavedRecipe, language: Language) => {
+    const recipe = normalizeRecipe(saved.recipe_data);
+    if (!recipe) return;
+
+    setTranslatingId(saved.id);
+    try {
+      const { data, error } = await supabase.functions.invoke("translate-recipe", {
+        body: { recipe, language },
+      });
+      if (error) throw error;
+
+      const translated = normalizeRecipe(data?.recipe);
+      if (!translated) throw new Error(t("saved.translateUnreadable"));
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { data: row, error: insertError } = await supabase
+        .from("saved_recipes")
+        .insert({
+          user_id: user.id,
+          recipe_name: translated.name,
+          recipe_data: translated as unknown as Json,
+          is_favorite: saved.is_favorite,
+        })
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+
+      setRecipes((previous) => [row, ...previous]);
+      toast({
+        title: t("saved.translatedTitle"),
+        description: t("saved.translatedDescription", { language: LANGUAGE_LABELS[language], name: saved.recipe_name }),
+      });
+    } catch (error) {
+      console.error("Error translating recipe:", error);
+      const details = await readFunctionError(error);
+      toast({
+        title: t("common.error"),
+        description: describeFunctionError(details, { t, formatList }) || t("saved.translateFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setTranslatingId(null);
+    }
+  };
+
   const handleViewRecipe = (recipe: SavedRecipe) => {
     navigate("/recipe", { state: { recipe: recipe.recipe_data } });
   };
 
+  // "35 min (10 prep · 25 cook)"; older saves get their single time upgraded to a cook time.
+  const describeTime = (recipeData: unknown) => {
+    const recipe = normalizeRecipe(recipeData);
+    if (!recipe) return null;
+    const parts = [
+      t("saved.prep", { time: formatMinutes(recipe.prepTime) }),
+      t("saved.cook", { time: formatMinutes(recipe.cookTime) }),
+    ];
+    if (recipe.restTime > 0) parts.push(t("saved.rest", { time: formatMinutes(recipe.restTime) }));
+    return t("saved.time", { total: formatMinutes(recipe.totalTime), parts: parts.join(" · ") });
+  };
+
+  // Saved data isn't validated, so anything unexpected is shown as it was stored.
+  const describeDifficulty = (difficulty: string) =>
+    DIFFICULTIES.includes(difficulty as Difficulty) ? t(`difficulty.${difficulty as Difficulty}`) : difficulty;
+
   const renderRecipeGrid = (recipesToShow: SavedRecipe[]) => {
     if (recipesToShow.length === 0) {
       return (
         <Card className="p-12 text-center">
           <ChefHat className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
-          <h2 className="text-2xl font-bold mb-2">No recipes found</h2>
+          <h2 className="text-2xl font-bold mb-2">{t("saved.noneFound")}</h2>
           <p className="text-muted-foreground mb-6">
-            {activeTab === "favorites" 
-              ? "You haven't added any favorites yet!" 
-              : "Start creating and saving recipes!"}
+            {activeTab === "favorites" ? t("saved.noFavorites") : t("saved.startCreating")}
           </p>
           <Button onClick={() => navigate("/")}>
-            Create Your First Recipe
+            {t("saved.createFirst")}
           </Button>
         </Card>
       );
     }
 
+    const times = new Map(recipesToShow.map((recipe) => [recipe.id, describeTime(recipe.recipe_data)]));
+
     return (
       <div className="grid gap-4 md:grid-cols-2">
         {recipesToShow.map((recipe) => (
           <Card key={recipe.id} className="p-6 hover:shadow-lg transition-shadow">
-            <div className="flex items-start justify-between mb-3">
+            <div className="flex items-start justify-between mb-1">
               <h3 className="text-xl font-bold flex-1">{recipe.recipe_name}</h3>
               {recipe.is_favorite && (
                 <Heart className="w-5 h-5 text-destructive fill-destructive shrink-0" />
               )}
             </div>
+            <p className="text-xs text-muted-foreground mb-3">
+              {t("saved.savedOn", { date: formatDate(recipe.created_at) })}
+            </p>
             
             <div className="flex flex-wrap gap-2 mb-4">
-              {recipe.recipe_data?.cookingTime && (
+              {times.get(recipe.id) && (
                 <Badge variant="outline" className="text-xs flex items-center gap-1">
                   <Clock className="w-3 h-3" />
-                  {recipe.recipe_data.cookingTime} mins
+                  {times.get(recipe.id)}
                 </Badge>
               )}
               {recipe.recipe_data?.difficulty && (
                 <Badge variant="outline" className="text-xs">
-                  {recipe.recipe_data.difficulty}
+                  {describeDifficulty(recipe.recipe_data.difficulty)}
                 </Badge>
               )}
+              {normalizeLanguage(recipe.recipe_data?.language) && recipe.recipe_data.language !== "en" && (
+                <Badge variant="secondary" className="text-xs">
+                  {LANGUAGE_LABELS[recipe.recipe_data.language as Language]}
+                </Badge>
+              )}
+              {styleMessageKeys(normalizeStyle(recipe.recipe_data?.style)).map((key) => (
+                <Badge key={key} variant="secondary" className="text-xs">
+                  {t(key)}
+                </Badge>
+              ))}
             </div>
 
             <div className="flex gap-2">
@@ -133,12 +227,34 @@ const SavedRecipes = () => {
                 size="sm"
                 className="flex-1"
               >
-                View Recipe
+                {t("saved.viewRecipe")}
               </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button size="sm" variant="outline" disabled={translatingId === recipe.id} aria-label={t("saved.translate")}>
+                    {translatingId === recipe.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Languages className="w-4 h-4" />
+                    )}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>{t("saved.translateTo")}</DropdownMenuLabel>
+                  {LANGUAGES.filter(
+                    (language) => language !== (normalizeLanguage(recipe.recipe_data?.language) ?? "en")
+                  ).map((language) => (
+                    <DropdownMenuItem key={language} lang={language} onSelect={() => handleTranslate(recipe, language)}>
+                      {LANGUAGE_LABELS[language]}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
               <Button
                 onClick={() => handleDelete(recipe.id)}
                 size="sm"
                 variant="destructive"
+                aria-label={t("saved.delete")}
               >
                 <Trash2 className="w-4 h-4" />
               </Button>
@@ -159,12 +275,12 @@ const SavedRecipes = () => {
             onClick={() => navigate("/")}
             className="gap-2"
           >
-            <ArrowLeft className="w-4 h-4" />
-            Back to Home
+            <ArrowLeft className="w-4 h-4 rtl:rotate-180" />
+            {t("nav.backToHome")}
           </Button>
           <div className="flex items-center gap-2">
             <ChefHat className="w-6 h-6 text-primary" />
-            <span className="font-bold text-lg">My Recipes</span>
+            <span className="font-bold text-lg">{t("nav.myRecipes")}</span>
           </div>
         </div>
       </div>
@@ -173,24 +289,24 @@ const SavedRecipes = () => {
       <div className="container max-w-5xl mx-auto px-4 py-12">
         {isLoading ? (
           <div className="text-center py-12">
-            <p className="text-muted-foreground">Loading your recipes...</p>
+            <p className="text-muted-foreground">{t("saved.loading")}</p>
           </div>
         ) : recipes.length === 0 ? (
           <Card className="p-12 text-center">
             <ChefHat className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
-            <h2 className="text-2xl font-bold mb-2">No saved recipes yet</h2>
+            <h2 className="text-2xl font-bold mb-2">{t("saved.emptyTitle")}</h2>
             <p className="text-muted-foreground mb-6">
-              Start creating recipes and save your favorites!
+              {t("saved.emptyDescription")}
             </p>
             <Button onClick={() => navigate("/")}>
-              Create Your First Recipe
+              {t("saved.createFirst")}
             </Button>
           </Card>
         ) : (
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
             <TabsList className="grid w-full grid-cols-2 mb-8">
-              <TabsTrigger value="all">Saved Recipes ({savedRecipes.length})</TabsTrigger>
-              <TabsTrigger value="favorites">Favorites ({favoriteRecipes.length})</TabsTrigger>
+              <TabsTrigger value="all">{t("saved.savedTab", { count: savedRecipes.length })}</TabsTrigger>
+              <TabsTrigger value="favorites">{t("saved.favoritesTab", { count: favoriteRecipes.length })}</TabsTrigger>
             </TabsList>
             <TabsContent value="all">
               {renderRecipeGrid(savedRecipes)}
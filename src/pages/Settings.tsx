@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ArrowLeft, ChefHat, Save } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/useI18n";
+import { EQUIPMENT, normalizeEquipment, type Equipment } from "@shared/equipment";
+import { normalizeUnitSystem, UNIT_SYSTEMS, type UnitSystem } from "@shared/units";
+import { LANGUAGE_LABELS, LANGUAGES, normalizeLanguage, type Language } from "@shared/language";
+
+const Settings = () => {
+  const navigate = useNavigate();
+  // null means "full kitchen": recipes may use any appliance.
+  const [equipment, setEquipment] = useState<Equipment[] | null>(null);
+  const [units, setUnits] = useState<UnitSystem>("original");
+  // null follows the browser's language.
+  const [language, setLanguage] = useState<Language | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          navigate("/auth");
+          return;
+        }
+
+        const { data, error } = await supabase
+          .from("profiles")
+          .select("equipment, units, language")
+          .eq("user_id", user.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        setEquipment(normalizeEquipment(data?.equipment));
+        setUnits(normalizeUnitSystem(data?.units));
+        setLanguage(normalizeLanguage(data?.language));
+      } catch (error) {
+        toast({
+          title: t("common.error"),
+          description: error instanceof Error ? error.message : t("settings.loadFailed"),
+          variant: "destructive",
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchProfile();
+  }, [navigate, toast, t]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase
+        .from("profiles")
+        .update({ equipment, units, language })
+        .eq("user_id", user.id);
+
+      if (error) throw error;
+
+      toast({
+        title: t("settings.savedTitle"),
+        description: t("settings.savedDescription"),
+      });
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: error instanceof Error ? error.message : t("settings.saveFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted/30">
+      {/* Header */}
+      <div className="bg-background/95 backdrop-blur-sm border-b sticky top-0 z-10">
+        <div className="container max-w-5xl mx-auto px-4 py-4 flex items-center justify-between">
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/")}
+            className="gap-2"
+          >
+            <ArrowLeft className="w-4 h-4 rtl:rotate-180" />
+            {t("nav.backToHome")}
+          </Button>
+          <div className="flex items-center gap-2">
+            <ChefHat className="w-6 h-6 text-primary" />
+            <span className="font-bold text-lg">{t("nav.myKitchen")}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="container max-w-5xl mx-auto px-4 py-12">
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">{t("settings.loading")}</p>
+          </div>
+        ) : (
+          <Card className="p-6 md:p-8 shadow-lg border-2">
+            <h2 className="text-xl font-semibold mb-1 text-foreground">{t("settings.equipment")}</h2>
+            <p className="text-sm text-muted-foreground mb-4">{t("settings.equipmentDescription")}</p>
+
+            <div className="flex items-center gap-3 mb-4">
+              <Switch
+                id="full-kitchen"
+                checked={equipment === null}
+                onCheckedChange={(fullKitchen) => setEquipment(fullKitchen ? null : [...EQUIPMENT])}
+              />
+              <Label htmlFor="full-kitchen" className="text-sm font-semibold text-foreground">
+                {t("settings.fullKitchen")}
+              </Label>
+            </div>
+
+            {equipment !== null && (
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                size="sm"
+                value={equipment}
+                onValueChange={(values) => setEquipment(normalizeEquipment(values))}
+                className="flex-wrap justify-start mb-6"
+              >
+                {EQUIPMENT.map((item) => (
+                  <ToggleGroupItem key={item} value={item}>
+                    {t(`equipment.${item}`)}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            )}
+
+            <h2 className="text-xl font-semibold mb-1 text-foreground">{t("settings.units")}</h2>
+            <p className="text-sm text-muted-foreground mb-4">{t("settings.unitsDescription")}</p>
+
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={units}
+              onValueChange={(value) => value && setUnits(normalizeUnitSystem(value))}
+              className="flex-wrap justify-start mb-6"
+            >
+              {UNIT_SYSTEMS.map((system) => (
+                <ToggleGroupItem key={system} value={system}>
+                  {t(`units.${system}`)}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+
+            <h2 className="text-xl font-semibold mb-1 text-foreground">{t("settings.language")}</h2>
+            <p className="text-sm text-muted-foreground mb-4">{t("settings.languageDescription")}</p>
+
+            <Select
+              value={language ?? "browser"}
+              onValueChange={(value) => setLanguage(normalizeLanguage(value))}
+            >
+              <SelectTrigger className="w-full sm:w-56 mb-6">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="browser">{t("settings.sameAsBrowser")}</SelectItem>
+                {LANGUAGES.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {LANGUAGE_LABELS[code]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Button onClick={handleSave} disabled={isSaving} className="gap-2">
+              <Save className="w-4 h-4" />
+              {isSaving ? t("common.saving") : t("settings.save")}
+            </Button>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
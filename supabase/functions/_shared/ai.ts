@@ -0,0 +1,109 @@
+// Chat completion calls, routed to the provider chosen by the AI_PROVIDER env var:
+//   lovable (default)  Lovable AI gateway, needs LOVABLE_API_KEY
+//   openai             any OpenAI-compatible server at AI_BASE_URL (AI_API_KEY optional)
+//   mock               built-in deterministic fixtures, no network
+// AI_MODEL overrides the model name for the lovable and openai providers.
+
+import { createMockProvider } from "./mock-ai.ts";
+
+export type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+
+export interface CompletionOptions {
+  stream?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * A chat completion backend. `complete` resolves with an OpenAI-compatible
+ * response: a chat.completion JSON body, or an SSE stream of chunks when
+ * `stream` is set.
+ */
+export interface AiProvider {
+  name: string;
+  model: string;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<Response>;
+}
+
+export class GatewayError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const createOpenAiCompatibleProvider = (
+  name: string,
+  baseUrl: string,
+  apiKey: string | undefined,
+  model: string,
+): AiProvider => ({
+  name,
+  model,
+  async complete(messages, { stream = false, signal } = {}) {
+    const response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        ...(apiKey && { "Authorization": `Bearer ${apiKey}` }),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        stream,
+        response_format: { type: "json_object" },
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`AI provider ${name} error:`, response.status, errorText);
+      throw new GatewayError(response.status, `AI gateway error: ${response.status}`);
+    }
+
+    return response;
+  },
+});
+
+export const getProvider = (): AiProvider => {
+  const provider = Deno.env.get("AI_PROVIDER") ?? "lovable";
+  const model = Deno.env.get("AI_MODEL");
+
+  switch (provider) {
+    case "lovable": {
+      const apiKey = Deno.env.get("LOVABLE_API_KEY");
+      if (!apiKey) throw new Error("LOVABLE_API_KEY is not configured");
+      return createOpenAiCompatibleProvider(
+        "lovable",
+        "https://ai.gateway.lovable.dev/v1",
+        apiKey,
+        model ?? "google/gemini-2.5-flash",
+      );
+    }
+    case "openai": {
+      const baseUrl = Deno.env.get("AI_BASE_URL");
+      if (!baseUrl) throw new Error("AI_BASE_URL is not configured");
+      return createOpenAiCompatibleProvider("openai", baseUrl, Deno.env.get("AI_API_KEY"), model ?? "gpt-4o-mini");
+    }
+    case "mock":
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${provider}"`);
+  }
+};
+
+export const callModel = async (provider: AiProvider, messages: ChatMessage[]): Promise<string> => {
+  const data = await (await provider.complete(messages)).json();
+  return data.choices?.[0]?.message?.content ?? "";
+};
+
+/** Maps gateway failures the user can act on to a status and message. */
+export const describeGatewayError = (error: unknown): { status: number; error: string; code: string } | null => {
+  if (!(error instanceof GatewayError)) return null;
+  if (error.status === 429) {
+    return { status: 429, error: "Rate limit exceeded. Please try again later.", code: "AI_RATE_LIMITED" };
+  }
+  if (error.status === 402) {
+    return { status: 402, error: "Payment required. Please add credits to your workspace.", code: "PAYMENT_REQUIRED" };
+  }
+  return null;
+};
@@ -0,0 +1,69 @@
+// Caller authentication and per-user quotas for the AI functions.
+
+import { createClient, type SupabaseClient, type User } from "https://esm.sh/@supabase/supabase-js@2.75.0";
+import { corsHeaders } from "./cors.ts";
+
+const DEFAULT_HOURLY_LIMIT = 20;
+const DEFAULT_DAILY_LIMIT = 100;
+
+/** Service-role client; bypasses RLS, so only use it for server-side bookkeeping. */
+export const createAdminClient = (): SupabaseClient => {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceRoleKey) throw new Error("SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is not configured");
+  return createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+};
+
+/**
+ * Resolves the signed-in user from the Authorization header. The anon key is
+ * also a valid JWT, so asking Supabase Auth for the user is what actually
+ * proves there is a signed-in caller.
+ */
+export const getUser = async (req: Request, admin: SupabaseClient): Promise<User | null> => {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+  const { data, error } = await admin.auth.getUser(token);
+  return error ? null : data.user;
+};
+
+const readLimit = (name: string, fallback: number) => {
+  const value = Number(Deno.env.get(name));
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+};
+
+/**
+ * Records one request against the user's hourly and daily limits
+ * (RATE_LIMIT_HOURLY / RATE_LIMIT_DAILY). Returns 0 when allowed, otherwise
+ * the number of seconds until the user may try again.
+ */
+export const consumeQuota = async (admin: SupabaseClient, userId: string, functionName: string): Promise<number> => {
+  const { data, error } = await admin.rpc("consume_generation_quota", {
+    p_user_id: userId,
+    p_function_name: functionName,
+    p_hourly_limit: readLimit("RATE_LIMIT_HOURLY", DEFAULT_HOURLY_LIMIT),
+    p_daily_limit: readLimit("RATE_LIMIT_DAILY", DEFAULT_DAILY_LIMIT),
+  });
+  if (error) throw error;
+  return data ?? 0;
+};
+
+export const unauthorizedResponse = () =>
+  new Response(
+    JSON.stringify({ error: "Please sign in to generate recipes.", code: "UNAUTHORIZED" }),
+    { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+  );
+
+export const rateLimitedResponse = (retryAfter: number) => {
+  const minutes = Math.ceil(retryAfter / 60);
+  return new Response(
+    JSON.stringify({
+      error: `You've reached your recipe generation limit. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+      code: "RATE_LIMITED",
+      retryAfter,
+    }),
+    {
+      status: 429,
+      headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": String(retryAfter) },
+    },
+  );
+};
@@ -0,0 +1,87 @@
+// Result cache for generate-recipe, so the same request doesn't pay for a
+// second model call. Entries live for RECIPE_CACHE_TTL_HOURS (0 disables the
+// cache) and are shared between users, since they hold no personal data.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.0";
+
+const DEFAULT_TTL_HOURS = 24;
+
+export interface CacheEntry<T> {
+  result: T;
+  cachedAt: string;
+}
+
+/** Lowercased, trimmed, de-duplicated and sorted, so "Rice, Chicken" matches "chicken, rice". */
+export const normalizeIngredientList = (ingredients: unknown): string[] => {
+  const items = (Array.isArray(ingredients) ? ingredients : [])
+    .filter((item): item is string => typeof item === "string")
+    .map((item) => item.trim().toLowerCase().replace(/\s+/g, " "))
+    .filter(Boolean);
+  return [...new Set(items)].sort();
+};
+
+// JSON with object keys sorted, so option objects built in a different order hash the same.
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const createCacheKey = async (
+  ingredients: string[],
+  options: Record<string, unknown>,
+  model: string,
+): Promise<string> => {
+  const text = stableStringify({ ingredients, options, model });
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+export const cacheTtlHours = (): number => {
+  const value = Number(Deno.env.get("RECIPE_CACHE_TTL_HOURS"));
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_TTL_HOURS;
+};
+
+/** The unexpired entry for `key`, or null. Cache failures never fail the request. */
+export const readCache = async <T>(admin: SupabaseClient, key: string): Promise<CacheEntry<T> | null> => {
+  const { data, error } = await admin
+    .from("recipe_cache")
+    .select("result, created_at")
+    .eq("cache_key", key)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error reading recipe cache:", error);
+    return null;
+  }
+  return data ? { result: data.result as T, cachedAt: data.created_at } : null;
+};
+
+export const writeCache = async (
+  admin: SupabaseClient,
+  key: string,
+  entry: { ingredients: string[]; options: Record<string, unknown>; model: string; result: unknown },
+): Promise<void> => {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + cacheTtlHours() * 60 * 60 * 1000);
+
+  const { error } = await admin.from("recipe_cache").upsert({
+    cache_key: key,
+    ...entry,
+    created_at: now.toISOString(),
+    expires_at: expiresAt.toISOString(),
+  });
+  if (error) {
+    console.error("Error writing recipe cache:", error);
+    return;
+  }
+
+  // Expired rows are never read again; clear them out while we're here.
+  await admin.from("recipe_cache").delete().lt("expires_at", now.toISOString());
+};
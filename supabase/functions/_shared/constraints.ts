@@ -0,0 +1,206 @@
+// Dietary restrictions and allergen exclusions for recipe generation.
+
+import type { IngredientLine } from "./ingredients.ts";
+import { findKeyword, type KeywordRule } from "./keywords.ts";
+
+export const DIETS = ["vegan", "vegetarian", "keto", "halal", "kosher", "gluten-free"] as const;
+
+export type Diet = (typeof DIETS)[number];
+
+export const ALLERGENS = [
+  "peanuts",
+  "tree-nuts",
+  "dairy",
+  "eggs",
+  "gluten",
+  "soy",
+  "fish",
+  "shellfish",
+  "sesame",
+] as const;
+
+export type Allergen = (typeof ALLERGENS)[number];
+
+export interface DietaryConstraints {
+  diets: Diet[];
+  allergens: Allergen[];
+}
+
+export const DIET_LABELS: Record<Diet, string> = {
+  vegan: "Vegan",
+  vegetarian: "Vegetarian",
+  keto: "Keto",
+  halal: "Halal",
+  kosher: "Kosher",
+  "gluten-free": "Gluten-free",
+};
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  peanuts: "Peanuts",
+  "tree-nuts": "Tree nuts",
+  dairy: "Dairy",
+  eggs: "Eggs",
+  gluten: "Gluten",
+  soy: "Soy",
+  fish: "Fish",
+  shellfish: "Shellfish",
+  sesame: "Sesame",
+};
+
+// Pork and pork-derived products, for the halal and kosher rules.
+const PORK = [
+  "pork", "bacon", "ham", "lard", "lardon", "prosciutto", "pancetta", "guanciale", "pepperoni",
+  "salami", "chorizo", "gelatin", "gelatine",
+];
+const MEAT = [
+  ...PORK, "beef", "chicken", "turkey", "lamb", "mutton", "veal", "venison", "rabbit", "duck", "goat",
+  "sausage", "hot dog", "mince", "steak", "meat", "meatball", "suet", "bone broth", "bouillon", "rennet",
+];
+const MEAT_SAFE = ["coconut meat", "vegetable bouillon", "vegetarian rennet", "microbial rennet"];
+const FISH = [
+  "fish", "salmon", "tuna", "cod", "anchovy", "anchovies", "sardine", "trout", "tilapia", "mackerel",
+  "halibut", "haddock", "fish sauce", "nam pla", "worcestershire", "caesar", "dashi", "bonito",
+  "katsuobushi", "surimi", "caviar", "roe",
+];
+const SHELLFISH = [
+  "shrimp", "prawn", "crab", "lobster", "crayfish", "crawfish", "langoustine", "krill", "clam", "mussel",
+  "oyster", "scallop", "squid", "calamari", "octopus",
+];
+const DAIRY = [
+  "milk", "butter", "cheese", "cream", "yogurt", "yoghurt", "ghee", "whey", "casein", "lactose", "paneer",
+  "mozzarella", "parmesan", "cheddar", "feta", "ricotta", "mascarpone", "halloumi", "gruyere", "brie",
+  "buttermilk", "kefir", "curd", "creme fraiche", "crème fraîche", "half-and-half", "custard", "pesto",
+];
+const DAIRY_SAFE = [
+  "coconut milk", "almond milk", "oat milk", "soy milk", "rice milk", "cashew milk", "peanut butter",
+  "almond butter", "cashew butter", "cocoa butter", "nut butter", "coconut cream", "cream of tartar",
+  "vegan butter", "vegan cheese", "dairy-free", "bean curd",
+];
+const EGGS = ["egg", "mayonnaise", "mayo", "meringue", "aioli", "albumen", "hollandaise", "bearnaise", "custard", "eggnog"];
+const GLUTEN = [
+  "wheat", "flour", "bread", "breadcrumb", "panko", "crouton", "cracker", "pasta", "spaghetti", "noodle",
+  "udon", "orzo", "couscous", "barley", "malt", "rye", "semolina", "bulgur", "seitan", "tortilla", "pita",
+  "soy sauce", "teriyaki", "beer", "farro", "spelt",
+];
+const GLUTEN_SAFE = [
+  "gluten-free", "rice flour", "almond flour", "coconut flour", "corn tortilla", "rice noodle",
+  "chickpea flour", "tamari", "buckwheat",
+];
+
+const ALLERGEN_RULES: Record<Allergen, KeywordRule> = {
+  peanuts: { keywords: ["peanut", "groundnut", "satay", "arachis"] },
+  "tree-nuts": {
+    keywords: [
+      "almond", "walnut", "cashew", "pecan", "pistachio", "hazelnut", "macadamia", "brazil nut", "pine nut",
+      "praline", "marzipan", "frangipane", "pesto", "nutella",
+    ],
+  },
+  dairy: { keywords: DAIRY, safe: DAIRY_SAFE },
+  eggs: { keywords: EGGS, safe: ["egg-free", "eggplant"] },
+  gluten: { keywords: GLUTEN, safe: GLUTEN_SAFE },
+  soy: {
+    keywords: ["soy", "soya", "soybean", "tofu", "tempeh", "edamame", "miso", "soy sauce", "tamari", "teriyaki", "hoisin"],
+  },
+  fish: { keywords: FISH },
+  shellfish: { keywords: SHELLFISH },
+  sesame: { keywords: ["sesame", "tahini", "halva", "gomasio", "za'atar"] },
+};
+
+const DIET_RULES: Record<Diet, KeywordRule> = {
+  vegan: {
+    keywords: [...MEAT, ...FISH, ...SHELLFISH, ...DAIRY, ...EGGS, "honey"],
+    safe: [...MEAT_SAFE, ...DAIRY_SAFE, "eggplant"],
+  },
+  vegetarian: { keywords: [...MEAT, ...FISH, ...SHELLFISH], safe: MEAT_SAFE },
+  keto: {
+    keywords: [
+      "sugar", "rice", "pasta", "spaghetti", "noodle", "bread", "potato", "flour", "tortilla", "oat",
+      "quinoa", "corn", "bean", "lentil", "honey", "maple syrup",
+    ],
+    safe: ["almond flour", "coconut flour", "cauliflower rice", "sugar-free", "green bean"],
+  },
+  halal: { keywords: [...PORK, "wine", "beer", "rum", "brandy", "mirin"] },
+  kosher: { keywords: [...PORK, ...SHELLFISH] },
+  "gluten-free": { keywords: GLUTEN, safe: GLUTEN_SAFE },
+};
+
+export interface ConstraintViolation {
+  index: number;
+  item: string;
+  keyword: string;
+  rule: { kind: "diet"; diet: Diet } | { kind: "allergen"; allergen: Allergen };
+}
+
+export const EMPTY_CONSTRAINTS: DietaryConstraints = { diets: [], allergens: [] };
+
+/** Drops unknown values from an untrusted constraints object. */
+export function normalizeConstraints(input: unknown): DietaryConstraints {
+  if (typeof input !== "object" || input === null) return EMPTY_CONSTRAINTS;
+  const { diets, allergens } = input as Record<string, unknown>;
+  const pick = <T extends string>(values: unknown, allowed: readonly T[]): T[] =>
+    Array.isArray(values) ? allowed.filter((value) => values.includes(value)) : [];
+  return { diets: pick(diets, DIETS), allergens: pick(allergens, ALLERGENS) };
+}
+
+export function hasConstraints(constraints: DietaryConstraints): boolean {
+  return constraints.diets.length > 0 || constraints.allergens.length > 0;
+}
+
+/** Plain-language summary for the model prompt. */
+export function describeConstraints({ diets, allergens }: DietaryConstraints): string {
+  const lines: string[] = [];
+  if (diets.length > 0) {
+    lines.push(`- The recipe MUST be: ${diets.map((d) => DIET_LABELS[d]).join(", ")}`);
+  }
+  if (allergens.length > 0) {
+    lines.push(
+      `- The recipe MUST NOT contain any of these allergens, including derived products and traces: ${allergens
+        .map((a) => ALLERGEN_LABELS[a])
+        .join(", ")}`,
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Keyword check of every ingredient line against the requested diets and
+ * allergens. It is deliberately conservative: a false positive only costs a
+ * regeneration, a false negative could hurt someone.
+ */
+export function findConstraintViolations(
+  ingredients: IngredientLine[],
+  { diets, allergens }: DietaryConstraints,
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+
+  ingredients.forEach((line, index) => {
+    const text = [line.item, line.english, line.preparation].filter(Boolean).join(" ");
+
+    for (const allergen of allergens) {
+      const keyword = findKeyword(text, ALLERGEN_RULES[allergen]);
+      if (keyword) violations.push({ index, item: line.item, keyword, rule: { kind: "allergen", allergen } });
+    }
+    for (const diet of diets) {
+      const keyword = findKeyword(text, DIET_RULES[diet]);
+      if (keyword) violations.push({ index, item: line.item, keyword, rule: { kind: "diet", diet } });
+    }
+  });
+
+  return violations;
+}
+
+export function describeViolation({ item, keyword, rule }: ConstraintViolation): string {
+  const label = rule.kind === "allergen" ? `${ALLERGEN_LABELS[rule.allergen]} allergy` : `${DIET_LABELS[rule.diet]} diet`;
+  return `"${item}" contains ${keyword}, which breaks the ${label} requirement`;
+}
+
+/** Diets the ingredient list fits and allergens it contains, by the same keyword rules. */
+export function dietaryProfile(ingredients: IngredientLine[]): DietaryConstraints {
+  const violations = findConstraintViolations(ingredients, { diets: [...DIETS], allergens: [...ALLERGENS] });
+  return {
+    diets: DIETS.filter((diet) => !violations.some(({ rule }) => rule.kind === "diet" && rule.diet === diet)),
+    allergens: ALLERGENS.filter((allergen) =>
+      violations.some(({ rule }) => rule.kind === "allergen" && rule.allergen === allergen)
+    ),
+  };
+}
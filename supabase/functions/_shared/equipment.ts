@@ -0,0 +1,119 @@
+// Kitchen appliances a user has, and a keyword check for recipes that need others.
+
+import { findKeyword, type KeywordRule } from "./keywords.ts";
+import { DEFAULT_LANGUAGE, type Language } from "./language.ts";
+
+export const EQUIPMENT = [
+  "stovetop",
+  "oven",
+  "microwave",
+  "air-fryer",
+  "pressure-cooker",
+  "slow-cooker",
+  "grill",
+  "blender",
+  "food-processor",
+  "mixer",
+  "rice-cooker",
+  "toaster",
+] as const;
+
+export type Equipment = (typeof EQUIPMENT)[number];
+
+export const EQUIPMENT_LABELS: Record<Equipment, string> = {
+  stovetop: "Stovetop",
+  oven: "Oven",
+  microwave: "Microwave",
+  "air-fryer": "Air fryer",
+  "pressure-cooker": "Instant Pot / pressure cooker",
+  "slow-cooker": "Slow cooker",
+  grill: "Grill",
+  blender: "Blender",
+  "food-processor": "Food processor",
+  mixer: "Electric mixer",
+  "rice-cooker": "Rice cooker",
+  toaster: "Toaster",
+};
+
+const EQUIPMENT_RULES: Record<Equipment, KeywordRule> = {
+  stovetop: {
+    keywords: ["stove", "stovetop", "hob", "burner", "skillet", "frying pan", "saucepan", "wok", "grill pan"],
+  },
+  oven: {
+    keywords: ["oven", "bake", "broil", "broiler"],
+    // Ingredients and tools named after baking that a stovetop recipe uses too.
+    safe: [
+      "dutch oven", "microwave oven", "toaster oven", "oven mitt", "oven glove", "baking soda", "baking powder",
+      "baking chocolate", "baked bean",
+    ],
+  },
+  microwave: { keywords: ["microwave"] },
+  "air-fryer": { keywords: ["air fryer", "air-fryer", "airfryer"] },
+  "pressure-cooker": { keywords: ["pressure cooker", "instant pot", "instapot", "multicooker"] },
+  "slow-cooker": { keywords: ["slow cooker", "crock pot", "crockpot"] },
+  grill: { keywords: ["grill", "barbecue", "bbq"], safe: ["grill pan"] },
+  blender: { keywords: ["blender"] },
+  "food-processor": { keywords: ["food processor"] },
+  mixer: { keywords: ["stand mixer", "electric mixer", "hand mixer"] },
+  "rice-cooker": { keywords: ["rice cooker"] },
+  toaster: { keywords: ["toaster"], safe: ["toaster oven"] },
+};
+
+export interface EquipmentViolation {
+  field: string;
+  equipment: Equipment;
+  keyword: string;
+}
+
+/** Drops unknown values; null means the user hasn't said, so nothing is restricted. */
+export function normalizeEquipment(input: unknown): Equipment[] | null {
+  if (!Array.isArray(input)) return null;
+  return EQUIPMENT.filter((equipment) => input.includes(equipment));
+}
+
+/** Plain-language summary for the model prompt. */
+export function describeEquipment(available: Equipment[]): string {
+  const missing = EQUIPMENT.filter((equipment) => !available.includes(equipment));
+  const lines = [
+    `- The cook has: ${available.length > 0 ? available.map((e) => EQUIPMENT_LABELS[e]).join(", ") : "no appliances at all"}, plus basic hand tools (knives, bowls, pots and pans)`,
+  ];
+  if (missing.length > 0) {
+    lines.push(`- The recipe MUST NOT need: ${missing.map((e) => EQUIPMENT_LABELS[e]).join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Looks for appliances the user doesn't have, both in the recipe's own
+ * equipment list and in the instructions, which the model sometimes
+ * contradicts ("preheat the oven" in a no-oven recipe). The keywords are
+ * English, so instructions in another language are not checked; the equipment
+ * list is kept in English whatever the recipe's language.
+ */
+export function findEquipmentViolations(
+  recipe: { equipment?: string[]; instructions: string[] },
+  available: Equipment[],
+  language: Language = DEFAULT_LANGUAGE,
+): EquipmentViolation[] {
+  const unavailable = EQUIPMENT.filter((equipment) => !available.includes(equipment));
+  const texts = [
+    ...(recipe.equipment ?? []).map((text, index) => ({ field: `equipment[${index}]`, text })),
+    ...(language === DEFAULT_LANGUAGE ? recipe.instructions : []).map((text, index) => ({
+      field: `instructions[${index}]`,
+      text,
+    })),
+  ];
+
+  const violations: EquipmentViolation[] = [];
+  for (const { field, text } of texts) {
+    for (const equipment of unavailable) {
+      const keyword = findKeyword(text, EQUIPMENT_RULES[equipment], "verb");
+      if (keyword) violations.push({ field, equipment, keyword });
+    }
+  }
+  return violations;
+}
+
+export function describeEquipmentViolation({ equipment, keyword }: EquipmentViolation): string {
+  return `mentions "${keyword}", but the cook has no ${EQUIPMENT_LABELS[equipment].toLowerCase()}`;
+}
@@ -0,0 +1,124 @@
+// Expiry dates and "use soon" flags on the user's ingredients, and how well a
+// recipe uses up the ones that are about to go off.
+
+import { itemNames, type IngredientLine } from "./ingredients.ts";
+import { matchesName } from "./pantry.ts";
+
+export interface Freshness {
+  /** Best-before or use-by date, YYYY-MM-DD. */
+  expiresOn?: string;
+  /** Set by the user without a date: "this needs using". */
+  useSoon?: boolean;
+}
+
+/** Keyed by ingredient name as the user entered it. */
+export type FreshnessMap = Record<string, Freshness>;
+
+export interface UrgentIngredient {
+  name: string;
+  /** Whole days until the expiry date; negative once past it, null for a plain "use soon". */
+  daysLeft: number | null;
+}
+
+/** Which of the urgent ingredients a recipe uses, both in priority order. */
+export interface UrgentUsage {
+  used: string[];
+  unused: string[];
+}
+
+/** Items expiring within this many days count as urgent even without the flag. */
+export const URGENT_WITHIN_DAYS = 3;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isDate = (value: unknown): value is string =>
+  typeof value === "string" && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+
+/** The date in the local time zone as YYYY-MM-DD, which is what date inputs use. */
+export function localDate(date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+
+/** Keeps entries for the listed ingredients with a valid date or the flag set. */
+export function normalizeFreshness(input: unknown, ingredients: unknown): FreshnessMap {
+  if (typeof input !== "object" || input === null || !Array.isArray(ingredients)) return {};
+  const entries = input as Record<string, unknown>;
+  const freshness: FreshnessMap = {};
+
+  for (const name of ingredients) {
+    const entry = typeof name === "string" ? entries[name] : null;
+    if (typeof entry !== "object" || entry === null) continue;
+    const { expiresOn, useSoon } = entry as Record<string, unknown>;
+    const value: Freshness = {
+      ...(isDate(expiresOn) && { expiresOn }),
+      ...(useSoon === true && { useSoon: true }),
+    };
+    if (value.expiresOn || value.useSoon) freshness[name as string] = value;
+  }
+  return freshness;
+}
+
+/**
+ * Ingredients to use first, most urgent first. `today` is the user's own date
+ * so that "tomorrow" means the same thing to them and to the server.
+ */
+export function rankUrgentIngredients(freshness: FreshnessMap, today: string): UrgentIngredient[] {
+  const urgent = Object.entries(freshness).flatMap(([name, { expiresOn, useSoon }]): UrgentIngredient[] => {
+    const daysLeft = expiresOn && isDate(today) ? daysBetween(today, expiresOn) : null;
+    if (daysLeft !== null && daysLeft <= URGENT_WITHIN_DAYS) return [{ name, daysLeft }];
+    return useSoon ? [{ name, daysLeft: null }] : [];
+  });
+  // A plain "use soon" ranks with the items that still have the most time.
+  const rank = ({ daysLeft }: UrgentIngredient) => daysLeft ?? URGENT_WITHIN_DAYS;
+  return urgent.sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name));
+}
+
+export function describeDaysLeft(daysLeft: number | null): string {
+  if (daysLeft === null) return "use soon";
+  if (daysLeft < 0) return "past its date";
+  if (daysLeft === 0) return "expires today";
+  if (daysLeft === 1) return "expires tomorrow";
+  return `expires in ${daysLeft} days`;
+}
+
+/** Plain-language priority list for the model prompt. */
+export function describeUrgentIngredients(urgent: UrgentIngredient[]): string {
+  return [
+    ...urgent.map(({ name, daysLeft }, index) => `${index + 1}. ${name} (${describeDaysLeft(daysLeft)})`),
+    "- Build the dish around these, most urgent first, and use each in a meaningful amount rather than as a garnish",
+    "- Only leave one out if it clearly doesn't fit the dish or the other requirements",
+    ...(urgent.some(({ daysLeft }) => daysLeft !== null && daysLeft < 0)
+      ? ["- For anything past its date, start the instructions by telling the cook to check it is still good"]
+      : []),
+  ].join("\n");
+}
+
+export function findUrgentUsage(ingredients: IngredientLine[], urgent: UrgentIngredient[]): UrgentUsage {
+  const usage: UrgentUsage = { used: [], unused: [] };
+  for (const { name } of urgent) {
+    const used = ingredients.some((line) => itemNames(line).some((item) => matchesName(item, name)));
+    usage[used ? "used" : "unused"].push(name);
+  }
+  return usage;
+}
+
+/**
+ * The urgent list behind an earlier report, for checking a changed recipe
+ * again. Days left aren't kept on the recipe, so every entry is a plain "use soon".
+ */
+export function urgentFromUsage({ used, unused }: UrgentUsage): UrgentIngredient[] {
+  return [...used, ...unused].map((name) => ({ name, daysLeft: null }));
+}
+
+/** Drops anything that isn't a pair of string lists. */
+export function normalizeUrgentUsage(input: unknown): UrgentUsage | null {
+  if (typeof input !== "object" || input === null) return null;
+  const { used, unused } = input as Record<string, unknown>;
+  const names = (value: unknown) =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+  const usage = { used: names(used), unused: names(unused) };
+  return usage.used.length + usage.unused.length > 0 ? usage : null;
+}
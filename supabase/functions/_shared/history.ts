@@ -0,0 +1,28 @@
+// Per-user log of generate-recipe results, shown on the client's History page.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.0";
+import type { Recipe } from "./recipe.ts";
+
+export interface GenerationRecord {
+  userId: string;
+  ingredients: string[];
+  options: Record<string, unknown>;
+  model: string;
+  latencyMs: number;
+  cached: boolean;
+  recipes: Recipe[];
+}
+
+/** Stores one generation. Failures are logged, never surfaced: the user already has their recipe. */
+export const recordGeneration = async (admin: SupabaseClient, record: GenerationRecord): Promise<void> => {
+  const { error } = await admin.from("recipe_generations").insert({
+    user_id: record.userId,
+    ingredients: record.ingredients,
+    options: record.options,
+    model: record.model,
+    latency_ms: Math.round(record.latencyMs),
+    cached: record.cached,
+    recipes: record.recipes,
+  });
+  if (error) console.error("Error recording recipe generation:", error);
+};
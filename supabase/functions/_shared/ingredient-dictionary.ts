@@ -0,0 +1,299 @@
+// A bundled dictionary of common ingredients: one canonical name for each, the
+// other names people use for it, and lookups that forgive case, plurals and typos.
+
+import { singular } from "./pantry.ts";
+
+export interface DictionaryEntry {
+  /** How the ingredient is shown once picked. */
+  name: string;
+  /** Other names for the same thing, often regional ("courgette" for "zucchini"). */
+  synonyms: string[];
+}
+
+export interface IngredientSuggestion {
+  name: string;
+  /** The synonym the query matched, when it wasn't the name itself. */
+  via?: string;
+}
+
+const NAMES = [
+  // Meat and poultry
+  "chicken", "chicken breast", "chicken thigh", "chicken wing", "turkey", "duck", "beef", "ground beef",
+  "steak", "beef brisket", "pork", "pork chop", "pork belly", "ground pork", "bacon", "ham", "sausage",
+  "chorizo", "salami", "prosciutto", "lamb", "ground lamb", "veal", "venison",
+  // Fish and seafood
+  "salmon", "tuna", "cod", "haddock", "halibut", "tilapia", "trout", "mackerel", "sardine", "anchovy",
+  "shrimp", "prawn", "crab", "lobster", "scallop", "mussel", "clam", "oyster", "squid", "octopus",
+  // Eggs, dairy and plant proteins
+  "egg", "milk", "butter", "heavy cream", "sour cream", "cream cheese", "yogurt", "greek yogurt",
+  "buttermilk", "cheese", "cheddar", "mozzarella", "parmesan", "feta", "ricotta", "halloumi",
+  "goat cheese", "mascarpone", "paneer", "ghee", "tofu", "tempeh", "seitan",
+  // Vegetables
+  "tomato", "cherry tomato", "potato", "sweet potato", "onion", "red onion", "green onion", "shallot",
+  "garlic", "ginger", "carrot", "celery", "pepper", "bell pepper", "chili pepper", "jalapeno",
+  "cucumber", "lettuce", "spinach", "kale", "cabbage", "red cabbage", "bok choy", "broccoli", "cauliflower",
+  "zucchini", "eggplant", "butternut squash", "pumpkin", "corn", "pea", "snow pea", "green bean",
+  "asparagus", "artichoke", "beet", "radish", "turnip", "parsnip", "leek", "fennel", "okra", "avocado",
+  "mushroom", "shiitake mushroom", "arugula", "swiss chard", "brussels sprout", "bean sprout",
+  "olive", "edamame", "seaweed",
+  // Fruit
+  "apple", "banana", "orange", "lemon", "lime", "grapefruit", "grape", "strawberry", "blueberry",
+  "raspberry", "blackberry", "cranberry", "cherry", "peach", "nectarine", "pear", "plum", "apricot",
+  "mango", "pineapple", "papaya", "kiwi", "melon", "watermelon", "coconut", "pomegranate", "fig",
+  "date", "raisin",
+  // Grains, pasta and bread
+  "rice", "brown rice", "basmati rice", "jasmine rice", "arborio rice", "quinoa", "couscous", "bulgur",
+  "barley", "oats", "polenta", "pasta", "spaghetti", "penne", "macaroni", "lasagna sheet", "egg noodle",
+  "rice noodle", "bread", "sourdough bread", "tortilla", "pita", "naan", "breadcrumbs",
+  "all-purpose flour", "whole wheat flour", "cornmeal", "cornstarch",
+  // Beans and legumes
+  "black bean", "kidney bean", "chickpea", "lentil", "red lentil", "white bean", "pinto bean",
+  // Nuts and seeds
+  "almond", "walnut", "cashew", "pecan", "pistachio", "hazelnut", "peanut", "peanut butter",
+  "pine nut", "sesame seed", "sunflower seed", "pumpkin seed", "chia seed", "flaxseed",
+  // Herbs
+  "basil", "cilantro", "parsley", "mint", "dill", "rosemary", "thyme", "oregano", "sage", "chive",
+  "tarragon", "bay leaf",
+  // Spices and seasonings
+  "salt", "black pepper", "cumin", "paprika", "smoked paprika", "chili powder", "chili flakes",
+  "turmeric", "cinnamon", "nutmeg", "clove", "cardamom", "coriander seed", "garam masala",
+  "curry powder", "saffron", "vanilla", "cayenne pepper",
+  // Oils, vinegars and sauces
+  "olive oil", "vegetable oil", "sesame oil", "coconut oil", "white vinegar", "balsamic vinegar",
+  "apple cider vinegar", "rice vinegar", "soy sauce", "fish sauce", "oyster sauce", "hoisin sauce",
+  "worcestershire sauce", "hot sauce", "sriracha", "ketchup", "mustard", "mayonnaise", "tahini",
+  "miso", "gochujang", "harissa", "pesto", "salsa", "tomato paste", "canned tomato", "coconut milk",
+  "chicken stock", "vegetable stock", "beef stock",
+  // Baking and sweeteners
+  "sugar", "brown sugar", "powdered sugar", "honey", "maple syrup", "molasses", "baking soda",
+  "baking powder", "yeast", "cocoa powder", "dark chocolate", "chocolate chip", "gelatin",
+  // Drinks and other
+  "water", "white wine", "red wine", "beer", "coffee", "tea", "orange juice", "lemon juice",
+];
+
+const SYNONYMS: Record<string, string[]> = {
+  "ground beef": ["minced beef", "beef mince", "hamburger meat"],
+  "ground pork": ["minced pork", "pork mince"],
+  "ground lamb": ["minced lamb", "lamb mince"],
+  "heavy cream": ["double cream", "whipping cream"],
+  "greek yogurt": ["greek yoghurt"],
+  yogurt: ["yoghurt", "curd"],
+  "green onion": ["scallion", "spring onion"],
+  "bell pepper": ["capsicum", "sweet pepper"],
+  "chili pepper": ["chilli", "chile", "chili", "hot pepper"],
+  zucchini: ["courgette"],
+  eggplant: ["aubergine", "brinjal"],
+  arugula: ["rocket"],
+  beet: ["beetroot"],
+  "snow pea": ["mangetout"],
+  "green bean": ["string bean", "french bean"],
+  cilantro: ["coriander leaves", "fresh coriander", "chinese parsley"],
+  chickpea: ["garbanzo bean", "chana"],
+  "bok choy": ["pak choi"],
+  "swiss chard": ["chard", "silverbeet"],
+  "butternut squash": ["butternut pumpkin"],
+  corn: ["sweetcorn", "maize"],
+  "sweet potato": ["yam"],
+  "all-purpose flour": ["flour", "plain flour"],
+  "whole wheat flour": ["wholemeal flour"],
+  cornstarch: ["cornflour", "corn starch"],
+  "powdered sugar": ["icing sugar", "confectioners sugar"],
+  "baking soda": ["bicarbonate of soda", "bicarb"],
+  "chili flakes": ["red pepper flakes", "crushed red pepper"],
+  "canned tomato": ["tinned tomato", "chopped tomato"],
+  "tomato paste": ["tomato puree"],
+  "chicken stock": ["chicken broth"],
+  "vegetable stock": ["vegetable broth"],
+  "beef stock": ["beef broth"],
+  oats: ["rolled oats", "oatmeal"],
+  breadcrumbs: ["bread crumbs", "panko"],
+  "lasagna sheet": ["lasagne"],
+  prawn: ["king prawn"],
+  "sesame seed": ["sesame"],
+  flaxseed: ["linseed"],
+  "cayenne pepper": ["cayenne"],
+  "bean sprout": ["mung bean sprout"],
+  "shiitake mushroom": ["shiitake"],
+  "goat cheese": ["chevre"],
+};
+
+export const INGREDIENT_DICTIONARY: DictionaryEntry[] = NAMES.map((name) => ({
+  name,
+  synonyms: SYNONYMS[name] ?? [],
+}));
+
+/**
+ * Common food words beyond the dictionary's names: ingredients, cuts and dishes,
+ * and everyday ones in the other languages as people type them without accents.
+ * The ingredient guard treats a name containing one as food, and a query that is
+ * one is never "corrected" into something else.
+ */
+export const FOOD_WORDS = [
+  // Meat, fish and other proteins
+  "beef", "pork", "chicken", "turkey", "lamb", "mutton", "veal", "duck", "goose", "goat", "venison",
+  "rabbit", "bacon", "ham", "sausage", "salami", "pepperoni", "prosciutto", "chorizo", "mince", "steak",
+  "brisket", "rib", "wing", "thigh", "breast", "drumstick", "fillet", "liver", "meatball", "hot dog",
+  "fish", "salmon", "tuna", "cod", "anchovy", "sardine", "trout", "tilapia", "mackerel", "halibut",
+  "haddock", "shrimp", "prawn", "crab", "lobster", "clam", "mussel", "oyster", "scallop", "squid",
+  "calamari", "octopus", "egg", "tofu", "tempeh", "seitan", "paneer",
+  // Dairy
+  "milk", "butter", "cheese", "cream", "yogurt", "yoghurt", "ghee", "buttermilk", "mozzarella",
+  "parmesan", "cheddar", "feta", "ricotta", "halloumi", "mascarpone", "brie", "gouda", "half-and-half",
+  // Vegetables
+  "tomato", "potato", "onion", "garlic", "carrot", "celery", "pepper", "chilli", "chili", "jalapeno",
+  "cucumber", "lettuce", "spinach", "kale", "cabbage", "broccoli", "cauliflower", "zucchini",
+  "courgette", "eggplant", "aubergine", "squash", "pumpkin", "corn", "pea", "bean", "lentil",
+  "chickpea", "mushroom", "leek", "shallot", "scallion", "asparagus", "artichoke", "beet", "beetroot",
+  "radish", "turnip", "parsnip", "okra", "avocado", "olive", "sweet potato", "yam", "greens", "sprout",
+  "arugula", "rocket", "chard", "fennel", "ginger", "seaweed", "edamame",
+  // Fruit
+  "apple", "banana", "orange", "lemon", "lime", "grape", "strawberry", "blueberry", "raspberry",
+  "blackberry", "cherry", "peach", "pear", "plum", "apricot", "mango", "pineapple", "papaya", "melon",
+  "watermelon", "kiwi", "coconut", "pomegranate", "fig", "date", "raisin", "cranberry", "grapefruit",
+  "berry", "fruit", "vegetable",
+  // Grains, breads and starches
+  "rice", "pasta", "noodle", "spaghetti", "macaroni", "penne", "bread", "flour", "oat", "oatmeal",
+  "quinoa", "couscous", "barley", "bulgur", "polenta", "cornmeal", "tortilla", "pita", "bun", "roll",
+  "bagel", "cracker", "cereal", "wheat", "rye", "semolina", "buckwheat", "millet", "dough", "pastry",
+  "cake", "biscuit", "cookie", "breadcrumb", "starch",
+  // Nuts and seeds
+  "nut", "peanut", "almond", "walnut", "cashew", "pecan", "pistachio", "hazelnut", "macadamia",
+  "seed", "sesame", "sunflower", "chia", "flax", "pine nut",
+  // Herbs and spices
+  "salt", "basil", "oregano", "thyme", "rosemary", "parsley", "cilantro", "coriander", "mint", "dill",
+  "sage", "bay", "chive", "tarragon", "cumin", "paprika", "turmeric", "cinnamon", "nutmeg", "clove",
+  "cardamom", "saffron", "vanilla", "curry", "masala", "herb", "spice", "leaf", "sumac", "za'atar",
+  // Pantry and condiments
+  "oil", "vinegar", "sugar", "honey", "syrup", "molasses", "jam", "sauce", "ketchup", "mustard",
+  "mayonnaise", "mayo", "soy", "miso", "tahini", "salsa", "pesto", "stock", "broth", "bouillon",
+  "yeast", "baking soda", "baking powder", "cocoa", "chocolate", "gelatin", "water", "wine", "beer",
+  "juice", "coffee", "tea", "lard", "margarine", "hummus", "kimchi", "pickle", "caper", "tamari",
+  "gochujang", "harissa", "sriracha", "cooking spray",
+  // Dishes and sweets
+  "soup", "stew", "salad", "pizza", "burger", "sandwich", "pie", "tart", "pudding", "custard", "jelly",
+  "candy", "caramel", "toffee", "fudge", "marshmallow", "ice cream",
+  // Everyday names in the app's other languages, as typed in Latin script
+  "pollo", "carne", "cerdo", "res", "pescado", "huevo", "leche", "queso", "mantequilla", "arroz",
+  "frijol", "papa", "patata", "cebolla", "ajo", "tomate", "pimiento", "zanahoria", "lechuga",
+  "espinaca", "manzana", "platano", "naranja", "limon", "harina", "azucar", "sal", "aceite",
+  "murgh", "gosht", "machli", "anda", "doodh", "dahi", "chawal", "atta", "dal", "aloo", "pyaz",
+  "lehsun", "adrak", "tamatar", "gobi", "palak", "baingan", "bhindi", "matar", "chana", "rajma",
+  "jeera", "haldi", "mirch", "dajaj", "lahm", "samak", "khubz", "ruz", "laban", "jibneh",
+];
+
+/**
+ * Lower-cased, punctuation-free and singular, so "Tomatoes", "tomato" and
+ * "tomato." all give the same key.
+ */
+export function normalizeIngredientKey(text: string): string {
+  return (text.normalize("NFKC").toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).map(singular).join(" ");
+}
+
+interface Term {
+  entry: DictionaryEntry;
+  text: string;
+  key: string;
+  synonym: boolean;
+}
+
+const TERMS: Term[] = INGREDIENT_DICTIONARY.flatMap((entry) => [
+  { entry, text: entry.name, key: normalizeIngredientKey(entry.name), synonym: false },
+  ...entry.synonyms.map((text) => ({ entry, text, key: normalizeIngredientKey(text), synonym: true })),
+]);
+
+// Names win over synonyms that normalize the same way.
+const BY_KEY = new Map<string, DictionaryEntry>();
+for (const term of [...TERMS].sort((a, b) => Number(a.synonym) - Number(b.synonym))) {
+  if (!BY_KEY.has(term.key)) BY_KEY.set(term.key, term.entry);
+}
+
+/** The dictionary's name for an ingredient, e.g. "courgettes" gives "zucchini"; null when unknown. */
+export function canonicalIngredient(text: string): string | null {
+  return BY_KEY.get(normalizeIngredientKey(text))?.name ?? null;
+}
+
+/** Two ingredient names are the same ingredient when their keys match. */
+export function ingredientKey(text: string): string {
+  const canonical = canonicalIngredient(text);
+  return normalizeIngredientKey(canonical ?? text);
+}
+
+/**
+ * Ingredients whose name or synonym starts with what has been typed so far,
+ * best first: exact matches, then names, then later words and synonyms.
+ */
+export function searchIngredients(query: string, limit = 8): IngredientSuggestion[] {
+  const raw = query.trim().toLowerCase();
+  const key = normalizeIngredientKey(query);
+  if (!key) return [];
+
+  const rank = ({ text, key: termKey, synonym }: Term): number | null => {
+    if (termKey === key) return 0;
+    const lower = text.toLowerCase();
+    const startsWith = lower.startsWith(raw) || termKey.startsWith(key);
+    const wordStartsWith = termKey.split(" ").some((word) => word.startsWith(key));
+    if (startsWith) return synonym ? 3 : 1;
+    if (wordStartsWith) return synonym ? 4 : 2;
+    return null;
+  };
+
+  const best = new Map<DictionaryEntry, { score: number; term: Term }>();
+  for (const term of TERMS) {
+    const score = rank(term);
+    if (score === null) continue;
+    const current = best.get(term.entry);
+    if (!current || score < current.score) best.set(term.entry, { score, term });
+  }
+
+  return [...best.values()]
+    .sort((a, b) => a.score - b.score || a.term.entry.name.length - b.term.entry.name.length)
+    .slice(0, limit)
+    .map(({ term }) => (term.synonym ? { name: term.entry.name, via: term.text } : { name: term.entry.name }));
+}
+
+// Optimal string alignment distance: edits, with a swap of neighbours counting as one.
+const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+// Short words have too many near neighbours to guess at.
+const allowedEdits = (length: number) => (length <= 3 ? 0 : length <= 5 ? 1 : 2);
+
+// A synonym is a rarer spelling to have been aiming for, so it has to be a closer miss.
+const SYNONYM_EDITS = 1;
+
+const FOOD_WORD_KEYS = new Set(FOOD_WORDS.map(normalizeIngredientKey));
+
+/**
+ * The dictionary name a misspelling most likely meant ("brocoli" gives
+ * "broccoli"), or null when the text is already a known ingredient or food
+ * word, or nothing is close.
+ */
+export function suggestCorrection(text: string): string | null {
+  const key = normalizeIngredientKey(text);
+  if (!key || BY_KEY.has(key) || FOOD_WORD_KEYS.has(key)) return null;
+
+  const limit = allowedEdits(key.length);
+  let best: { term: Term; distance: number } | null = null;
+  for (const term of TERMS) {
+    const termLimit = term.synonym ? Math.min(limit, SYNONYM_EDITS) : limit;
+    if (Math.abs(term.key.length - key.length) > termLimit) continue;
+    const distance = editDistance(key, term.key);
+    if (distance > termLimit) continue;
+    if (!best || distance < best.distance || (distance === best.distance && !term.synonym && best.term.synonym)) {
+      best = { term, distance };
+    }
+  }
+  return best?.term.entry.name ?? null;
+}
@@ -0,0 +1,181 @@
+// Screens the ingredient names a user sends before any of them reach a prompt:
+// size limits, stray characters, text that tries to instruct the model, and
+// things that aren't food at all or aren't known to be.
+
+import { FOOD_WORDS, INGREDIENT_DICTIONARY, suggestCorrection } from "./ingredient-dictionary.ts";
+import { singular } from "./pantry.ts";
+
+export const MAX_INGREDIENTS = 30;
+export const MAX_INGREDIENT_LENGTH = 60;
+
+// Names longer than this with no food word in them read as sentences, not ingredients.
+const MAX_WORDS_WITHOUT_FOOD = 6;
+
+export type RejectionReason =
+  | "too-many"
+  | "too-long"
+  | "characters"
+  | "instructions"
+  | "unsafe"
+  | "not-food"
+  | "unknown";
+
+export interface RejectedIngredient {
+  /** Exactly as sent, so the client can point at the chip it came from. */
+  item: string;
+  reason: RejectionReason;
+  message: string;
+}
+
+export interface IngredientScreening {
+  /** Cleaned-up names that are safe to put in a prompt, in the order sent. */
+  accepted: string[];
+  rejected: RejectedIngredient[];
+}
+
+export const REJECTION_MESSAGES: Record<RejectionReason, string> = {
+  "too-many": `Only ${MAX_INGREDIENTS} ingredients can be used at once.`,
+  "too-long": `Ingredient names are limited to ${MAX_INGREDIENT_LENGTH} characters.`,
+  characters: "Contains characters that don't belong in an ingredient name.",
+  instructions: "Reads like an instruction rather than an ingredient.",
+  unsafe: "Not safe to eat.",
+  "not-food": "Doesn't look like something you can cook with.",
+  unknown: "Not an ingredient we know. Check the spelling or try its English name.",
+};
+
+// Letters and digits in any script, plus the punctuation real ingredient names use
+// ("half-and-half", "bird's eye chilli", "2% milk", "salt & pepper").
+const ALLOWED_CHARACTERS = /^[\p{L}\p{M}\p{N} '’.,&()%/-]+$/u;
+
+const INSTRUCTION_PATTERNS = [
+  /\b(?:ignore|disregard|forget|override)\b.*\b(?:instructions?|directives?|prompts?|rules?|above|previous|prior|earlier|everything)\b/,
+  /\b(?:system|developer|assistant)\s+(?:prompt|message|instructions?)\b/,
+  /\b(?:api|secret|access)\s+keys?\b|\bpasswords?\b/,
+  /\b(?:write|tell|give|show|reveal|list)\s+(?:me|us|a|an|the|your|my|some)\b/,
+  /\binstead\b/,
+  /\bnew\s+(?:instructions?|task|rules?|role)\b/,
+  /\byou\s+(?:are|must|should|will|now)\b/,
+  /\b(?:pretend|roleplay|jailbreak)\b/,
+  /\bact\s+as\b/,
+  /\b(?:respond|reply|answer|output|print|say)\s+(?:with|only|in|the)\b/,
+];
+
+// Refused even alongside food words: "chicken and bleach" is not a recipe.
+const UNSAFE = [
+  "bleach", "detergent", "soap", "shampoo", "poison", "cyanide", "arsenic", "strychnine", "antifreeze",
+  "gasoline", "petrol", "diesel", "kerosene", "ammonia", "pesticide", "insecticide", "herbicide",
+  "weedkiller", "rodenticide", "glue", "paint", "solvent", "acetone", "turpentine", "mercury",
+  "disinfectant", "sanitizer", "sanitiser", "cleaner", "laundry pod", "mothball", "fertilizer", "battery",
+  "cocaine", "heroin", "methamphetamine", "fentanyl", "death cap", "hemlock", "human",
+];
+
+// Not food on their own, but fine inside a food name ("rice paper", "rock salt", "glass noodles").
+const NON_FOOD = [
+  "plastic", "paper", "cardboard", "rock", "stone", "sand", "dirt", "soil", "mud", "wood", "metal",
+  "steel", "aluminium", "aluminum", "glass", "rubber", "cloth", "fabric", "sock", "shoe", "shirt",
+  "hair", "fingernail", "phone", "laptop", "computer", "car", "tire", "tyre", "coin", "money", "brick",
+  "concrete", "cement", "pencil", "pen", "crayon", "toy", "chair", "table", "homework",
+  "cigarette", "tobacco", "grass", "sawdust", "styrofoam", "foil",
+];
+
+// Household, appliance and cosmetic nouns that are never food, whatever comes before them:
+// "tea towel" and "nail polish" are not saved by "tea" or by being unknown.
+const NON_FOOD_HEADS = new Set([
+  "towel", "tissue", "napkin", "wipe", "sponge", "scourer", "mop", "broom", "bucket", "bin", "candle",
+  "polish", "remover", "lotion", "moisturizer", "moisturiser", "sunscreen", "deodorant", "perfume",
+  "cologne", "toothpaste", "mouthwash", "toothbrush", "lipstick", "mascara", "eyeliner", "makeup",
+  "conditioner", "hairspray", "wax", "softener", "freshener", "cooker", "fryer", "blender", "toaster",
+  "kettle", "microwave", "dishwasher", "fridge", "refrigerator", "freezer", "processor", "spatula", "ladle",
+]);
+
+// Accents are dropped so "limón" and "limon" are the same word.
+const tokenize = (text: string) =>
+  (text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase().match(/\p{L}+/gu) ?? []).map(singular);
+
+// A letter from any script but Latin.
+const NON_LATIN_LETTER = /[^\P{L}\p{Script=Latin}]/u;
+
+const toPhrases = (list: string[]) => list.map(tokenize);
+
+const UNSAFE_PHRASES = toPhrases(UNSAFE);
+const NON_FOOD_PHRASES = toPhrases(NON_FOOD);
+// Every food word and dictionary name. A Latin-script name has to contain one,
+// or be a near miss of a dictionary name, to be used.
+const FOOD_PHRASES = toPhrases([
+  ...FOOD_WORDS,
+  ...INGREDIENT_DICTIONARY.flatMap(({ name, synonyms }) => [name, ...synonyms]),
+]);
+
+const containsPhrase = (words: string[], phrases: string[][]) =>
+  phrases.some(
+    (phrase) =>
+      phrase.length > 0 &&
+      words.some((_, start) => phrase.every((word, offset) => words[start + offset] === word))
+  );
+
+/** Drops invisible and control characters and collapses whitespace. */
+export function cleanIngredientName(text: string): string {
+  return text
+    .normalize("NFKC")
+    .replace(/\p{Cf}/gu, "")
+    .replace(/\p{Cc}/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Why a single cleaned-up name can't be used, or null when it can. */
+export function checkIngredientName(name: string): RejectionReason | null {
+  if (name.length > MAX_INGREDIENT_LENGTH) return "too-long";
+  if (!ALLOWED_CHARACTERS.test(name)) return "characters";
+
+  const lower = name.toLowerCase();
+  if (INSTRUCTION_PATTERNS.some((pattern) => pattern.test(lower))) return "instructions";
+
+  const words = tokenize(name);
+  if (containsPhrase(words, UNSAFE_PHRASES)) return "unsafe";
+  if (NON_FOOD_HEADS.has(words[words.length - 1])) return "not-food";
+
+  if (containsPhrase(words, FOOD_PHRASES)) return null;
+  if (containsPhrase(words, NON_FOOD_PHRASES) || words.length > MAX_WORDS_WITHOUT_FOOD) return "not-food";
+  // Only names in other scripts, which the lexicon can't vouch for, get the benefit of the doubt.
+  if (NON_LATIN_LETTER.test(name)) return null;
+  return suggestCorrection(name) !== null ? null : "unknown";
+}
+
+/**
+ * Splits what the client sent into names that can go in a prompt and the ones
+ * that can't, each with the reason. Non-strings and blank entries are dropped.
+ */
+export function screenIngredients(input: unknown): IngredientScreening {
+  const accepted: string[] = [];
+  const rejected: RejectedIngredient[] = [];
+  const reject = (item: string, reason: RejectionReason) =>
+    rejected.push({ item, reason, message: REJECTION_MESSAGES[reason] });
+
+  for (const item of Array.isArray(input) ? input : []) {
+    if (typeof item !== "string") continue;
+    const name = cleanIngredientName(item);
+    if (!name) continue;
+
+    const reason = checkIngredientName(name);
+    if (reason) {
+      reject(item, reason);
+    } else if (accepted.length >= MAX_INGREDIENTS) {
+      reject(item, "too-many");
+    } else {
+      accepted.push(name);
+    }
+  }
+
+  return { accepted, rejected };
+}
+
+/** Reads the `rejected` list out of an error response, dropping anything malformed. */
+export function normalizeRejectedIngredients(input: unknown): RejectedIngredient[] {
+  if (!Array.isArray(input)) return [];
+  return input.flatMap((entry) => {
+    const { item, reason } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof item !== "string" || typeof reason !== "string" || !(reason in REJECTION_MESSAGES)) return [];
+    return [{ item, reason: reason as RejectionReason, message: REJECTION_MESSAGES[reason as RejectionReason] }];
+  });
+}
@@ -0,0 +1,139 @@
+// Pasted ingredient lists and sentences ("2 chicken breasts, half a bag of
+// spinach and some feta") split into separate ingredients, and the amounts the
+// cook says they have of each.
+
+import { formatQuantity, formatUnit, knownUnit, parseIngredientLine } from "./ingredients.ts";
+import { canonicalIngredient, ingredientKey, suggestCorrection } from "./ingredient-dictionary.ts";
+
+export interface Amount {
+  quantity: number;
+  unit: string | null;
+}
+
+/** Keyed by ingredient name as it appears in the ingredient list. */
+export type AmountMap = Record<string, Amount>;
+
+export interface ParsedIngredient {
+  /** The dictionary name when there is one, otherwise the text as written. */
+  name: string;
+  amount: Amount | null;
+  /** Whether the dictionary knows the name. */
+  known: boolean;
+  /** A likely intended name for an unknown one, e.g. "broccoli" for "brocoli". */
+  correction: string | null;
+  /** Kept whole despite an "and" in it, so it may be one dish or several ingredients. */
+  needsReview: boolean;
+  /** The part of the pasted text it was read from. */
+  source: string;
+}
+
+// Anything longer is not a fridge's worth of ingredients.
+export const MAX_PASTE_LENGTH = 2000;
+
+// Lists split on new lines, commas, semicolons, bullets and full stops (but not "2.5").
+const SEPARATORS = /\r?\n|[,;•]|\.(?=\s|$)/;
+const CONJUNCTIONS = /\s+(?:and|&|plus)\s+/i;
+
+const LIST_MARKER = /^(?:[-*·]|\d+[.)])\s+/;
+
+// Openers that say nothing about the ingredient: "I've got", "some", "a bit of", "leftover".
+const FILLER =
+  /^(?:(?:i|we)(?:'ve|\s+have)?(?:\s+got)?\s+|there(?:'s|\s+is|\s+are)\s+|also\s+|some\s+|any\s+|a\s+few\s+|a\s+little\s+|a\s+bit\s+of\s+|a\s+lot\s+of\s+|lots\s+of\s+|plenty\s+of\s+|leftover\s+)+/i;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12,
+};
+
+// Spelled-out amounts rewritten as numbers so the line parser can read them.
+const spellOutNumbers = (text: string) =>
+  text
+    .replace(/^half\s+an?\s+dozen\b/i, "6")
+    .replace(/^(?:an?|one)\s+dozen\b/i, "12")
+    .replace(/^(\d+)\s+dozen\b/i, (_, count: string) => String(Number(count) * 12))
+    .replace(/^(?:a\s+)?couple\s+(?:of\s+)?/i, "2 ")
+    .replace(/^(?:a\s+)?half\s+(?:(?:a|an)\s+)?(?:of\s+)?/i, "0.5 ")
+    .replace(/^(?:a\s+)?quarter\s+(?:(?:a|an)\s+)?(?:of\s+)?/i, "0.25 ")
+    .replace(/^([a-z]+)\b/i, (word: string) => String(NUMBER_WORDS[word.toLowerCase()] ?? word));
+
+const readFragment = (source: string): ParsedIngredient | null => {
+  const text = spellOutNumbers(source.replace(LIST_MARKER, "").replace(FILLER, "").trim());
+  const line = parseIngredientLine(text);
+  const name = line.item.replace(/^of\s+/i, "").replace(/[.!?]+$/, "").trim();
+  // A bare number, or a line parseIngredientLine had to give back whole.
+  if (!name || /^[\d\s./¼½¾⅓⅔⅛-]+$/.test(name)) return null;
+
+  const canonical = canonicalIngredient(name);
+  return {
+    name: canonical ?? name,
+    amount: line.quantity !== null && line.quantity > 0 ? { quantity: line.quantity, unit: line.unit } : null,
+    known: canonical !== null,
+    correction: canonical ? null : suggestCorrection(name),
+    needsReview: false,
+    source,
+  };
+};
+
+// "and" splits a piece only when every part is a known ingredient: "spinach and
+// feta" is two, but "mac and cheese" stays whole, flagged for the cook to check.
+const readPiece = (piece: string): ParsedIngredient[] => {
+  const whole = readFragment(piece);
+  const parts = piece.split(CONJUNCTIONS);
+  if (parts.length === 1 || whole?.known) return whole ? [whole] : [];
+
+  const read = parts.map((part) => readFragment(part.trim()));
+  if (read.every((part) => part?.known)) return read as ParsedIngredient[];
+  return whole ? [{ ...whole, correction: null, needsReview: true }] : [];
+};
+
+/**
+ * Splits free text into ingredients, then pieces joined by "and" into their
+ * parts when the dictionary knows them all. Repeats of the same ingredient are
+ * dropped, keeping the first.
+ */
+export function parseIngredientList(text: string): ParsedIngredient[] {
+  const pieces = text
+    .slice(0, MAX_PASTE_LENGTH)
+    .split(SEPARATORS)
+    .map((piece) => piece.trim())
+    .filter(Boolean);
+
+  const seen = new Set<string>();
+  return pieces.flatMap(readPiece).filter((parsed) => {
+    const key = ingredientKey(parsed.name);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/** "½ bag", "2", "300 g". */
+export function formatAmount({ quantity, unit }: Amount): string {
+  return [formatQuantity(quantity), formatUnit(unit, quantity)].filter(Boolean).join(" ");
+}
+
+/**
+ * Keeps positive amounts for ingredients that are actually in the list. Units
+ * end up in the prompt, so anything but a known unit is dropped.
+ */
+export function normalizeAmounts(input: unknown, ingredients: unknown): AmountMap {
+  if (typeof input !== "object" || input === null || !Array.isArray(ingredients)) return {};
+  const entries = input as Record<string, unknown>;
+  const amounts: AmountMap = {};
+
+  for (const name of ingredients) {
+    const entry = typeof name === "string" ? entries[name] : null;
+    if (typeof entry !== "object" || entry === null) continue;
+    const { quantity, unit } = entry as Record<string, unknown>;
+    if (typeof quantity !== "number" || !Number.isFinite(quantity) || quantity <= 0) continue;
+    amounts[name as string] = { quantity, unit: typeof unit === "string" ? knownUnit(unit) : null };
+  }
+  return amounts;
+}
+
+/** One line per ingredient for the model prompt. */
+export function describeAmounts(amounts: AmountMap): string {
+  return Object.entries(amounts)
+    .map(([name, amount]) => `- ${name}: ${formatAmount(amount)}`)
+    .join("\n");
+}
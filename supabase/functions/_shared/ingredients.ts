@@ -0,0 +1,219 @@
+// Structured ingredient lines shared by the edge functions and the web client.
+
+import { escapeRegExp } from "./keywords.ts";
+
+export interface IngredientLine {
+  quantity: number | null;
+  unit: string | null;
+  item: string;
+  preparation: string | null;
+  optional: boolean;
+  /** The item's English name when `item` is in another language. */
+  english?: string;
+}
+
+// Canonical unit -> spellings the model (or older saved recipes) may use.
+const UNIT_ALIASES: Record<string, string[]> = {
+  tsp: ["tsp", "tsps", "teaspoon", "teaspoons", "t"],
+  tbsp: ["tbsp", "tbsps", "tablespoon", "tablespoons", "tbs", "tbl", "T"],
+  cup: ["cup", "cups", "c"],
+  "fl oz": ["fl oz", "fluid ounce", "fluid ounces"],
+  ml: ["ml", "milliliter", "milliliters", "millilitre", "millilitres"],
+  l: ["l", "liter", "liters", "litre", "litres"],
+  g: ["g", "gram", "grams", "gr"],
+  kg: ["kg", "kilogram", "kilograms", "kilo", "kilos"],
+  oz: ["oz", "ounce", "ounces"],
+  lb: ["lb", "lbs", "pound", "pounds"],
+  pinch: ["pinch", "pinches"],
+  dash: ["dash", "dashes"],
+  clove: ["clove", "cloves"],
+  can: ["can", "cans", "tin", "tins"],
+  slice: ["slice", "slices"],
+  piece: ["piece", "pieces", "pc", "pcs"],
+  bunch: ["bunch", "bunches"],
+  handful: ["handful", "handfuls"],
+  sprig: ["sprig", "sprigs"],
+  stick: ["stick", "sticks"],
+  package: ["package", "packages", "pkg", "packet", "packets"],
+  bag: ["bag", "bags"],
+  box: ["box", "boxes"],
+  jar: ["jar", "jars"],
+  bottle: ["bottle", "bottles"],
+  carton: ["carton", "cartons"],
+  tub: ["tub", "tubs"],
+  head: ["head", "heads"],
+  loaf: ["loaf", "loaves"],
+};
+
+const UNIT_LOOKUP = new Map<string, string>();
+for (const [unit, aliases] of Object.entries(UNIT_ALIASES)) {
+  for (const alias of aliases) {
+    // "T" and "t" are the only case-sensitive abbreviations.
+    UNIT_LOOKUP.set(alias.length === 1 ? alias : alias.toLowerCase(), unit);
+  }
+}
+
+// Longest first so "fl oz" wins over "oz".
+const UNIT_PATTERN = [...UNIT_LOOKUP.keys()]
+  .sort((a, b) => b.length - a.length)
+  .map((alias) => alias.replace(/ /g, "\\s+"))
+  .join("|");
+
+// Units a parenthesized package size can come before, as in "1 (14 oz) can".
+const CONTAINER_UNITS = new Set(["can", "jar", "package", "bag", "box", "bottle", "carton", "tub"]);
+const CONTAINER_PATTERN = [...UNIT_LOOKUP]
+  .filter(([alias, unit]) => CONTAINER_UNITS.has(unit) && alias.length > 1)
+  .map(([alias]) => alias)
+  .join("|");
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "¼": 0.25, "½": 0.5, "¾": 0.75, "⅓": 1 / 3, "⅔": 2 / 3, "⅛": 0.125,
+};
+
+const QUANTITY_PATTERN = String.raw`(?:\d+\s+\d+\/\d+|\d+\/\d+|\d*\.?\d+\s*[¼½¾⅓⅔⅛]?|[¼½¾⅓⅔⅛])`;
+
+const LINE_PATTERN = new RegExp(
+  String.raw`^(?<quantity>${QUANTITY_PATTERN})(?:\s*(?:-|–|to)\s*${QUANTITY_PATTERN})?\s*(?:\((?<size>[^()]+)\)\s*(?=(?:${CONTAINER_PATTERN})\b))?(?:(?<unit>${UNIT_PATTERN})\.?(?=\s|$))?\s*(?:of\s+)?(?<rest>.*)$`,
+  "i",
+);
+
+/** The canonical unit for a known spelling, or null for anything else. */
+export function knownUnit(unit: string | null | undefined): string | null {
+  const trimmed = unit?.trim().replace(/\.$/, "");
+  if (!trimmed) return null;
+  return UNIT_LOOKUP.get(trimmed) ?? UNIT_LOOKUP.get(trimmed.toLowerCase()) ?? null;
+}
+
+export function normalizeUnit(unit: string | null | undefined): string | null {
+  const trimmed = unit?.trim().replace(/\.$/, "");
+  if (!trimmed) return null;
+  return knownUnit(trimmed) ?? trimmed.toLowerCase();
+}
+
+/** Parses "1 1/2", "½", "2.5" or "3¼" into a number. */
+export function parseQuantity(text: string): number | null {
+  const value = text.trim();
+  if (!value) return null;
+
+  const mixed = value.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[2]) === 0 ? null : Number(fraction[1]) / Number(fraction[2]);
+
+  const unicode = value.match(/^(\d*\.?\d*)\s*([¼½¾⅓⅔⅛])$/);
+  if (unicode) return Number(unicode[1] || 0) + UNICODE_FRACTIONS[unicode[2]];
+
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Best-effort parser for legacy free-text lines such as
+ * "2 cups onions, finely chopped (optional)" or "1 (14 oz) can tomatoes".
+ */
+export function parseIngredientLine(text: string): IngredientLine {
+  let rest = text.trim();
+
+  const optional = /\(?\boptional\b\)?/i.test(rest);
+  rest = rest.replace(/\s*\(?\boptional\b\)?\s*/gi, " ").trim();
+
+  let quantity: number | null = null;
+  let unit: string | null = null;
+
+  const indefinite = rest.match(/^an?\s+(?=\S)/i);
+  const match = (indefinite ? `1 ${rest.slice(indefinite[0].length)}` : rest).match(LINE_PATTERN);
+  if (match?.groups) {
+    quantity = parseQuantity(match.groups.quantity);
+    unit = normalizeUnit(match.groups.unit);
+    rest = match.groups.rest.trim();
+  }
+
+  // The package size describes each container, so it stays out of the quantity.
+  let preparation: string | null = match?.groups?.size ? `${match.groups.size.trim()} each` : null;
+  const comma = rest.indexOf(",");
+  if (comma !== -1) {
+    preparation = [preparation, rest.slice(comma + 1).trim()].filter(Boolean).join(", ") || null;
+    rest = rest.slice(0, comma).trim();
+  }
+  const parenthetical = rest.match(/\s*\(([^)]*)\)\s*$/);
+  if (parenthetical) {
+    preparation = [parenthetical[1].trim(), preparation].filter(Boolean).join(", ") || null;
+    rest = rest.slice(0, parenthetical.index).trim();
+  }
+  const toTaste = rest.match(/\s+to taste$/i);
+  if (toTaste) {
+    preparation = ["to taste", preparation].filter(Boolean).join(", ");
+    rest = rest.slice(0, toTaste.index).trim();
+  }
+
+  return { quantity, unit, item: rest || text.trim(), preparation, optional };
+}
+
+const FRACTION_GLYPHS: [number, string][] = [
+  [1 / 8, "⅛"], [1 / 4, "¼"], [1 / 3, "⅓"], [1 / 2, "½"], [2 / 3, "⅔"], [3 / 4, "¾"],
+];
+
+/** Common kitchen fractions as glyphs ("1½", "⅓"), anything else to two decimals. */
+export function formatQuantity(quantity: number): string {
+  const whole = Math.floor(quantity);
+  const glyph = FRACTION_GLYPHS.find(([value]) => Math.abs(quantity - whole - value) < 0.01)?.[1];
+  if (glyph) return whole > 0 ? `${whole}${glyph}` : glyph;
+  return String(Math.round(quantity * 100) / 100);
+}
+
+// Word units read better pluralized; abbreviations like "g" or "tsp" do not change.
+const PLURAL_UNITS: Record<string, string> = {
+  cup: "cups", pinch: "pinches", dash: "dashes", clove: "cloves", can: "cans", slice: "slices",
+  piece: "pieces", bunch: "bunches", handful: "handfuls", sprig: "sprigs", stick: "sticks",
+  package: "packages", bag: "bags", box: "boxes", jar: "jars", bottle: "bottles", carton: "cartons",
+  tub: "tubs", head: "heads", loaf: "loaves",
+};
+
+export function formatUnit(unit: string | null, quantity: number | null): string | null {
+  if (!unit) return null;
+  return quantity !== null && quantity > 1 ? PLURAL_UNITS[unit] ?? unit : unit;
+}
+
+export function formatIngredient(line: IngredientLine): string {
+  const amount = [line.quantity !== null ? formatQuantity(line.quantity) : null, formatUnit(line.unit, line.quantity)]
+    .filter(Boolean)
+    .join(" ");
+  const base = [amount, line.item].filter(Boolean).join(" ");
+  const prepared = line.preparation ? `${base}, ${line.preparation}` : base;
+  return line.optional ? `${prepared} (optional)` : prepared;
+}
+
+/** The name to look up in the English-keyed tables and keyword checks. */
+export const englishItem = (line: Pick<IngredientLine, "item" | "english">): string => line.english ?? line.item;
+
+/** Every name a line goes by, for matching names the user typed in either language. */
+export const itemNames = (line: Pick<IngredientLine, "item" | "english">): string[] =>
+  line.english ? [line.item, line.english] : [line.item];
+
+const NAME_PATTERNS = new WeakMap<object, { key: string; pattern: RegExp }[]>();
+
+/**
+ * Finds the entry of a name-keyed table that an ingredient item refers to,
+ * allowing plurals. The name ending last wins, since the head noun comes last
+ * ("chicken broth" is broth), then the longest ("peanut butter" over "butter").
+ * With `headOnly`, only names at the very end count ("rice vinegar" is not rice).
+ */
+export function lookupIngredient<T>(item: string, table: Record<string, T>, headOnly = false): T | null {
+  let patterns = NAME_PATTERNS.get(table);
+  if (!patterns) {
+    patterns = Object.keys(table).map((key) => ({ key, pattern: new RegExp(`\\b${escapeRegExp(key)}(?:e?s)?\\b`) }));
+    NAME_PATTERNS.set(table, patterns);
+  }
+
+  const text = item.toLowerCase().trim();
+  let best: { key: string; end: number } | null = null;
+  for (const { key, pattern } of patterns) {
+    const match = pattern.exec(text);
+    if (!match) continue;
+    const end = match.index + match[0].length;
+    if (headOnly && end !== text.length) continue;
+    if (!best || end > best.end || (end === best.end && key.length > best.key.length)) best = { key, end };
+  }
+  return best ? table[best.key] : null;
+}
@@ -0,0 +1,30 @@
+// Whole-word keyword matching shared by the dietary, equipment and ingredient checks.
+
+export interface KeywordRule {
+  /** Base forms; `findKeyword` also matches their inflections. */
+  keywords: string[];
+  /** Phrases that contain a keyword but mean something else, e.g. "coconut milk" or "dutch oven". */
+  safe?: string[];
+}
+
+/**
+ * Which endings a keyword may take: plurals ("sausages", "cheeses"), or for
+ * verbs also the past and -ing forms ("baked", "baking", "broiled").
+ */
+export type Inflection = "plural" | "verb";
+
+export const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const inflected = (keyword: string, inflection: Inflection): string => {
+  const escaped = escapeRegExp(keyword);
+  if (inflection === "plural") return `${escaped}(?:e?s)?`;
+  // "bake" -> "bakes", "baked", "baking"; "broil" -> "broils", "broiled", "broiling".
+  return keyword.endsWith("e") ? `${escaped.slice(0, -1)}(?:e[sd]?|ing)` : `${escaped}(?:e?s|ed|ing)?`;
+};
+
+/** The first keyword of the rule found in the text, ignoring its safe phrases. */
+export function findKeyword(text: string, { keywords, safe = [] }: KeywordRule, inflection: Inflection = "plural"): string | null {
+  let haystack = text.toLowerCase();
+  for (const phrase of safe) haystack = haystack.split(phrase).join(" ");
+  return keywords.find((keyword) => new RegExp(`\\b${inflected(keyword, inflection)}\\b`).test(haystack)) ?? null;
+}
@@ -0,0 +1,138 @@
+// Languages recipes can be written in, and translating an existing recipe
+// without touching its structured quantities.
+
+import type { Recipe, RecipeFieldError } from "./recipe.ts";
+
+export const LANGUAGES = ["en", "es", "hi", "fr", "de", "it", "pt", "zh", "ja", "ar"] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+/** English names, for the model prompt. */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  es: "Spanish",
+  hi: "Hindi",
+  fr: "French",
+  de: "German",
+  it: "Italian",
+  pt: "Portuguese",
+  zh: "Simplified Chinese",
+  ja: "Japanese",
+  ar: "Arabic",
+};
+
+/** Each language's name for itself, for pickers. */
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  en: "English",
+  es: "Español",
+  hi: "हिन्दी",
+  fr: "Français",
+  de: "Deutsch",
+  it: "Italiano",
+  pt: "Português",
+  zh: "中文",
+  ja: "日本語",
+  ar: "العربية",
+};
+
+/** Returns null for anything that isn't a supported language code. */
+export function normalizeLanguage(input: unknown): Language | null {
+  return LANGUAGES.find((language) => language === input) ?? null;
+}
+
+/** Matches a BCP 47 tag such as "es-MX" or "hi" on its primary subtag. */
+export function languageFromLocale(locale: string | null | undefined): Language | null {
+  return normalizeLanguage(locale?.split(/[-_]/)[0].toLowerCase());
+}
+
+/**
+ * Prompt lines for writing a recipe in `language`. Units, difficulty,
+ * technique and equipment stay in English because the app parses them, and
+ * each ingredient keeps an English name for the dietary and pantry checks.
+ */
+export function describeLanguage(language: Language): string {
+  return [
+    `- Write "name", every ingredient "item" and "preparation", and every instruction in ${LANGUAGE_NAMES[language]}`,
+    '- Keep the JSON keys, "unit", "difficulty", "technique" and "equipment" in English exactly as specified',
+    '- Give every ingredient an extra "english" field with its plain English name, e.g. "basmati rice"',
+  ].join("\n");
+}
+
+/** The parts of a recipe a translation replaces; everything else is kept from the original. */
+export interface RecipeText {
+  name: string;
+  ingredients: { item: string; preparation: string | null }[];
+  instructions: string[];
+}
+
+export function recipeText({ name, ingredients, instructions }: Recipe): RecipeText {
+  return {
+    name,
+    ingredients: ingredients.map(({ item, preparation }) => ({ item, preparation })),
+    instructions,
+  };
+}
+
+export type TranslationResult =
+  | { ok: true; recipe: Recipe }
+  | { ok: false; errors: RecipeFieldError[] };
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === "string" && value.trim() !== "";
+
+/**
+ * Puts translated text onto the original recipe. The translation must line up
+ * with the original one-to-one so quantities stay on the right ingredient.
+ * Lines keep the English name they had, or take the original item when the
+ * original was English.
+ */
+export function applyTranslation(recipe: Recipe, input: unknown, language: Language): TranslationResult {
+  if (typeof input !== "object" || input === null) {
+    return { ok: false, errors: [{ field: "$", message: "Expected a JSON object" }] };
+  }
+  const { name, ingredients, instructions } = input as Record<string, unknown>;
+  const errors: RecipeFieldError[] = [];
+
+  if (!isNonEmptyString(name)) errors.push({ field: "name", message: "Must be a non-empty string" });
+
+  if (!Array.isArray(ingredients) || ingredients.length !== recipe.ingredients.length) {
+    errors.push({ field: "ingredients", message: `Must list exactly ${recipe.ingredients.length} ingredients, in the original order` });
+  } else {
+    ingredients.forEach((line, index) => {
+      if (!isNonEmptyString((line as Record<string, unknown> | null)?.item)) {
+        errors.push({ field: `ingredients[${index}].item`, message: "Must be a non-empty string" });
+      }
+    });
+  }
+
+  if (
+    !Array.isArray(instructions) ||
+    instructions.length !== recipe.instructions.length ||
+    !instructions.every(isNonEmptyString)
+  ) {
+    errors.push({ field: "instructions", message: `Must list exactly ${recipe.instructions.length} non-empty steps, in the original order` });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  const lines = ingredients as { item: string; preparation?: unknown }[];
+  return {
+    ok: true,
+    recipe: {
+      ...recipe,
+      name: (name as string).trim(),
+      ingredients: recipe.ingredients.map(({ english, ...line }, index) => {
+        const englishName = english ?? ((recipe.language ?? DEFAULT_LANGUAGE) === "en" ? line.item : undefined);
+        return {
+          ...line,
+          item: lines[index].item.trim(),
+          preparation: isNonEmptyString(lines[index].preparation) ? lines[index].preparation.trim() : null,
+          ...(language !== "en" && englishName && { english: englishName }),
+        };
+      }),
+      instructions: (instructions as string[]).map((step) => step.trim()),
+      language,
+    },
+  };
+}
@@ -0,0 +1,238 @@
+// Offline AI provider for development and tests. It reads the ingredient list
+// (or the recipe to refine, the line to substitute or the text to translate)
+// from the conversation and answers with fixtures, so the same request always
+// produces the same output.
+
+import type { AiProvider, ChatMessage } from "./ai.ts";
+import type { IngredientLine } from "./ingredients.ts";
+import type { RecipeText } from "./language.ts";
+import type { Difficulty, Recipe } from "./recipe.ts";
+
+interface Template {
+  technique: string;
+  difficulty: Difficulty;
+  times: { prep: number; cook: number; rest: number };
+  equipment: string[];
+  name: (main: string) => string;
+  steps: (items: string) => string[];
+}
+
+const TEMPLATES: Template[] = [
+  {
+    technique: "stir-fry",
+    difficulty: "Easy",
+    times: { prep: 10, cook: 10, rest: 0 },
+    equipment: ["stovetop", "wok"],
+    name: (main) => `Quick ${main} Stir-Fry`,
+    steps: (items) => [
+      `Cut ${items} into bite-sized pieces.`,
+      "Heat the oil in a wok or large pan over high heat.",
+      "Stir-fry everything for 6-8 minutes until just cooked.",
+      "Season with salt and pepper and serve hot.",
+    ],
+  },
+  {
+    technique: "bake",
+    difficulty: "Medium",
+    times: { prep: 10, cook: 30, rest: 5 },
+    equipment: ["oven", "baking dish"],
+    name: (main) => `Golden Baked ${main}`,
+    steps: (items) => [
+      "Preheat the oven to 200°C (400°F).",
+      `Toss ${items} with the oil, salt and pepper in a baking dish.`,
+      "Bake for 30-35 minutes, turning halfway, until golden.",
+      "Rest for 5 minutes before serving.",
+    ],
+  },
+  {
+    technique: "soup",
+    difficulty: "Easy",
+    times: { prep: 10, cook: 25, rest: 0 },
+    equipment: ["stovetop", "large pot"],
+    name: (main) => `Hearty ${main} Soup`,
+    steps: (items) => [
+      `Chop ${items}.`,
+      "Soften everything in the oil in a large pot for 5 minutes.",
+      "Add the water, bring to a boil and simmer for 20 minutes.",
+      "Season to taste and serve.",
+    ],
+  },
+  {
+    technique: "salad",
+    difficulty: "Easy",
+    times: { prep: 15, cook: 0, rest: 0 },
+    equipment: ["mixing bowl"],
+    name: (main) => `Fresh ${main} Salad`,
+    steps: (items) => [
+      `Prepare ${items}, cooking any that cannot be eaten raw.`,
+      "Whisk the oil with salt and pepper to make a dressing.",
+      "Toss everything with the dressing and serve.",
+    ],
+  },
+  {
+    technique: "braise",
+    difficulty: "Hard",
+    times: { prep: 15, cook: 75, rest: 0 },
+    equipment: ["stovetop", "heavy pot"],
+    name: (main) => `Slow-Braised ${main}`,
+    steps: (items) => [
+      `Brown ${items} in the oil in a heavy pot.`,
+      "Add the water, cover and cook on low heat for 75 minutes.",
+      "Uncover and reduce the liquid until glossy.",
+      "Season and serve.",
+    ],
+  },
+];
+
+const STAPLES: IngredientLine[] = [
+  { quantity: 2, unit: "tbsp", item: "olive oil", preparation: null, optional: false },
+  { quantity: null, unit: null, item: "salt", preparation: "to taste", optional: false },
+  { quantity: null, unit: null, item: "black pepper", preparation: "to taste", optional: false },
+];
+
+// FNV-1a; only needs to be stable, not strong.
+const hash = (text: string) => {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+};
+
+const titleCase = (text: string) => text.replace(/\b\w/g, (char) => char.toUpperCase());
+
+const buildRecipe = (ingredients: string[], template: Template, seed: number): Recipe => {
+  const items = ingredients.length > 0 ? ingredients : ["seasonal vegetables"];
+  const lines: IngredientLine[] = items.map((item, index) => ({
+    quantity: 100 + ((seed >>> index) % 4) * 50,
+    unit: "g",
+    item,
+    preparation: null,
+    optional: false,
+  }));
+  const staples = template.technique === "soup"
+    ? [...STAPLES, { quantity: 1, unit: "l", item: "water", preparation: null, optional: false }]
+    : STAPLES;
+
+  return {
+    name: template.name(titleCase(items[0])),
+    prepTime: template.times.prep,
+    cookTime: template.times.cook,
+    restTime: template.times.rest,
+    totalTime: template.times.prep + template.times.cook + template.times.rest,
+    difficulty: template.difficulty,
+    servings: 2 + (seed % 3),
+    macros: {
+      calories: 300 + (seed % 300),
+      protein: 10 + (seed % 30),
+      carbs: 20 + (seed % 40),
+      fats: 8 + (seed % 20),
+      fiber: 2 + (seed % 8),
+      sugar: 3 + (seed % 12),
+      saturatedFat: 2 + (seed % 6),
+      sodium: 300 + (seed % 500),
+      cholesterol: seed % 120,
+      vitaminD: (seed % 40) / 10,
+      calcium: 50 + (seed % 200),
+      iron: 1 + (seed % 5),
+      potassium: 300 + (seed % 500),
+    },
+    ingredients: [...lines, ...staples],
+    instructions: template.steps(items.join(", ")),
+    technique: template.technique,
+    equipment: template.equipment,
+  };
+};
+
+// Builds the reply text for whatever the conversation asks for.
+const respond = (messages: ChatMessage[]): string => {
+  const request = messages.find((message) => message.role === "user")?.content ?? "";
+
+  const refinement = request.match(/Current recipe:\n(.*)\n[\s\S]*Change request: (.*)$/);
+  if (refinement) {
+    const recipe = JSON.parse(refinement[1]) as Recipe;
+    const change = refinement[2].trim();
+    return JSON.stringify({
+      summary: `Mock provider: applied "${change}" as an extra step.`,
+      recipe: { ...recipe, instructions: [...recipe.instructions, `Adjust to taste: ${change}.`] },
+    });
+  }
+
+  const substitution = request.match(/Substitute for: (.*)$/);
+  if (substitution) {
+    const original = substitution[1].trim();
+    return JSON.stringify({
+      substitutions: [{
+        name: "mock substitute",
+        ingredients: [{ quantity: null, unit: null, item: `mock substitute for ${original}`, preparation: null, optional: false }],
+        note: "Mock provider: use about as much as the original.",
+      }],
+    });
+  }
+
+  const translation = request.match(/Translate into (.*):\n(.*)$/);
+  if (translation) {
+    const text = JSON.parse(translation[2]) as RecipeText;
+    return JSON.stringify({ ...text, name: `${text.name} (${translation[1]})` });
+  }
+
+  const generation = request.match(/Create (?:a recipe|(\d+) recipes) using these ingredients: (.*)/);
+  const ingredients = (generation?.[2] ?? "")
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean)
+    .sort();
+  const seed = hash(ingredients.join("|"));
+  const count = Number(generation?.[1] ?? 1);
+
+  const recipes = Array.from({ length: count }, (_, index) =>
+    buildRecipe(ingredients, TEMPLATES[(seed + index) % TEMPLATES.length], seed + index),
+  );
+  return JSON.stringify(count > 1 ? { recipes } : recipes[0]);
+};
+
+const CHUNK_SIZE = 48;
+
+export const createMockProvider = (): AiProvider => ({
+  name: "mock",
+  model: "mock-fixtures",
+  async complete(messages, { stream = false, signal } = {}) {
+    const content = respond(messages);
+
+    if (!stream) {
+      return new Response(JSON.stringify({ choices: [{ message: { role: "assistant", content } }] }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const encoder = new TextEncoder();
+    // Set when the reader goes away; enqueueing after that throws.
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        // Ends the stream the way an aborted fetch does; false while it should keep going.
+        const stopped = () => {
+          if (cancelled) return true;
+          if (!signal?.aborted) return false;
+          controller.error(signal.reason ?? new DOMException("The request was aborted.", "AbortError"));
+          return true;
+        };
+        for (let i = 0; i < content.length; i += CHUNK_SIZE) {
+          if (stopped()) return;
+          const chunk = { choices: [{ delta: { content: content.slice(i, i + CHUNK_SIZE) } }] };
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+          // A short pause so the client visibly streams, as with a real model.
+          await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        if (stopped()) return;
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+  },
+});
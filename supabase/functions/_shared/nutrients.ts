@@ -0,0 +1,282 @@
+// Nutrition computed from the recipe's own ingredient quantities, so the
+// numbers don't rest on whatever the model says. Values are USDA-style
+// reference figures per 100 g of the ingredient as bought (raw, dry or drained).
+
+import { englishItem, lookupIngredient, type IngredientLine } from "./ingredients.ts";
+import type { Macros, Recipe } from "./recipe.ts";
+import { findDensity, G_PER_UNIT, ML_PER_UNIT } from "./units.ts";
+
+// [calories, protein g, carbs g, fats g] per 100 g.
+type Per100g = [number, number, number, number];
+
+interface Food {
+  per100g: Per100g;
+  /** Grams in one whole item ("2 eggs", "1 onion"). */
+  each?: number;
+  /** Grams per count unit such as "clove", "slice" or "can". */
+  units?: Record<string, number>;
+  /** Grams per millilitre, when the shared density table doesn't know the food. */
+  gPerMl?: number;
+}
+
+const HERB: Food = { per100g: [30, 2.5, 5, 0.6], units: { bunch: 60, handful: 10, sprig: 1 }, gPerMl: 0.1 };
+const SPICE: Food = { per100g: [300, 12, 60, 8], gPerMl: 0.5 };
+const CANNED_BEANS: Food = { per100g: [120, 7.5, 21, 1], units: { can: 240 }, gPerMl: 0.7 };
+
+const FOODS: Record<string, Food> = {
+  // Meat, fish and eggs
+  "chicken breast": { per100g: [120, 22.5, 0, 2.6], each: 200 },
+  "chicken thigh": { per100g: [121, 19.7, 0, 4.1], each: 110 },
+  chicken: { per100g: [143, 18.6, 0, 7.5] },
+  "ground beef": { per100g: [254, 17.2, 0, 20] },
+  beef: { per100g: [190, 20, 0, 12] },
+  "ground turkey": { per100g: [148, 19.7, 0, 7.7] },
+  turkey: { per100g: [114, 23.7, 0, 1.5] },
+  pork: { per100g: [196, 19, 0, 13] },
+  bacon: { per100g: [417, 13, 1.4, 40], units: { slice: 23 } },
+  sausage: { per100g: [301, 12, 2, 27], each: 75 },
+  ham: { per100g: [145, 21, 1.5, 5.5], units: { slice: 28 } },
+  salmon: { per100g: [208, 20, 0, 13], each: 170 },
+  tuna: { per100g: [116, 26, 0, 0.8], units: { can: 142 } },
+  shrimp: { per100g: [85, 20, 0, 0.5] },
+  cod: { per100g: [82, 18, 0, 0.7], each: 170 },
+  fish: { per100g: [100, 20, 0, 2], each: 170 },
+  egg: { per100g: [143, 12.6, 0.7, 9.5], each: 50 },
+  tofu: { per100g: [76, 8, 1.9, 4.8], units: { package: 400 } },
+
+  // Dairy
+  milk: { per100g: [61, 3.2, 4.8, 3.3] },
+  buttermilk: { per100g: [40, 3.3, 4.8, 0.9] },
+  "oat milk": { per100g: [48, 1, 6.7, 1.5] },
+  "soy milk": { per100g: [54, 3.3, 6.3, 1.8] },
+  "almond milk": { per100g: [15, 0.6, 0.6, 1.2] },
+  butter: { per100g: [717, 0.9, 0.1, 81], units: { stick: 113 } },
+  "heavy cream": { per100g: [340, 2.8, 2.7, 36] },
+  cream: { per100g: [340, 2.8, 2.7, 36] },
+  "sour cream": { per100g: [198, 2.4, 4.6, 19] },
+  "cream cheese": { per100g: [342, 6, 4, 34], units: { package: 226 } },
+  "greek yogurt": { per100g: [97, 9, 4, 5] },
+  yogurt: { per100g: [61, 3.5, 4.7, 3.3] },
+  cheese: { per100g: [403, 25, 1.3, 33], units: { slice: 21 } },
+  parmesan: { per100g: [431, 38, 4.1, 29] },
+  mozzarella: { per100g: [280, 28, 3.1, 17], gPerMl: 0.42 },
+  feta: { per100g: [264, 14, 4.1, 21], gPerMl: 0.6 },
+
+  // Grains, starches and baking
+  flour: { per100g: [364, 10, 76, 1] },
+  "whole wheat flour": { per100g: [340, 13, 72, 2.5], gPerMl: 0.51 },
+  "gluten-free flour": { per100g: [360, 7, 78, 1.5], gPerMl: 0.55 },
+  "brown rice": { per100g: [370, 7.9, 77, 2.9], gPerMl: 0.8 },
+  rice: { per100g: [365, 7.1, 80, 0.7] },
+  pasta: { per100g: [371, 13, 75, 1.5], gPerMl: 0.4 },
+  spaghetti: { per100g: [371, 13, 75, 1.5] },
+  noodle: { per100g: [384, 14, 71, 4.4], gPerMl: 0.3 },
+  bread: { per100g: [265, 9, 49, 3.2], units: { slice: 30 } },
+  tortilla: { per100g: [310, 8, 52, 8], each: 45 },
+  oats: { per100g: [389, 17, 66, 7] },
+  quinoa: { per100g: [368, 14, 64, 6] },
+  lentils: { per100g: [352, 25, 63, 1] },
+  breadcrumbs: { per100g: [395, 13, 72, 5.3] },
+  cornstarch: { per100g: [381, 0.3, 91, 0.1] },
+  sugar: { per100g: [387, 0, 100, 0] },
+  "brown sugar": { per100g: [380, 0.1, 98, 0] },
+  honey: { per100g: [304, 0.3, 82, 0] },
+  molasses: { per100g: [290, 0, 75, 0.1], gPerMl: 1.4 },
+  "maple syrup": { per100g: [260, 0, 67, 0] },
+  "cocoa powder": { per100g: [228, 20, 58, 14] },
+  chocolate: { per100g: [546, 4.9, 61, 31], gPerMl: 0.72 },
+  "baking powder": { per100g: [53, 0, 28, 0] },
+  "baking soda": { per100g: [0, 0, 0, 0] },
+  "cream of tartar": { per100g: [258, 0, 62, 0], gPerMl: 0.63 },
+  "vanilla extract": { per100g: [288, 0.1, 13, 0.1], gPerMl: 0.88 },
+
+  // Beans, nuts and seeds
+  chickpeas: CANNED_BEANS,
+  "black beans": CANNED_BEANS,
+  "kidney beans": CANNED_BEANS,
+  beans: CANNED_BEANS,
+  "peanut butter": { per100g: [588, 25, 20, 50] },
+  peanuts: { per100g: [567, 26, 16, 49], gPerMl: 0.6 },
+  almonds: { per100g: [579, 21, 22, 50] },
+  walnuts: { per100g: [654, 15, 14, 65] },
+  "sesame seeds": { per100g: [573, 18, 23, 50], gPerMl: 0.6 },
+  flaxseed: { per100g: [534, 18, 29, 42], gPerMl: 0.45 },
+
+  // Vegetables
+  "sweet potato": { per100g: [86, 1.6, 20, 0.1], each: 130 },
+  potato: { per100g: [77, 2, 17, 0.1], each: 213 },
+  "green onion": { per100g: [32, 1.8, 7.3, 0.2], each: 15, gPerMl: 0.4 },
+  onion: { per100g: [40, 1.1, 9.3, 0.1], each: 110, gPerMl: 0.65 },
+  shallot: { per100g: [72, 2.5, 17, 0.1], each: 40, gPerMl: 0.65 },
+  garlic: { per100g: [149, 6.4, 33, 0.5], units: { clove: 3 }, gPerMl: 0.6 },
+  ginger: { per100g: [80, 1.8, 18, 0.8], gPerMl: 0.6 },
+  "tomato paste": { per100g: [82, 4.3, 19, 0.5], gPerMl: 1.1, units: { can: 170 } },
+  tomato: { per100g: [18, 0.9, 3.9, 0.2], each: 123, units: { can: 400 }, gPerMl: 0.75 },
+  carrot: { per100g: [41, 0.9, 10, 0.2], each: 61, gPerMl: 0.55 },
+  celery: { per100g: [16, 0.7, 3, 0.2], each: 40, gPerMl: 0.5 },
+  "bell pepper": { per100g: [31, 1, 6, 0.3], each: 120, gPerMl: 0.6 },
+  broccoli: { per100g: [34, 2.8, 7, 0.4], gPerMl: 0.37 },
+  cauliflower: { per100g: [25, 1.9, 5, 0.3], gPerMl: 0.45 },
+  spinach: { per100g: [23, 2.9, 3.6, 0.4], units: { bunch: 340, handful: 30 } },
+  kale: { per100g: [49, 4.3, 8.8, 0.9], units: { bunch: 200, handful: 25 }, gPerMl: 0.28 },
+  lettuce: { per100g: [15, 1.4, 2.9, 0.2], gPerMl: 0.2 },
+  cabbage: { per100g: [25, 1.3, 6, 0.1], gPerMl: 0.37 },
+  mushroom: { per100g: [22, 3.1, 3.3, 0.3], each: 18, gPerMl: 0.3 },
+  zucchini: { per100g: [17, 1.2, 3.1, 0.3], each: 200, gPerMl: 0.5 },
+  cucumber: { per100g: [15, 0.7, 3.6, 0.1], each: 300, gPerMl: 0.5 },
+  eggplant: { per100g: [25, 1, 6, 0.2], each: 450, gPerMl: 0.35 },
+  corn: { per100g: [86, 3.3, 19, 1.4], each: 100 },
+  peas: { per100g: [81, 5.4, 14, 0.4] },
+  "green beans": { per100g: [31, 1.8, 7, 0.2], gPerMl: 0.45 },
+  avocado: { per100g: [160, 2, 8.5, 14.7], each: 150, gPerMl: 0.6 },
+
+  // Fruit
+  "lemon juice": { per100g: [22, 0.4, 6.9, 0.2], gPerMl: 1.03 },
+  "lime juice": { per100g: [25, 0.4, 8.4, 0.1], gPerMl: 1.03 },
+  lemon: { per100g: [29, 1.1, 9.3, 0.3], each: 84 },
+  lime: { per100g: [30, 0.7, 10.5, 0.2], each: 67 },
+  apple: { per100g: [52, 0.3, 14, 0.2], each: 182, gPerMl: 0.5 },
+  banana: { per100g: [89, 1.1, 23, 0.3], each: 118, gPerMl: 0.6 },
+  applesauce: { per100g: [68, 0.2, 17, 0.2], gPerMl: 1.05 },
+  berries: { per100g: [57, 0.7, 14, 0.3], gPerMl: 0.6 },
+  blueberries: { per100g: [57, 0.7, 14, 0.3], gPerMl: 0.6 },
+  strawberries: { per100g: [32, 0.7, 7.7, 0.3], gPerMl: 0.6 },
+
+  // Oils, sauces and liquids
+  "olive oil": { per100g: [884, 0, 0, 100] },
+  oil: { per100g: [884, 0, 0, 100] },
+  "coconut oil": { per100g: [892, 0, 0, 99] },
+  "coconut cream": { per100g: [330, 3.6, 6.7, 34.7], gPerMl: 1 },
+  "coconut milk": { per100g: [230, 2.3, 6, 24], units: { can: 400 } },
+  "soy sauce": { per100g: [53, 8, 4.9, 0.6] },
+  tamari: { per100g: [60, 10.5, 5.6, 0.1], gPerMl: 1.15 },
+  "nutritional yeast": { per100g: [325, 50, 36, 4], gPerMl: 0.25 },
+  vinegar: { per100g: [18, 0, 0.04, 0] },
+  mayonnaise: { per100g: [680, 1, 0.6, 75], gPerMl: 0.9 },
+  mustard: { per100g: [60, 3.7, 5.8, 3.3], gPerMl: 1.05 },
+  ketchup: { per100g: [101, 1, 27, 0.1], gPerMl: 1.15 },
+  broth: { per100g: [6, 1, 0.5, 0.2] },
+  stock: { per100g: [6, 1, 0.5, 0.2] },
+  wine: { per100g: [83, 0.1, 2.6, 0] },
+  water: { per100g: [0, 0, 0, 0] },
+
+  // Seasoning
+  salt: { per100g: [0, 0, 0, 0] },
+  "black pepper": { per100g: [251, 10, 64, 3.3], gPerMl: 0.5 },
+  cumin: SPICE,
+  "garlic powder": SPICE,
+  "onion powder": SPICE,
+  paprika: SPICE,
+  "chili powder": SPICE,
+  "chili flakes": SPICE,
+  cinnamon: SPICE,
+  oregano: SPICE,
+  thyme: SPICE,
+  basil: HERB,
+  parsley: HERB,
+  cilantro: HERB,
+  dill: HERB,
+  mint: HERB,
+};
+
+const PINCH_GRAMS = 0.3;
+
+function findFood(item: string): Food | null {
+  return lookupIngredient(item, FOODS);
+}
+
+/** Weight of an ingredient line in grams, or null when it can't be worked out. */
+const gramsOf = (line: IngredientLine, food: Food): number | null => {
+  const { quantity, unit } = line;
+  if (quantity === null) return null;
+  if (!unit || unit === "piece") return food.each ? quantity * food.each : null;
+  if (unit in G_PER_UNIT) return quantity * G_PER_UNIT[unit];
+  if (unit in ML_PER_UNIT) {
+    const gPerMl = food.gPerMl ?? findDensity(englishItem(line))?.gPerMl ?? 1;
+    return quantity * ML_PER_UNIT[unit] * gPerMl;
+  }
+  if (unit === "pinch" || unit === "dash") return quantity * PINCH_GRAMS;
+  return food.units?.[unit] ? quantity * food.units[unit] : null;
+};
+
+export interface NutritionEstimate {
+  /** Per serving, from the ingredient lines that could be weighed. */
+  macros: Macros;
+  /** Ingredient lines with an amount ("to taste" lines carry no nutrition to count). */
+  counted: number;
+  /** Items the table doesn't know, or whose amount couldn't be turned into grams. */
+  unresolved: string[];
+}
+
+export function estimateNutrition(recipe: Pick<Recipe, "ingredients" | "servings">): NutritionEstimate {
+  const totals: Per100g = [0, 0, 0, 0];
+  const unresolved: string[] = [];
+  let counted = 0;
+
+  for (const line of recipe.ingredients) {
+    if (line.quantity === null) continue;
+    counted++;
+
+    const food = findFood(englishItem(line));
+    const grams = food && gramsOf(line, food);
+    if (!food || grams === null) {
+      unresolved.push(line.item);
+      continue;
+    }
+    food.per100g.forEach((value, index) => {
+      totals[index] += (value * grams) / 100;
+    });
+  }
+
+  const [calories, protein, carbs, fats] = totals.map((total) => Math.round(total / recipe.servings));
+  return { macros: { calories, protein, carbs, fats }, counted, unresolved };
+}
+
+/** The computed figures can stand on their own only when every measured line was counted. */
+export function isCompleteEstimate(estimate: NutritionEstimate): boolean {
+  return estimate.counted > 0 && estimate.unresolved.length === 0;
+}
+
+// A difference is worth flagging when it is both large in absolute terms and
+// a sizeable share of the value; rounding on small numbers is not a discrepancy.
+export type CoreMacro = "calories" | "protein" | "carbs" | "fats";
+
+const TOLERANCE: Record<CoreMacro, number> = { calories: 75, protein: 8, carbs: 10, fats: 8 };
+const RELATIVE_TOLERANCE = 0.25;
+
+/** Macros where the model's figure is far from the computed one. */
+export function findMacroDiscrepancies(stated: Macros, computed: Macros): CoreMacro[] {
+  return (Object.keys(TOLERANCE) as CoreMacro[]).filter((key) => {
+    const difference = Math.abs(stated[key] - computed[key]);
+    return difference > TOLERANCE[key] && difference > RELATIVE_TOLERANCE * Math.max(stated[key], computed[key]);
+  });
+}
+
+export interface NutritionFact {
+  /** Also the `nutrient.*` message key the web client labels the line with. */
+  key: Exclude<keyof Macros, "calories">;
+  unit: "g" | "mg" | "mcg";
+  /** FDA daily value for a 2,000 calorie diet; total sugars have none. */
+  dailyValue?: number;
+  /** Shown nested under the line above, as on a printed label. */
+  indent?: boolean;
+}
+
+/** Lines of a nutrition facts label, in the order the FDA format prints them. */
+export const NUTRITION_FACTS: NutritionFact[] = [
+  { key: "fats", unit: "g", dailyValue: 78 },
+  { key: "saturatedFat", unit: "g", dailyValue: 20, indent: true },
+  { key: "cholesterol", unit: "mg", dailyValue: 300 },
+  { key: "sodium", unit: "mg", dailyValue: 2300 },
+  { key: "carbs", unit: "g", dailyValue: 275 },
+  { key: "fiber", unit: "g", dailyValue: 28, indent: true },
+  { key: "sugar", unit: "g", indent: true },
+  { key: "protein", unit: "g", dailyValue: 50 },
+];
+
+export const MICRONUTRIENT_FACTS: NutritionFact[] = [
+  { key: "vitaminD", unit: "mcg", dailyValue: 20 },
+  { key: "calcium", unit: "mg", dailyValue: 1300 },
+  { key: "iron", unit: "mg", dailyValue: 18 },
+  { key: "potassium", unit: "mg", dailyValue: 4700 },
+];
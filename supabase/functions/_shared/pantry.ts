@@ -0,0 +1,114 @@
+// What the cook has on hand, and how a recipe's ingredient lines compare to it.
+
+import { itemNames, type IngredientLine } from "./ingredients.ts";
+
+export const DEFAULT_STAPLES = ["salt", "black pepper", "oil", "water"];
+
+const MAX_STAPLES = 20;
+
+export interface Pantry {
+  /** The ingredients the user listed. */
+  ingredients: string[];
+  /** Basics assumed to be in every kitchen, e.g. salt and oil. */
+  staples: string[];
+  /** When set, the recipe may use nothing beyond `ingredients` and `staples`. */
+  strict: boolean;
+}
+
+export type IngredientSource = "have" | "staple" | "missing";
+
+const toNameList = (value: unknown, limit: number): string[] =>
+  (Array.isArray(value) ? value : [])
+    .filter((item): item is string => typeof item === "string")
+    .map((item) => item.trim().toLowerCase())
+    .filter((item, index, items) => item && items.indexOf(item) === index)
+    .slice(0, limit);
+
+/** Drops anything that isn't a string; returns null when there is nothing to compare against. */
+export function normalizePantry(input: unknown): Pantry | null {
+  if (typeof input !== "object" || input === null) return null;
+  const { ingredients, staples, strict } = input as Record<string, unknown>;
+  const names = toNameList(ingredients, 100);
+  if (names.length === 0) return null;
+  return {
+    ingredients: names,
+    staples: Array.isArray(staples) ? toNameList(staples, MAX_STAPLES) : DEFAULT_STAPLES,
+    strict: strict === true,
+  };
+}
+
+// Crude English singular, enough for ingredient names ("tomatoes", "berries", "cheeses").
+export const singular = (word: string) => {
+  if (word.length <= 3) return word;
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (/(?:oes|ches|shes|xes|sses)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+};
+
+const words = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z\s-]/g, " ")
+    .split(/[\s-]+/)
+    .filter(Boolean)
+    .map(singular);
+
+// Trailing words naming a cut or part of what comes before: "chicken breast" is
+// still chicken. Singular as `singular` leaves them, hence "leave".
+const PARTS = new Set([
+  "breast", "thigh", "drumstick", "wing", "leg", "fillet", "filet", "loin", "cutlet", "clove", "leaf", "leave",
+  "sprig", "stalk", "floret", "wedge", "zest", "juice",
+]);
+
+const endsWith = (haystack: string[], needle: string[]) =>
+  needle.length > 0 &&
+  haystack.length >= needle.length &&
+  needle.every((word, offset) => haystack[haystack.length - needle.length + offset] === word);
+
+/**
+ * True when a listed name covers a recipe item: the item's head noun, its last
+ * words, is the name ("chicken" covers "chicken thighs", "oil" covers "olive
+ * oil"). Modifiers don't count the other way, so "chicken" does not cover
+ * "chicken stock" and "water" does not cover "water chestnuts".
+ */
+export function matchesName(item: string, name: string): boolean {
+  const itemWords = words(item);
+  const nameWords = words(name);
+  let end = itemWords.length;
+  while (end > 1 && PARTS.has(itemWords[end - 1])) end--;
+  return endsWith(itemWords, nameWords) || endsWith(itemWords.slice(0, end), nameWords);
+}
+
+// "salt and pepper" is two ingredients on one line.
+const LINE_PARTS = /\s+(?:and|&)\s+/i;
+
+const SOURCE_RANK: IngredientSource[] = ["have", "staple", "missing"];
+
+const classifyName = (item: string, { ingredients, staples }: Pantry): IngredientSource => {
+  const sources = item.split(LINE_PARTS).map((part): IngredientSource => {
+    if (ingredients.some((name) => matchesName(part, name))) return "have";
+    // A staple also covers a more general line: "black pepper" is on hand for "pepper".
+    if (staples.some((name) => matchesName(part, name) || matchesName(name, part))) return "staple";
+    return "missing";
+  });
+  return SOURCE_RANK[Math.max(...sources.map((source) => SOURCE_RANK.indexOf(source)))];
+};
+
+/** Whether a line is the user's, a staple or missing; every part of a "salt and pepper" line counts. */
+export function classifyIngredient(line: Pick<IngredientLine, "item" | "english">, pantry: Pantry): IngredientSource {
+  const sources = itemNames(line).map((item) => classifyName(item, pantry));
+  return SOURCE_RANK[Math.min(...sources.map((source) => SOURCE_RANK.indexOf(source)))];
+}
+
+/** Indexes of lines that are neither the user's ingredients nor staples. */
+export function findMissingIngredients(lines: IngredientLine[], pantry: Pantry): number[] {
+  return lines.flatMap((line, index) => (classifyIngredient(line, pantry) === "missing" ? [index] : []));
+}
+
+/** Plain-language rule for the model prompt in strict mode. */
+export function describeStrictPantry({ ingredients, staples }: Pantry): string {
+  return `- Use ONLY these ingredients: ${ingredients.join(", ")}
+- You may also use these pantry staples: ${staples.length > 0 ? staples.join(", ") : "none"}
+- Do not add anything else, not even a garnish or an optional extra; it is fine not to use every ingredient`;
+}
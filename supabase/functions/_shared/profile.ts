@@ -0,0 +1,18 @@
+// Per-user kitchen settings from `profiles`, read by the functions that build prompts.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.0";
+import { normalizeEquipment, type Equipment } from "./equipment.ts";
+import { normalizeLanguage, type Language } from "./language.ts";
+
+export interface KitchenProfile {
+  /** Appliances the user has; null when they haven't said, meaning no restriction. */
+  equipment: Equipment[] | null;
+  /** Language to write recipes in; null until the user has picked one. */
+  language: Language | null;
+}
+
+export const getKitchenProfile = async (admin: SupabaseClient, userId: string): Promise<KitchenProfile> => {
+  const { data, error } = await admin.from("profiles").select("equipment, language").eq("user_id", userId).maybeSingle();
+  if (error) throw error;
+  return { equipment: normalizeEquipment(data?.equipment), language: normalizeLanguage(data?.language) };
+};
@@ -0,0 +1,155 @@
+// Post-generation checks shared by the functions that ask the model for recipes.
+
+import type { ChatMessage } from "./ai.ts";
+import {
+  describeViolation,
+  findConstraintViolations,
+  hasConstraints,
+  type DietaryConstraints,
+} from "./constraints.ts";
+import { describeEquipmentViolation, findEquipmentViolations, type Equipment } from "./equipment.ts";
+import { findUrgentUsage, type UrgentIngredient } from "./freshness.ts";
+import { DEFAULT_LANGUAGE, type Language } from "./language.ts";
+import { findMissingIngredients, type Pantry } from "./pantry.ts";
+import type { Recipe, RecipeFieldError, RecipeValidationResult } from "./recipe.ts";
+import { hasStyle, type RecipeStyle } from "./style.ts";
+
+export type RecipeCheck =
+  | { ok: true; recipe: Recipe }
+  | { ok: false; code: "INVALID_RECIPE" | "CONSTRAINT_VIOLATION" | "MISSING_INGREDIENTS" | "EQUIPMENT_UNAVAILABLE" | "OVER_TIME_BUDGET"; errors: RecipeFieldError[] };
+
+export type RecipeCheckFailure = Extract<RecipeCheck, { ok: false }>;
+
+export type RecipeChecker = (result: RecipeValidationResult) => RecipeCheck;
+
+/** What the recipe was requested with; checked where possible and attached to the result. */
+export interface RecipeRequirements {
+  constraints: DietaryConstraints;
+  style?: RecipeStyle;
+  pantry?: Pantry | null;
+  /** The user's appliances; null when unrestricted. */
+  equipment?: Equipment[] | null;
+  /** Most minutes the recipe may take in total. */
+  timeBudget?: number | null;
+  /** Near-expiry ingredients to prioritize; reported on, never enforced. */
+  urgent?: UrgentIngredient[];
+  /** Language the recipe was asked to be written in. */
+  language?: Language;
+}
+
+// Takes the shape validation result and adds the dietary constraint, pantry
+// (strict mode only), equipment and time budget checks. All failures go
+// through the same repair round. A non-English recipe must give every line its
+// English name first, since the keyword checks only know English names. Urgent ingredients are only reported on: a
+// recipe that leaves one out is still a recipe.
+export const createChecker = ({
+  constraints,
+  style = {},
+  pantry = null,
+  equipment = null,
+  timeBudget = null,
+  urgent = [],
+  language,
+}: RecipeRequirements): RecipeChecker => (result) => {
+  if (!result.ok) return { ok: false, code: "INVALID_RECIPE", errors: result.errors };
+
+  if (language && language !== DEFAULT_LANGUAGE) {
+    const unnamed = result.recipe.ingredients.flatMap((line, index) => (line.english ? [] : [index]));
+    if (unnamed.length > 0) {
+      return {
+        ok: false,
+        code: "INVALID_RECIPE",
+        errors: unnamed.map((index) => ({
+          field: `ingredients[${index}].english`,
+          message: "Must be the ingredient's plain English name when the recipe is not in English",
+        })),
+      };
+    }
+  }
+
+  const violations = findConstraintViolations(result.recipe.ingredients, constraints);
+  if (violations.length > 0) {
+    return {
+      ok: false,
+      code: "CONSTRAINT_VIOLATION",
+      errors: violations.map((v) => ({ field: `ingredients[${v.index}]`, message: describeViolation(v) })),
+    };
+  }
+
+  const missing = pantry?.strict ? findMissingIngredients(result.recipe.ingredients, pantry) : [];
+  if (missing.length > 0) {
+    return {
+      ok: false,
+      code: "MISSING_INGREDIENTS",
+      errors: missing.map((index) => ({
+        field: `ingredients[${index}]`,
+        message: `"${result.recipe.ingredients[index].item}" is not one of the user's ingredients or staples`,
+      })),
+    };
+  }
+
+  const equipmentViolations = equipment ? findEquipmentViolations(result.recipe, equipment, language) : [];
+  if (equipmentViolations.length > 0) {
+    return {
+      ok: false,
+      code: "EQUIPMENT_UNAVAILABLE",
+      errors: equipmentViolations.map((v) => ({ field: v.field, message: describeEquipmentViolation(v) })),
+    };
+  }
+
+  if (timeBudget && result.recipe.totalTime > timeBudget) {
+    const { prepTime, cookTime, restTime, totalTime } = result.recipe;
+    return {
+      ok: false,
+      code: "OVER_TIME_BUDGET",
+      errors: [{
+        field: "totalTime",
+        message: `${totalTime} minutes (${prepTime} prep + ${cookTime} cook + ${restTime} rest) is over the ${timeBudget} minute budget`,
+      }],
+    };
+  }
+
+  return {
+    ok: true,
+    recipe: {
+      ...result.recipe,
+      ...(hasConstraints(constraints) && { constraints }),
+      ...(hasStyle(style) && { style }),
+      ...(pantry && { pantry }),
+      ...(timeBudget && { timeBudget }),
+      ...(urgent.length > 0 && { useFirst: findUrgentUsage(result.recipe.ingredients, urgent) }),
+      ...(language && { language }),
+    },
+  };
+};
+
+const describeErrors = (errors: RecipeFieldError[]) =>
+  errors.map((e) => `- ${e.field}: ${e.message}`).join("\n");
+
+/** Replays the model's reply with the problems found, asking for a corrected version. */
+export const repairMessages = (messages: ChatMessage[], content: string, errors: RecipeFieldError[]): ChatMessage[] => [
+  ...messages,
+  { role: "assistant", content },
+  {
+    role: "user",
+    content: `Your previous reply had these problems:\n${describeErrors(errors)}\nReply again with the complete, corrected JSON object.`,
+  },
+];
+
+const FAILURE_MESSAGES: Record<RecipeCheckFailure["code"], string> = {
+  INVALID_RECIPE: "The AI returned an invalid recipe. Please try again.",
+  CONSTRAINT_VIOLATION: "The AI could not produce a recipe that meets your dietary needs. Try different ingredients.",
+  MISSING_INGREDIENTS:
+    "The AI could not make a recipe from only your ingredients. Add a few more or turn off \"only what I have\".",
+  EQUIPMENT_UNAVAILABLE: "The AI could not make a recipe with the equipment in your kitchen. Try different ingredients.",
+  OVER_TIME_BUDGET: "The AI could not fit a recipe into your time budget. Try allowing a little more time.",
+};
+
+export const failureStatus = (check: RecipeCheckFailure) =>
+  check.code === "INVALID_RECIPE" ? 502 : 422;
+
+export const failureBody = (check: RecipeCheckFailure) => ({
+  error: FAILURE_MESSAGES[check.code],
+  code: check.code,
+  fields: check.errors,
+});
@@ -0,0 +1,298 @@
+// Shared Recipe schema used by the edge functions and the web client.
+// Keep this file dependency-free so it runs unchanged under Deno and Vite.
+
+import { hasConstraints, normalizeConstraints, type DietaryConstraints } from "./constraints.ts";
+import { normalizeUrgentUsage, type UrgentUsage } from "./freshness.ts";
+import { normalizeUnit, parseIngredientLine, parseQuantity, type IngredientLine } from "./ingredients.ts";
+import { normalizeLanguage, type Language } from "./language.ts";
+import { normalizePantry, type Pantry } from "./pantry.ts";
+import { hasStyle, normalizeStyle, type RecipeStyle } from "./style.ts";
+
+export const DIFFICULTIES = ["Easy", "Medium", "Hard"] as const;
+
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+/**
+ * Nutrition per serving. The four core figures are always present; the
+ * detailed ones are optional because recipes saved before they existed lack them.
+ */
+export interface Macros {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+  /** Grams. */
+  fiber?: number;
+  /** Grams. */
+  sugar?: number;
+  /** Grams. */
+  saturatedFat?: number;
+  /** Milligrams. */
+  sodium?: number;
+  /** Milligrams. */
+  cholesterol?: number;
+  /** Micrograms. */
+  vitaminD?: number;
+  /** Milligrams. */
+  calcium?: number;
+  /** Milligrams. */
+  iron?: number;
+  /** Milligrams. */
+  potassium?: number;
+}
+
+export interface Recipe {
+  name: string;
+  /** Minutes of hands-on preparation. */
+  prepTime: number;
+  /** Minutes on the heat or in the oven. */
+  cookTime: number;
+  /** Minutes of resting, marinating or chilling. */
+  restTime: number;
+  /** Always prepTime + cookTime + restTime. */
+  totalTime: number;
+  difficulty: Difficulty;
+  servings: number;
+  macros: Macros;
+  ingredients: IngredientLine[];
+  instructions: string[];
+  /** Main cooking technique, e.g. "stir-fry"; used to tell alternatives apart. */
+  technique?: string;
+  /** Appliances and notable tools the recipe needs, e.g. "oven", "blender". */
+  equipment?: string[];
+  /** Dietary constraints the recipe was generated and checked against. */
+  constraints?: DietaryConstraints;
+  /** Cuisine, meal type and flavor profile the recipe was asked for. */
+  style?: RecipeStyle;
+  /** Most minutes the recipe was asked to take in total. */
+  timeBudget?: number;
+  /** Servings the user scaled the recipe to; quantities stay stored for `servings`. */
+  scaledServings?: number;
+  /** The user's ingredients and staples, for marking what they still need to buy. */
+  pantry?: Pantry;
+  /** Which near-expiry ingredients the recipe uses and which it leaves out. */
+  useFirst?: UrgentUsage;
+  /** Language the text is written in; recipes from before this was recorded are English. */
+  language?: Language;
+}
+
+export interface RecipeFieldError {
+  field: string;
+  message: string;
+}
+
+export type RecipeValidationResult =
+  | { ok: true; recipe: Recipe }
+  | { ok: false; errors: RecipeFieldError[] };
+
+/** Events sent by generate-recipe when called with `stream: true`. */
+export type RecipeStreamEvent =
+  | { type: "delta"; content: string }
+  | { type: "repairing" }
+  | { type: "recipe"; recipe: Recipe; cached?: boolean; cachedAt?: string }
+  | { type: "error"; error: string; code?: string; fields?: RecipeFieldError[] };
+
+const MACRO_KEYS: (keyof Macros)[] = ["calories", "protein", "carbs", "fats"];
+
+const DETAILED_NUTRIENT_KEYS: (keyof Macros)[] = [
+  "fiber", "sugar", "saturatedFat", "sodium", "cholesterol", "vitaminD", "calcium", "iron", "potassium",
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Models sometimes answer "30 minutes" or "4" instead of a number.
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string") {
+    const match = value.match(/-?\d+(\.\d+)?/);
+    return match ? Number(match[0]) : null;
+  }
+  return null;
+};
+
+const toDifficulty = (value: unknown): Difficulty | null => {
+  if (typeof value !== "string") return null;
+  const normalized = value.trim().toLowerCase();
+  return DIFFICULTIES.find((d) => d.toLowerCase() === normalized) ?? null;
+};
+
+const toStringList = (value: unknown): string[] | null => {
+  if (!Array.isArray(value)) return null;
+  const items = value
+    .filter((item): item is string => typeof item === "string")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length === value.length ? items : null;
+};
+
+const toNullableString = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+/** Accepts structured lines as well as the plain strings older saved recipes use. */
+export function normalizeIngredient(value: unknown): IngredientLine | null {
+  if (typeof value === "string") return value.trim() ? parseIngredientLine(value) : null;
+  if (!isRecord(value)) return null;
+
+  const item = toNullableString(value.item);
+  if (!item) return null;
+
+  let quantity: number | null = null;
+  if (typeof value.quantity === "number" && Number.isFinite(value.quantity)) {
+    quantity = value.quantity;
+  } else if (typeof value.quantity === "string" && value.quantity.trim()) {
+    quantity = parseQuantity(value.quantity);
+    if (quantity === null) return null;
+  }
+  if (quantity !== null && quantity < 0) return null;
+  const english = toNullableString(value.english);
+
+  return {
+    quantity,
+    unit: normalizeUnit(toNullableString(value.unit)),
+    item,
+    preparation: toNullableString(value.preparation),
+    optional: value.optional === true || value.optional === "true",
+    ...(english && { english }),
+  };
+}
+
+/**
+ * Checks an untrusted value (usually parsed model output) against the Recipe
+ * shape, coercing harmless variations such as numeric strings. Returns every
+ * failing field so callers can report or repair them in one go.
+ */
+export function validateRecipe(input: unknown): RecipeValidationResult {
+  if (!isRecord(input)) {
+    return { ok: false, errors: [{ field: "$", message: "Expected a JSON object" }] };
+  }
+
+  const errors: RecipeFieldError[] = [];
+
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name) errors.push({ field: "name", message: "Must be a non-empty string" });
+
+  // Recipes saved before the time split only have cookingTime; count it all as cooking.
+  const cookTime = toNumber(input.cookTime ?? input.cookingTime);
+  if (cookTime === null || cookTime < 0) {
+    errors.push({ field: "cookTime", message: "Must be a non-negative number of minutes" });
+  }
+  const [prepTime, restTime] = (["prepTime", "restTime"] as const).map((field) => {
+    const value = input[field] == null ? 0 : toNumber(input[field]);
+    if (value === null || value < 0) {
+      errors.push({ field, message: "Must be a non-negative number of minutes" });
+    }
+    return value ?? 0;
+  });
+  if (cookTime !== null && prepTime + cookTime + restTime <= 0) {
+    errors.push({ field: "totalTime", message: "Prep, cook and rest time must add up to more than 0 minutes" });
+  }
+
+  const difficulty = toDifficulty(input.difficulty);
+  if (!difficulty) {
+    errors.push({ field: "difficulty", message: `Must be one of ${DIFFICULTIES.join(", ")}` });
+  }
+
+  const servings = toNumber(input.servings);
+  if (servings === null || servings < 1) {
+    errors.push({ field: "servings", message: "Must be a number of at least 1" });
+  }
+
+  const macros = {} as Macros;
+  if (!isRecord(input.macros)) {
+    errors.push({ field: "macros", message: "Must be an object" });
+  } else {
+    for (const key of MACRO_KEYS) {
+      const value = toNumber(input.macros[key]);
+      if (value === null || value < 0) {
+        errors.push({ field: `macros.${key}`, message: "Must be a non-negative number" });
+      } else {
+        macros[key] = value;
+      }
+    }
+    // Detailed figures are best-effort: a missing or unusable one is left out, not repaired.
+    for (const key of DETAILED_NUTRIENT_KEYS) {
+      const value = toNumber(input.macros[key]);
+      if (value !== null && value >= 0) macros[key] = value;
+    }
+  }
+
+  const ingredients: IngredientLine[] = [];
+  if (!Array.isArray(input.ingredients) || input.ingredients.length === 0) {
+    errors.push({ field: "ingredients", message: "Must be a non-empty list of ingredient objects" });
+  } else {
+    input.ingredients.forEach((value, index) => {
+      const line = normalizeIngredient(value);
+      if (line) {
+        ingredients.push(line);
+      } else {
+        errors.push({
+          field: `ingredients[${index}]`,
+          message: "Must have a non-empty item and a numeric or null quantity",
+        });
+      }
+    });
+  }
+
+  const instructions = toStringList(input.instructions);
+  if (!instructions || instructions.length === 0) {
+    errors.push({ field: "instructions", message: "Must be a non-empty list of strings" });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  const constraints = normalizeConstraints(input.constraints);
+  const technique = toNullableString(input.technique);
+  const style = normalizeStyle(input.style);
+  const equipment = toStringList(input.equipment)?.map((item) => item.toLowerCase());
+  const pantry = normalizePantry(input.pantry);
+  const timeBudget = toNumber(input.timeBudget);
+  const scaledServings = toNumber(input.scaledServings);
+  const useFirst = normalizeUrgentUsage(input.useFirst);
+  const language = normalizeLanguage(input.language);
+
+  return {
+    ok: true,
+    recipe: {
+      name,
+      prepTime: Math.round(prepTime),
+      cookTime: Math.round(cookTime!),
+      restTime: Math.round(restTime),
+      totalTime: Math.round(prepTime) + Math.round(cookTime!) + Math.round(restTime),
+      difficulty: difficulty!,
+      servings: Math.round(servings!),
+      macros,
+      ingredients,
+      instructions: instructions!,
+      ...(technique && { technique: technique.toLowerCase() }),
+      ...(equipment?.length && { equipment }),
+      ...(hasConstraints(constraints) && { constraints }),
+      ...(hasStyle(style) && { style }),
+      ...(pantry && { pantry }),
+      ...(timeBudget && timeBudget > 0 && { timeBudget: Math.round(timeBudget) }),
+      ...(scaledServings && scaledServings >= 1 && { scaledServings: Math.round(scaledServings) }),
+      ...(useFirst && { useFirst }),
+      ...(language && { language }),
+    },
+  };
+}
+
+/**
+ * Upgrades recipe data from `saved_recipes.recipe_data` or navigation state,
+ * parsing legacy string ingredients. Returns null when it cannot be displayed.
+ */
+export function normalizeRecipe(data: unknown): Recipe | null {
+  const result = validateRecipe(data);
+  return result.ok ? result.recipe : null;
+}
+
+/** Parses raw model text and validates it, treating bad JSON as a field error. */
+export function parseRecipe(content: string): RecipeValidationResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ""));
+  } catch {
+    return { ok: false, errors: [{ field: "$", message: "Response was not valid JSON (possibly truncated)" }] };
+  }
+  return validateRecipe(parsed);
+}
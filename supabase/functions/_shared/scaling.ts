@@ -0,0 +1,83 @@
+// Servings scaling for ingredient lines: multiply, move to the unit a cook
+// would use (3 tsp → 1 tbsp, 1000 g → 1 kg) and round to measurable amounts.
+
+import type { IngredientLine } from "./ingredients.ts";
+
+interface LadderStep {
+  unit: string;
+  /** Size in the ladder's smallest unit. */
+  size: number;
+  /** Smallest amount, in the smallest unit, worth expressing in this unit. */
+  from: number;
+}
+
+// Largest unit first. A quarter cup reads better than 4 tbsp; 2 tbsp better than 1/8 cup.
+const LADDERS: LadderStep[][] = [
+  [
+    { unit: "cup", size: 48, from: 12 },
+    { unit: "tbsp", size: 3, from: 3 },
+    { unit: "tsp", size: 1, from: 0 },
+  ],
+  [
+    { unit: "l", size: 1000, from: 1000 },
+    { unit: "ml", size: 1, from: 0 },
+  ],
+  [
+    { unit: "kg", size: 1000, from: 1000 },
+    { unit: "g", size: 1, from: 0 },
+  ],
+  [
+    { unit: "lb", size: 16, from: 16 },
+    { unit: "oz", size: 1, from: 0 },
+  ],
+];
+
+const METRIC_UNITS = new Set(["g", "ml"]);
+const LARGE_METRIC_UNITS = new Set(["kg", "l"]);
+
+const KITCHEN_FRACTIONS = [0, 1 / 8, 1 / 4, 1 / 3, 1 / 2, 2 / 3, 3 / 4, 1];
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+/** Nearest whole-plus-common-fraction, never rounding a real amount down to nothing. */
+export function roundToKitchenFraction(value: number): number {
+  if (value >= 10) return Math.round(value);
+  const whole = Math.floor(value);
+  const fraction = KITCHEN_FRACTIONS.reduce((best, candidate) =>
+    Math.abs(value - whole - candidate) < Math.abs(value - whole - best) ? candidate : best,
+  );
+  const rounded = whole + fraction;
+  return rounded === 0 && value > 0 ? 1 / 8 : rounded;
+}
+
+const roundForUnit = (quantity: number, unit: string | null): number => {
+  if (unit && METRIC_UNITS.has(unit)) {
+    if (quantity >= 100) return roundTo(quantity, 5);
+    if (quantity >= 10) return Math.round(quantity);
+    return Math.max(roundTo(quantity, 0.5), 0.5);
+  }
+  if (unit && LARGE_METRIC_UNITS.has(unit)) return Math.max(roundTo(quantity, 0.05), 0.05);
+  return roundToKitchenFraction(quantity);
+};
+
+/**
+ * Re-expresses an amount in the most readable unit of its family and rounds
+ * it. Units outside the known families (cans, cloves, whole items) only get
+ * rounded.
+ */
+export function tidyMeasure(quantity: number, unit: string | null): { quantity: number; unit: string | null } {
+  const ladder = LADDERS.find((steps) => steps.some((step) => step.unit === unit));
+  if (!ladder) return { quantity: roundForUnit(quantity, unit), unit };
+
+  const base = quantity * ladder.find((step) => step.unit === unit)!.size;
+  // Less than an eighth of a teaspoon is a pinch, whatever the maths says.
+  if (ladder[0].unit === "cup" && base > 0 && base < 1 / 8) return { quantity: 1, unit: "pinch" };
+
+  const step = ladder.find((candidate) => base >= candidate.from)!;
+  return { quantity: roundForUnit(base / step.size, step.unit), unit: step.unit };
+}
+
+export function scaleIngredient(line: IngredientLine, factor: number): IngredientLine {
+  if (line.quantity === null || factor === 1) return line;
+  return { ...line, ...tidyMeasure(line.quantity * factor, line.unit) };
+}
@@ -0,0 +1,94 @@
+// Cuisine, meal type and flavor profile requested for a recipe.
+
+export const CUISINES = [
+  "italian",
+  "mexican",
+  "thai",
+  "indian",
+  "chinese",
+  "japanese",
+  "korean",
+  "french",
+  "greek",
+  "middle-eastern",
+  "mediterranean",
+  "american",
+] as const;
+
+export type Cuisine = (typeof CUISINES)[number];
+
+export const MEAL_TYPES = ["breakfast", "lunch", "dinner", "snack", "dessert"] as const;
+
+export type MealType = (typeof MEAL_TYPES)[number];
+
+export const FLAVORS = ["mild", "spicy", "savory", "sweet", "tangy", "smoky", "herby"] as const;
+
+export type Flavor = (typeof FLAVORS)[number];
+
+export interface RecipeStyle {
+  cuisine?: Cuisine;
+  mealType?: MealType;
+  flavor?: Flavor;
+}
+
+export const CUISINE_LABELS: Record<Cuisine, string> = {
+  italian: "Italian",
+  mexican: "Mexican",
+  thai: "Thai",
+  indian: "Indian",
+  chinese: "Chinese",
+  japanese: "Japanese",
+  korean: "Korean",
+  french: "French",
+  greek: "Greek",
+  "middle-eastern": "Middle Eastern",
+  mediterranean: "Mediterranean",
+  american: "American",
+};
+
+export const MEAL_TYPE_LABELS: Record<MealType, string> = {
+  breakfast: "Breakfast",
+  lunch: "Lunch",
+  dinner: "Dinner",
+  snack: "Snack",
+  dessert: "Dessert",
+};
+
+export const FLAVOR_LABELS: Record<Flavor, string> = {
+  mild: "Mild",
+  spicy: "Spicy",
+  savory: "Savory",
+  sweet: "Sweet",
+  tangy: "Tangy",
+  smoky: "Smoky",
+  herby: "Fresh & herby",
+};
+
+export const EMPTY_STYLE: RecipeStyle = {};
+
+/** Drops unknown values from an untrusted style object. */
+export function normalizeStyle(input: unknown): RecipeStyle {
+  if (typeof input !== "object" || input === null) return EMPTY_STYLE;
+  const { cuisine, mealType, flavor } = input as Record<string, unknown>;
+  const pick = <T extends string>(value: unknown, allowed: readonly T[]): T | undefined =>
+    allowed.find((option) => option === value);
+  const picked = { cuisine: pick(cuisine, CUISINES), mealType: pick(mealType, MEAL_TYPES), flavor: pick(flavor, FLAVORS) };
+  return {
+    ...(picked.cuisine && { cuisine: picked.cuisine }),
+    ...(picked.mealType && { mealType: picked.mealType }),
+    ...(picked.flavor && { flavor: picked.flavor }),
+  };
+}
+
+export function hasStyle(style: RecipeStyle): boolean {
+  return Boolean(style.cuisine || style.mealType || style.flavor);
+}
+
+/** Plain-language summary for the model prompt. */
+export function describeStyle({ cuisine, mealType, flavor }: RecipeStyle): string {
+  const lines: string[] = [];
+  if (cuisine) lines.push(`- Cuisine: ${CUISINE_LABELS[cuisine]}; use its typical seasonings and techniques`);
+  if (mealType) lines.push(`- Meal: ${MEAL_TYPE_LABELS[mealType]}; the dish and portion should suit it`);
+  if (flavor) lines.push(`- Flavor profile: ${FLAVOR_LABELS[flavor].toLowerCase()}`);
+  return lines.join("\n");
+}
@@ -0,0 +1,299 @@
+// Ingredient swaps: a local table of well-known substitutions, the effect a
+// swap has on nutrition and dietary fit, and applying one to a recipe.
+
+import {
+  dietaryProfile,
+  findConstraintViolations,
+  normalizeConstraints,
+  type Allergen,
+  type ConstraintViolation,
+  type Diet,
+} from "./constraints.ts";
+import { findUrgentUsage, urgentFromUsage } from "./freshness.ts";
+import { englishItem, lookupIngredient, type IngredientLine } from "./ingredients.ts";
+import { escapeRegExp } from "./keywords.ts";
+import { estimateNutrition, type CoreMacro } from "./nutrients.ts";
+import { normalizeIngredient, type Recipe } from "./recipe.ts";
+import { tidyMeasure } from "./scaling.ts";
+import { G_PER_UNIT, ML_PER_UNIT } from "./units.ts";
+
+export interface Substitution {
+  /** What the swap is called in the instructions, e.g. "flax egg". */
+  name: string;
+  /** Lines that replace the original one, with amounts for the whole line. */
+  ingredients: IngredientLine[];
+  note?: string;
+  source: "rules" | "ai";
+}
+
+// [quantity, unit, item, preparation] per `per` of the original.
+type Part = [number, string | null, string, string?];
+
+interface SubstitutionRule {
+  /** Unit of the original the part amounts are given per; null for whole items ("per egg"). */
+  per: string | null;
+  options: { name: string; parts: Part[]; note?: string }[];
+}
+
+const SUBSTITUTION_RULES: Record<string, SubstitutionRule> = {
+  buttermilk: {
+    per: "cup",
+    options: [
+      { name: "milk and lemon juice", parts: [[1, "cup", "milk"], [1, "tbsp", "lemon juice"]], note: "Stir together and let stand for 5 minutes." },
+      { name: "thinned yogurt", parts: [[0.75, "cup", "plain yogurt"], [0.25, "cup", "milk"]] },
+    ],
+  },
+  egg: {
+    per: null,
+    options: [
+      { name: "flax egg", parts: [[1, "tbsp", "ground flaxseed"], [3, "tbsp", "water"]], note: "Mix and let thicken for 5 minutes. Best in baking." },
+      { name: "mashed banana", parts: [[0.25, "cup", "mashed banana"]], note: "Adds sweetness; suits cakes and pancakes." },
+      { name: "applesauce", parts: [[0.25, "cup", "unsweetened applesauce"]], note: "Suits cakes and muffins." },
+    ],
+  },
+  butter: {
+    per: "cup",
+    options: [
+      { name: "oil", parts: [[0.75, "cup", "neutral oil"]] },
+      { name: "coconut oil", parts: [[1, "cup", "coconut oil"]] },
+    ],
+  },
+  "peanut butter": { per: "tbsp", options: [{ name: "almond butter", parts: [[1, "tbsp", "almond butter"]] }] },
+  "coconut milk": {
+    per: "cup",
+    options: [{ name: "coconut cream and water", parts: [[0.5, "cup", "coconut cream"], [0.5, "cup", "water"]] }],
+  },
+  milk: {
+    per: "cup",
+    options: [
+      { name: "oat milk", parts: [[1, "cup", "oat milk"]] },
+      { name: "soy milk", parts: [[1, "cup", "soy milk"]] },
+      { name: "almond milk", parts: [[1, "cup", "almond milk"]] },
+    ],
+  },
+  "heavy cream": {
+    per: "cup",
+    options: [
+      { name: "milk and butter", parts: [[0.75, "cup", "milk"], [0.25, "cup", "butter", "melted"]], note: "Won't whip." },
+      { name: "coconut cream", parts: [[1, "cup", "coconut cream"]] },
+    ],
+  },
+  "sour cream": { per: "cup", options: [{ name: "Greek yogurt", parts: [[1, "cup", "Greek yogurt"]] }] },
+  yogurt: { per: "cup", options: [{ name: "sour cream", parts: [[1, "cup", "sour cream"]] }] },
+  mayonnaise: { per: "cup", options: [{ name: "Greek yogurt", parts: [[1, "cup", "Greek yogurt"]] }] },
+  parmesan: {
+    per: "cup",
+    options: [{ name: "nutritional yeast", parts: [[0.5, "cup", "nutritional yeast"]], note: "Cheesy and dairy-free." }],
+  },
+  "brown sugar": {
+    per: "cup",
+    options: [{ name: "sugar and molasses", parts: [[1, "cup", "sugar"], [1, "tbsp", "molasses"]] }],
+  },
+  sugar: {
+    per: "cup",
+    options: [
+      { name: "honey", parts: [[0.75, "cup", "honey"]], note: "Use 3 tbsp less of the other liquids." },
+      { name: "maple syrup", parts: [[0.75, "cup", "maple syrup"]], note: "Use 3 tbsp less of the other liquids." },
+    ],
+  },
+  honey: { per: "cup", options: [{ name: "maple syrup", parts: [[1, "cup", "maple syrup"]] }] },
+  flour: {
+    per: "cup",
+    options: [
+      { name: "whole wheat flour", parts: [[1, "cup", "whole wheat flour"]], note: "Denser; add a splash more liquid." },
+      { name: "gluten-free flour", parts: [[1, "cup", "gluten-free flour blend"]] },
+    ],
+  },
+  cornstarch: { per: "tbsp", options: [{ name: "flour", parts: [[2, "tbsp", "flour"]] }] },
+  "baking powder": {
+    per: "tsp",
+    options: [{ name: "baking soda and cream of tartar", parts: [[0.25, "tsp", "baking soda"], [0.5, "tsp", "cream of tartar"]] }],
+  },
+  breadcrumbs: { per: "cup", options: [{ name: "rolled oats", parts: [[1, "cup", "rolled oats"]] }] },
+  "soy sauce": {
+    per: "tbsp",
+    options: [{ name: "tamari", parts: [[1, "tbsp", "tamari"]], note: "Gluten-free when labelled so." }],
+  },
+  "lemon juice": {
+    per: "tbsp",
+    options: [
+      { name: "lime juice", parts: [[1, "tbsp", "lime juice"]] },
+      { name: "vinegar", parts: [[0.5, "tbsp", "white wine vinegar"]] },
+    ],
+  },
+  wine: {
+    per: "cup",
+    options: [{ name: "broth and vinegar", parts: [[1, "cup", "broth"], [1, "tbsp", "vinegar"]] }],
+  },
+  garlic: { per: "clove", options: [{ name: "garlic powder", parts: [[0.125, "tsp", "garlic powder"]] }] },
+  onion: {
+    per: null,
+    options: [
+      { name: "shallots", parts: [[3, null, "shallot"]] },
+      { name: "onion powder", parts: [[1, "tbsp", "onion powder"]] },
+    ],
+  },
+  "ground beef": {
+    per: "lb",
+    options: [
+      { name: "ground turkey", parts: [[1, "lb", "ground turkey"]] },
+      { name: "lentils", parts: [[1, "cup", "dry lentils", "cooked"]], note: "Cook the lentils before adding them." },
+    ],
+  },
+  rice: { per: "cup", options: [{ name: "quinoa", parts: [[1, "cup", "quinoa", "rinsed"]] }] },
+};
+
+// A stick of butter is half a cup.
+const CUPS_PER_STICK = 0.5;
+
+// Amount of the original line expressed in the rule's unit.
+const amountIn = (line: IngredientLine, per: string | null): number | null => {
+  if (line.quantity === null) return null;
+  const quantity = line.unit === "stick" ? line.quantity * CUPS_PER_STICK : line.quantity;
+  const unit = line.unit === "stick" ? "cup" : line.unit;
+  if (unit === per || (per === null && unit === "piece")) return quantity;
+  if (per && unit && per in ML_PER_UNIT && unit in ML_PER_UNIT) return (quantity * ML_PER_UNIT[unit]) / ML_PER_UNIT[per];
+  if (per && unit && per in G_PER_UNIT && unit in G_PER_UNIT) return (quantity * G_PER_UNIT[unit]) / G_PER_UNIT[per];
+  return null;
+};
+
+/** Swaps from the local table, sized to the line's amount when it can be converted. */
+export function findSubstitutions(line: IngredientLine): Substitution[] {
+  const rule = lookupIngredient(englishItem(line), SUBSTITUTION_RULES, true);
+  if (!rule) return [];
+  const amount = amountIn(line, rule.per);
+
+  return rule.options.map(({ name, parts, note }) => ({
+    name,
+    ingredients: parts.map(([quantity, unit, item, preparation]) => ({
+      ...(amount === null ? { quantity: null, unit: null } : tidyMeasure(quantity * amount, unit)),
+      item,
+      preparation: preparation ?? null,
+      optional: line.optional,
+    })),
+    note: amount === null ? [note, "Use about as much as the original."].filter(Boolean).join(" ") : note,
+    source: "rules",
+  }));
+}
+
+/** Drops malformed entries from an untrusted (model) list of substitutions. */
+export function normalizeSubstitutions(input: unknown): Substitution[] {
+  if (!Array.isArray(input)) return [];
+  return input.flatMap((value): Substitution[] => {
+    if (typeof value !== "object" || value === null) return [];
+    const { name, ingredients, note } = value as Record<string, unknown>;
+    if (typeof name !== "string" || !name.trim() || !Array.isArray(ingredients)) return [];
+    const lines = ingredients.map(normalizeIngredient);
+    if (lines.length === 0 || lines.some((line) => line === null)) return [];
+    return [{
+      name: name.trim(),
+      ingredients: lines as IngredientLine[],
+      ...(typeof note === "string" && note.trim() && { note: note.trim() }),
+      source: "ai",
+    }];
+  });
+}
+
+const replaceLine = (recipe: Recipe, index: number, substitution: Substitution): IngredientLine[] => [
+  ...recipe.ingredients.slice(0, index),
+  ...substitution.ingredients,
+  ...recipe.ingredients.slice(index + 1),
+];
+
+export interface SubstitutionImpact {
+  /** Change per serving in the calculated macros; null when the nutrient table can't weigh both sides. */
+  macros: Record<CoreMacro, number> | null;
+  dietsGained: Diet[];
+  dietsLost: Diet[];
+  allergensAdded: Allergen[];
+  allergensRemoved: Allergen[];
+  /** Requirements the recipe was generated for that the swap would break. */
+  violations: ConstraintViolation[];
+}
+
+const macroDelta = (recipe: Recipe, index: number, substitution: Substitution): Record<CoreMacro, number> | null => {
+  const before = estimateNutrition({ ingredients: [recipe.ingredients[index]], servings: recipe.servings });
+  const after = estimateNutrition({ ingredients: substitution.ingredients, servings: recipe.servings });
+  if (before.unresolved.length > 0 || after.unresolved.length > 0) return null;
+  return {
+    calories: after.macros.calories - before.macros.calories,
+    protein: after.macros.protein - before.macros.protein,
+    carbs: after.macros.carbs - before.macros.carbs,
+    fats: after.macros.fats - before.macros.fats,
+  };
+};
+
+export function describeSubstitutionImpact(recipe: Recipe, index: number, substitution: Substitution): SubstitutionImpact {
+  const ingredients = replaceLine(recipe, index, substitution);
+  const before = dietaryProfile(recipe.ingredients);
+  const after = dietaryProfile(ingredients);
+
+  return {
+    macros: macroDelta(recipe, index, substitution),
+    dietsGained: after.diets.filter((diet) => !before.diets.includes(diet)),
+    dietsLost: before.diets.filter((diet) => !after.diets.includes(diet)),
+    allergensAdded: after.allergens.filter((allergen) => !before.allergens.includes(allergen)),
+    allergensRemoved: before.allergens.filter((allergen) => !after.allergens.includes(allergen)),
+    violations: findConstraintViolations(substitution.ingredients, normalizeConstraints(recipe.constraints)),
+  };
+}
+
+const singularWord = (word: string) => word.replace(/e?s$/, "");
+
+const headNoun = (name: string) => singularWord(name.split(/\s+/).pop()!);
+
+// A name followed by an article is a verb: "oil the pan", "butter a dish".
+const VERB_USE = /^\s+(?:the|a|an|your|it|them)\b/i;
+
+/**
+ * Renames one ingredient in the steps: its full name, and its last word alone
+ * ("the egg" for "large eggs") when no other ingredient ends in that word too.
+ * Other ingredients' names ("peanut butter" when swapping butter) and verb uses
+ * ("oil the pan") are left as they are.
+ */
+const stepRenamer = (recipe: Recipe, index: number, replacement: string) => {
+  const name = recipe.ingredients[index].item.toLowerCase().trim();
+  const head = headNoun(name);
+  const others = recipe.ingredients
+    .filter((_, i) => i !== index)
+    .map(({ item }) => item.toLowerCase().trim())
+    .filter(Boolean);
+  const own = new Set(others.some((other) => headNoun(other) === head) ? [name] : [name, head]);
+  // Longest first, so "peanut butter" is taken whole before "butter" can match inside it.
+  const names = [...new Set([...own, ...others])].filter(Boolean).sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(`\\b(?:${names.map(escapeRegExp).join("|")})(?:e?s)?\\b`, "gi");
+
+  return (step: string) =>
+    step.replace(pattern, (match: string, offset: number) => {
+      const key = match.toLowerCase();
+      if (!own.has(key) && !own.has(singularWord(key))) return match;
+      return VERB_USE.test(step.slice(offset + match.length)) ? match : replacement;
+    });
+};
+
+/**
+ * The recipe with one ingredient line swapped: its lines replaced, the
+ * instructions renamed to match and the macros shifted by the calculated change.
+ */
+export function applySubstitution(recipe: Recipe, index: number, substitution: Substitution): Recipe {
+  const delta = macroDelta(recipe, index, substitution);
+
+  const rename = stepRenamer(recipe, index, substitution.name);
+  const ingredients = replaceLine(recipe, index, substitution);
+
+  return {
+    ...recipe,
+    ingredients,
+    instructions: recipe.instructions.map(rename),
+    macros: delta
+      ? {
+          ...recipe.macros,
+          calories: Math.max(0, recipe.macros.calories + delta.calories),
+          protein: Math.max(0, recipe.macros.protein + delta.protein),
+          carbs: Math.max(0, recipe.macros.carbs + delta.carbs),
+          fats: Math.max(0, recipe.macros.fats + delta.fats),
+        }
+      : recipe.macros,
+    ...(recipe.useFirst && { useFirst: findUrgentUsage(ingredients, urgentFromUsage(recipe.useFirst)) }),
+  };
+}
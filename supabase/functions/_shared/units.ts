@@ -0,0 +1,157 @@
+// Metric / US customary conversion for ingredient lines and instruction text.
+// Volume and mass convert within their kind directly and across kinds through
+// a small density table of common ingredients.
+
+import { englishItem, lookupIngredient, type IngredientLine } from "./ingredients.ts";
+import { tidyMeasure } from "./scaling.ts";
+
+export const UNIT_SYSTEMS = ["original", "metric", "us"] as const;
+
+export type UnitSystem = (typeof UNIT_SYSTEMS)[number];
+
+export function normalizeUnitSystem(input: unknown): UnitSystem {
+  return UNIT_SYSTEMS.find((system) => system === input) ?? "original";
+}
+
+export const ML_PER_UNIT: Record<string, number> = {
+  tsp: 4.92892,
+  tbsp: 14.7868,
+  cup: 236.588,
+  "fl oz": 29.5735,
+  ml: 1,
+  l: 1000,
+};
+
+export const G_PER_UNIT: Record<string, number> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+const US_VOLUME = new Set(["tsp", "tbsp", "cup", "fl oz"]);
+const SPOONS = new Set(["tsp", "tbsp"]);
+
+interface Density {
+  /** Grams per millilitre. */
+  gPerMl: number;
+  /** Liquids are measured by volume in metric kitchens too. */
+  liquid?: boolean;
+}
+
+const DENSITIES: Record<string, Density> = {
+  water: { gPerMl: 1, liquid: true },
+  stock: { gPerMl: 1, liquid: true },
+  broth: { gPerMl: 1, liquid: true },
+  milk: { gPerMl: 1.03, liquid: true },
+  cream: { gPerMl: 1, liquid: true },
+  "coconut milk": { gPerMl: 0.97, liquid: true },
+  oil: { gPerMl: 0.92, liquid: true },
+  vinegar: { gPerMl: 1.01, liquid: true },
+  "soy sauce": { gPerMl: 1.15, liquid: true },
+  wine: { gPerMl: 0.99, liquid: true },
+  juice: { gPerMl: 1.04, liquid: true },
+  honey: { gPerMl: 1.42 },
+  "maple syrup": { gPerMl: 1.32, liquid: true },
+  yogurt: { gPerMl: 1.03 },
+  butter: { gPerMl: 0.96 },
+  "peanut butter": { gPerMl: 1.08 },
+  flour: { gPerMl: 0.53 },
+  "almond flour": { gPerMl: 0.4 },
+  cornstarch: { gPerMl: 0.54 },
+  sugar: { gPerMl: 0.85 },
+  "brown sugar": { gPerMl: 0.93 },
+  "powdered sugar": { gPerMl: 0.51 },
+  "icing sugar": { gPerMl: 0.51 },
+  salt: { gPerMl: 1.2 },
+  "cocoa powder": { gPerMl: 0.42 },
+  "baking powder": { gPerMl: 0.9 },
+  "baking soda": { gPerMl: 0.92 },
+  rice: { gPerMl: 0.85 },
+  quinoa: { gPerMl: 0.72 },
+  lentils: { gPerMl: 0.81 },
+  oats: { gPerMl: 0.38 },
+  breadcrumbs: { gPerMl: 0.45 },
+  cheese: { gPerMl: 0.42 },
+  parmesan: { gPerMl: 0.42 },
+  nuts: { gPerMl: 0.5 },
+  almonds: { gPerMl: 0.6 },
+  walnuts: { gPerMl: 0.5 },
+  "chocolate chips": { gPerMl: 0.72 },
+  peas: { gPerMl: 0.6 },
+  corn: { gPerMl: 0.65 },
+  spinach: { gPerMl: 0.13 },
+};
+
+export function findDensity(item: string): Density | null {
+  return lookupIngredient(item, DENSITIES);
+}
+
+// Amount in millilitres or grams, plus which it is.
+const toBase = (quantity: number, unit: string): { kind: "volume" | "mass"; amount: number } | null => {
+  if (unit in ML_PER_UNIT) return { kind: "volume", amount: quantity * ML_PER_UNIT[unit] };
+  if (unit in G_PER_UNIT) return { kind: "mass", amount: quantity * G_PER_UNIT[unit] };
+  return null;
+};
+
+const toMetric = (line: IngredientLine, quantity: number, unit: string) => {
+  // Metric kitchens still measure small amounts with spoons.
+  if (SPOONS.has(unit)) return null;
+  const base = toBase(quantity, unit);
+  if (!base) return null;
+  if (base.kind === "mass") return unit === "g" || unit === "kg" ? null : tidyMeasure(base.amount, "g");
+  if (!US_VOLUME.has(unit)) return null;
+
+  const density = findDensity(englishItem(line));
+  return density && !density.liquid ? tidyMeasure(base.amount * density.gPerMl, "g") : tidyMeasure(base.amount, "ml");
+};
+
+const toUs = (line: IngredientLine, quantity: number, unit: string) => {
+  const base = toBase(quantity, unit);
+  if (!base) return null;
+  if (base.kind === "volume") {
+    return US_VOLUME.has(unit) ? null : tidyMeasure(base.amount / ML_PER_UNIT.tsp, "tsp");
+  }
+  if (unit === "oz" || unit === "lb") return null;
+
+  // US recipes measure most dry goods by the cup; anything else goes by weight.
+  const density = findDensity(englishItem(line));
+  return density
+    ? tidyMeasure(base.amount / density.gPerMl / ML_PER_UNIT.tsp, "tsp")
+    : tidyMeasure(base.amount / G_PER_UNIT.oz, "oz");
+};
+
+/** The line expressed in `system`; unchanged when it has no convertible amount. */
+export function convertIngredient(line: IngredientLine, system: UnitSystem): IngredientLine {
+  if (system === "original" || line.quantity === null || !line.unit) return line;
+  const converted = system === "metric"
+    ? toMetric(line, line.quantity, line.unit)
+    : toUs(line, line.quantity, line.unit);
+  return converted ? { ...line, ...converted } : line;
+}
+
+// "180°C", "350 degrees F", or a bare "180C"; a lone "2 c" is more likely cups.
+const TEMPERATURE = String.raw`(\d{1,3})(?:\s*[°º]\s*|\s*degrees?\s+|(?<=\d{2}))(C|F|Celsius|Fahrenheit)\b`;
+
+// A temperature, optionally followed by its conversion in brackets: "200°C (400°F)".
+const TEMPERATURE_PATTERN = new RegExp(`${TEMPERATURE}(?:\\s*\\(\\s*${TEMPERATURE}\\s*\\))?`, "gi");
+
+const roundTemperature = (value: number, scale: "C" | "F") => {
+  // Oven dials move in steps of 10°C / 25°F; lower temperatures need precision.
+  if (scale === "C") return value >= 120 ? Math.round(value / 10) * 10 : Math.round(value);
+  return value >= 250 ? Math.round(value / 25) * 25 : Math.round(value / 5) * 5;
+};
+
+/** Rewrites oven and cooking temperatures in instruction text to `system`. */
+export function convertTemperatures(text: string, system: UnitSystem): string {
+  if (system === "original") return text;
+  const target = system === "metric" ? "C" : "F";
+
+  return text.replace(TEMPERATURE_PATTERN, (_, value: string, scale: string) => {
+    const from = scale[0].toUpperCase() as "C" | "F";
+    const degrees = Number(value);
+    if (from === target) return `${degrees}°${target}`;
+    const converted = from === "C" ? degrees * 9 / 5 + 32 : (degrees - 32) * 5 / 9;
+    return `${roundTemperature(converted, target)}°${target}`;
+  });
+}
@@ -1,9 +1,180 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { callModel, describeGatewayError, getProvider, type AiProvider, type ChatMessage } from "../_shared/ai.ts";
+import { describeConstraints, hasConstraints, normalizeConstraints } from "../_shared/constraints.ts";
+import { consumeQuota, createAdminClient, getUser, rateLimitedResponse, unauthorizedResponse } from "../_shared/auth.ts";
+import { cacheTtlHours, createCacheKey, normalizeIngredientList, readCache, writeCache } from "../_shared/cache.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { describeEquipment } from "../_shared/equipment.ts";
+import { describeUrgentIngredients, localDate, normalizeFreshness, rankUrgentIngredients } from "../_shared/freshness.ts";
+import { recordGeneration } from "../_shared/history.ts";
+import { screenIngredients } from "../_shared/ingredient-guard.ts";
+import { describeAmounts, normalizeAmounts } from "../_shared/ingredient-list.ts";
+import { DEFAULT_LANGUAGE, describeLanguage, normalizeLanguage } from "../_shared/language.ts";
+import { describeStrictPantry, normalizePantry } from "../_shared/pantry.ts";
+import { getKitchenProfile } from "../_shared/profile.ts";
+import { describeStyle, hasStyle, normalizeStyle } from "../_shared/style.ts";
+import { parseRecipe, validateRecipe, type Recipe, type RecipeStreamEvent } from "../_shared/recipe.ts";
+import {
+  createChecker,
+  failureBody,
+  failureStatus,
+  repairMessages,
+  type RecipeCheckFailure,
+  type RecipeChecker,
+} from "../_shared/recipe-check.ts";
+import { encodeSseEvent, readSseData } from "../_shared/sse.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+const MAX_CANDIDATES = 5;
+
+const parseCandidateList = (content: string): unknown[] | null => {
+  try {
+    const parsed = JSON.parse(content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+    if (Array.isArray(parsed)) return parsed;
+    return Array.isArray(parsed?.recipes) ? parsed.recipes : null;
+  } catch {
+    return null;
+  }
+};
+
+// Alternatives count as duplicates when they share a name or a main technique.
+const dedupeKeys = (recipe: Recipe) => [
+  `name:${recipe.name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()}`,
+  ...(recipe.technique ? [`technique:${recipe.technique}`] : []),
+];
+
+// Asks for `count` alternatives in one call, keeps the valid and distinct ones,
+// and makes one follow-up call if too few survive.
+const generateCandidates = async (
+  provider: AiProvider,
+  messages: ChatMessage[],
+  check: RecipeChecker,
+  count: number
+): Promise<{ recipes: Recipe[]; lastFailure: RecipeCheckFailure | null }> => {
+  const recipes: Recipe[] = [];
+  const seen = new Set<string>();
+  let lastFailure: RecipeCheckFailure | null = null;
+  let conversation = messages;
+
+  for (let round = 0; round < 2 && recipes.length < count; round++) {
+    const content = await callModel(provider, conversation);
+    const items = parseCandidateList(content);
+    if (!items?.length) {
+      lastFailure = {
+        ok: false,
+        code: 'INVALID_RECIPE',
+        errors: [{ field: 'recipes', message: 'Must be a non-empty JSON array of recipes' }],
+      };
+    }
+
+    for (const [index, item] of (items ?? []).entries()) {
+      const result = check(validateRecipe(item));
+      if (!result.ok) {
+        console.warn(`Dropping invalid candidate ${index}:`, result.errors);
+        lastFailure = result;
+        continue;
+      }
+      const keys = dedupeKeys(result.recipe);
+      if (keys.some((key) => seen.has(key))) {
+        console.log('Dropping duplicate candidate:', result.recipe.name);
+        continue;
+      }
+      keys.forEach((key) => seen.add(key));
+      if (recipes.length < count) recipes.push(result.recipe);
+    }
+
+    const missing = count - recipes.length;
+    conversation = [
+      ...messages,
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Give ${missing} more recipes in the same JSON format. Each must differ in name and main technique from: ${recipes
+          .map((r) => `${r.name} (${r.technique ?? 'unknown technique'})`)
+          .join('; ') || 'the previous reply'}.`
+      }
+    ];
+  }
+
+  return { recipes, lastFailure };
+};
+
+// A cache hit in streaming mode: no deltas, just the final recipe event.
+const cachedStream = (recipe: Recipe, cachedAt: string): Response =>
+  new Response(
+    encodeSseEvent({ type: 'recipe', recipe, cached: true, cachedAt }),
+    { headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' } }
+  );
+
+// Forwards model output as it arrives, then validates (and if needed repairs)
+// the full text before sending the final recipe event.
+const streamRecipe = async (
+  provider: AiProvider,
+  messages: ChatMessage[],
+  check: RecipeChecker,
+  req: Request,
+  onRecipe: (recipe: Recipe) => Promise<void>
+): Promise<Response> => {
+  const upstream = new AbortController();
+  req.signal?.addEventListener('abort', () => upstream.abort());
+  const response = await provider.complete(messages, { stream: true, signal: upstream.signal });
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: RecipeStreamEvent) => controller.enqueue(encodeSseEvent(event));
+      let content = '';
+
+      try {
+        for await (const data of readSseData(response.body!)) {
+          if (data === '[DONE]') break;
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            send({ type: 'delta', content: delta });
+          }
+        }
+
+        let result = check(parseRecipe(content));
+        if (!result.ok) {
+          console.warn('Invalid streamed recipe, requesting repair:', result.errors);
+          send({ type: 'repairing' });
+          result = check(parseRecipe(await callModel(provider, repairMessages(messages, content, result.errors))));
+        }
+
+        if (result.ok) {
+          await onRecipe(result.recipe);
+          send({ type: 'recipe', recipe: result.recipe, cached: false });
+        } else {
+          console.error('Recipe still invalid after repair:', result.errors);
+          send({ type: 'error', ...failureBody(result) });
+        }
+      } catch (error) {
+        if (!upstream.signal.aborted) {
+          console.error('Error while streaming recipe:', error);
+          const gatewayError = describeGatewayError(error);
+          send({
+            type: 'error',
+            error: gatewayError?.error ?? (error instanceof Error ? error.message : 'An error occurred'),
+            ...(gatewayError && { code: gatewayError.code }),
+          });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed because the client went away.
+        }
+      }
+    },
+    cancel() {
+      console.log('Client cancelled recipe stream');
+      upstream.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
 };
 
 serve(async (req) => {
@@ -11,88 +182,295 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const startedAt = Date.now();
+
   try {
-    const { ingredients } = await req.json();
-    console.log('Generating recipe for ingredients:', ingredients);
+    const admin = createAdminClient();
+    const user = await getUser(req, admin);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const {
+      ingredients: rawIngredients,
+      stream = false,
+      fresh = false,
+      constraints: rawConstraints,
+      style: rawStyle,
+      strict = false,
+      staples,
+      maxTime,
+      count: rawCount,
+      freshness: rawFreshness,
+      amounts: rawAmounts,
+      today,
+      language: rawLanguage,
+    } = await req.json();
+
+    // Nothing the user typed reaches the prompt until it has been screened.
+    const { accepted: ingredients, rejected } = screenIngredients(rawIngredients);
+    if (rejected.length > 0) {
+      console.log('Rejected ingredients:', rejected);
+      return new Response(
+        JSON.stringify({
+          error: 'Some ingredients cannot be used in a recipe.',
+          code: 'REJECTED_INGREDIENTS',
+          rejected,
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const constraints = normalizeConstraints(rawConstraints);
+    const style = normalizeStyle(rawStyle);
+    // Staples go in the prompt too; any that fail screening are simply left out.
+    const pantry = normalizePantry({
+      ingredients,
+      staples: Array.isArray(staples) ? screenIngredients(staples).accepted : staples,
+      strict,
+    });
+    const timeBudget = Number(maxTime) > 0 ? Math.round(Number(maxTime)) : null;
+    const count = Math.min(MAX_CANDIDATES, Math.max(1, Math.round(Number(rawCount) || 1)));
+    // Days left are counted from the user's date; the server's may already be tomorrow.
+    const urgent = rankUrgentIngredients(
+      normalizeFreshness(rawFreshness, ingredients),
+      typeof today === 'string' ? today : localDate()
+    );
+    const amounts = normalizeAmounts(rawAmounts, ingredients);
+    const hasAmounts = Object.keys(amounts).length > 0;
+
+    if (stream && count > 1) {
+      return new Response(
+        JSON.stringify({ error: 'Streaming is only available for a single recipe.' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const provider = getProvider();
+    const profile = await getKitchenProfile(admin, user.id);
+    const { equipment } = profile;
+    // The client sends the browser's language until the user picks one for their profile.
+    const language = normalizeLanguage(rawLanguage) ?? profile.language ?? DEFAULT_LANGUAGE;
+
+    // Everything that changes the model's answer belongs in the cache key.
+    const cacheIngredients = normalizeIngredientList(ingredients);
+    const options = {
+      constraints,
+      style,
+      count,
+      ...(pantry?.strict && { strict: true, staples: pantry.staples }),
+      ...(hasAmounts && { amounts }),
+      ...(equipment && { equipment }),
+      ...(timeBudget && { maxTime: timeBudget }),
+      ...(urgent.length > 0 && { useFirst: urgent }),
+      ...(language !== DEFAULT_LANGUAGE && { language }),
+    };
+    const cacheKey = await createCacheKey(cacheIngredients, options, provider.model);
+    const useCache = cacheTtlHours() > 0;
+
+    const record = (recipes: Recipe[], cached: boolean) =>
+      recordGeneration(admin, {
+        userId: user.id,
+        ingredients,
+        options,
+        model: provider.model,
+        latencyMs: Date.now() - startedAt,
+        cached,
+        recipes,
+      });
+
+    if (useCache && !fresh) {
+      const entry = await readCache<{ recipe: Recipe } | { recipes: Recipe[] }>(admin, cacheKey);
+      if (entry) {
+        console.log('Serving cached result for ingredients:', cacheIngredients);
+        await record('recipe' in entry.result ? [entry.result.recipe] : entry.result.recipes, true);
+        if (stream && 'recipe' in entry.result) {
+          return cachedStream(entry.result.recipe, entry.cachedAt);
+        }
+        return new Response(
+          JSON.stringify({ ...entry.result, cached: true, cachedAt: entry.cachedAt }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
+    // Only requests that reach the model count against the user's limits.
+    const retryAfter = await consumeQuota(admin, user.id, 'generate-recipe');
+    if (retryAfter > 0) {
+      console.log('Rate limit reached for user', user.id, 'retry after', retryAfter, 'seconds');
+      return rateLimitedResponse(retryAfter);
     }
 
-    const systemPrompt = `You are an expert chef AI that creates delicious recipes based on available ingredients. 
+    console.log('Generating recipe for ingredients:', ingredients, 'with constraints:', constraints, 'and style:', style);
+    console.log(`Using AI provider ${provider.name} (${provider.model})`);
+
+    const remember = async (result: { recipe: Recipe } | { recipes: Recipe[] }) => {
+      if (useCache) {
+        await writeCache(admin, cacheKey, { ingredients: cacheIngredients, options, model: provider.model, result });
+      }
+    };
+
+    const finish = async (recipe: Recipe) => {
+      await remember({ recipe });
+      await record([recipe], false);
+    };
+
+    const dietarySection = hasConstraints(constraints)
+      ? `\nDietary requirements (these override everything else; leave out any provided ingredient that breaks them):\n${describeConstraints(constraints)}\n`
+      : '';
+
+    const styleSection = hasStyle(style)
+      ? `\nRequested style (build the dish around it, not just the name):\n${describeStyle(style)}\n`
+      : '';
+
+    const strictSection = pantry?.strict
+      ? `\nOnly what the cook has (this is strict):\n${describeStrictPantry(pantry)}\n`
+      : '';
+
+    const amountSection = hasAmounts
+      ? `\nHow much the cook has (never call for more than this):\n${describeAmounts(amounts)}\n`
+      : '';
+
+    const equipmentSection = equipment
+      ? `\nKitchen equipment:\n${describeEquipment(equipment)}\n`
+      : '';
+
+    const timeSection = timeBudget
+      ? `\nTime budget:\n- prepTime + cookTime + restTime MUST be at most ${timeBudget} minutes in total; pick a dish that fits rather than understating the times\n`
+      : '';
+
+    const urgentSection = urgent.length > 0
+      ? `\nUse these first (they are about to spoil):\n${describeUrgentIngredients(urgent)}\n`
+      : '';
+
+    const languageSection = language !== DEFAULT_LANGUAGE
+      ? `\nLanguage:\n${describeLanguage(language)}\n`
+      : '';
+
+    const systemPrompt = `You are an expert chef AI that creates delicious recipes based on available ingredients.
 When given a list of ingredients, create a complete, detailed recipe that:
 - Has a creative and appetizing name
-- Lists all ingredients with measurements
+- Lists all ingredients as structured lines with a numeric quantity, a unit, the item and any preparation
 - Provides clear step-by-step cooking instructions
-- Includes estimated cooking time (in minutes)
+- Includes realistic prep, cook and rest times in minutes (rest covers marinating, resting and chilling)
 - Specifies difficulty level (Easy, Medium, or Hard)
-- Includes nutritional macros per serving (calories, protein, carbs, fats)
+- Includes nutrition per serving: calories, protein, carbs, fats, fiber, sugar and saturated fat in grams, sodium and cholesterol in mg, vitamin D in mcg, and calcium, iron and potassium in mg
 - Makes the most of the provided ingredients
-
+${dietarySection}${strictSection}${amountSection}${equipmentSection}${timeSection}${urgentSection}${styleSection}${languageSection}
 Format your response as JSON with this structure:
 {
   "name": "Recipe Name",
-  "cookingTime": 30,
+  "prepTime": 10,
+  "cookTime": 20,
+  "restTime": 0,
+  "totalTime": 30,
   "difficulty": "Easy",
   "servings": 4,
   "macros": {
     "calories": 450,
     "protein": 35,
     "carbs": 40,
-    "fats": 15
+    "fats": 15,
+    "fiber": 4,
+    "sugar": 6,
+    "saturatedFat": 3,
+    "sodium": 620,
+    "cholesterol": 85,
+    "vitaminD": 0.5,
+    "calcium": 80,
+    "iron": 2.5,
+    "potassium": 540
   },
-  "ingredients": ["ingredient 1", "ingredient 2"],
-  "instructions": ["step 1", "step 2"]
-}`;
-
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: `Create a recipe using these ingredients: ${ingredients.join(', ')}` }
-        ],
-        response_format: { type: "json_object" }
-      }),
-    });
+  "ingredients": [
+    { "quantity": 2, "unit": "cup", "item": "basmati rice", "preparation": "rinsed", "optional": false },
+    { "quantity": 1, "unit": null, "item": "onion", "preparation": "finely chopped", "optional": false },
+    { "quantity": null, "unit": null, "item": "fresh cilantro", "preparation": "to garnish", "optional": true }
+  ],
+  "instructions": ["step 1", "step 2"],
+  "technique": "pan-fry",
+  "equipment": ["saucepan", "stovetop"]
+}
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI gateway error:', response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
+Use a number (not a fraction string) for "quantity", or null when the amount is "to taste". Use short units such as g, kg, ml, l, tsp, tbsp, cup, oz, lb, clove, can, or null for whole items. "technique" is the main cooking method in one or two words. "equipment" lists every appliance and notable tool the recipe needs.`;
+
+    const candidatesPrompt = `
+
+Create ${count} clearly different recipes instead of one. Each must have a distinct name and a different main technique (for example bake, stir-fry, braise, grill, raw salad, soup).
+Respond with a JSON object of the form { "recipes": [ <recipe>, <recipe> ] } where every <recipe> has the structure above.`;
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: count > 1 ? systemPrompt + candidatesPrompt : systemPrompt },
+      {
+        role: 'user',
+        content: `Create ${count > 1 ? `${count} recipes` : 'a recipe'} using these ingredients: ${ingredients.join(', ')}`
       }
-      
-      if (response.status === 402) {
+    ];
+
+    const check = createChecker({ constraints, style, pantry, equipment, timeBudget, urgent, language });
+
+    if (count > 1) {
+      const { recipes, lastFailure } = await generateCandidates(provider, messages, check, count);
+      console.log(`Generated ${recipes.length} of ${count} requested candidates`);
+
+      if (recipes.length === 0 && lastFailure) {
         return new Response(
-          JSON.stringify({ error: 'Payment required. Please add credits to your workspace.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          JSON.stringify(failureBody(lastFailure)),
+          { status: failureStatus(lastFailure), headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
-      
-      throw new Error(`AI gateway error: ${response.status}`);
+
+      // A short list means the model struggled; let the next identical request try again.
+      if (recipes.length === count) {
+        await remember({ recipes });
+      }
+      if (recipes.length > 0) {
+        await record(recipes, false);
+      }
+
+      return new Response(
+        JSON.stringify({ recipes, cached: false }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    const data = await response.json();
+    if (stream) {
+      return await streamRecipe(provider, messages, check, req, finish);
+    }
+
+    let content = await callModel(provider, messages);
     console.log('AI response received');
-    
-    const recipeData = JSON.parse(data.choices[0].message.content);
+    let result = check(parseRecipe(content));
+
+    // One repair round: show the model its own output and what was wrong with it.
+    if (!result.ok) {
+      console.warn('Invalid recipe from model, requesting repair:', result.errors);
+      content = await callModel(provider, repairMessages(messages, content, result.errors));
+      result = check(parseRecipe(content));
+    }
+
+    if (!result.ok) {
+      console.error('Recipe still invalid after repair:', result.errors);
+      return new Response(
+        JSON.stringify(failureBody(result)),
+        { status: failureStatus(result), headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await finish(result.recipe);
 
     return new Response(
-      JSON.stringify({ recipe: recipeData }),
+      JSON.stringify({ recipe: result.recipe, cached: false }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
+    const gatewayError = describeGatewayError(error);
+    if (gatewayError) {
+      return new Response(
+        JSON.stringify({ error: gatewayError.error, code: gatewayError.code }),
+        { status: gatewayError.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     console.error('Error in generate-recipe function:', error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'An error occurred' }),
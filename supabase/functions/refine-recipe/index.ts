@@ -0,0 +1,151 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { callModel, describeGatewayError, getProvider, type ChatMessage } from "../_shared/ai.ts";
+import { describeConstraints, hasConstraints, normalizeConstraints } from "../_shared/constraints.ts";
+import { consumeQuota, createAdminClient, getUser, rateLimitedResponse, unauthorizedResponse } from "../_shared/auth.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { describeEquipment } from "../_shared/equipment.ts";
+import { urgentFromUsage } from "../_shared/freshness.ts";
+import { describeLanguage } from "../_shared/language.ts";
+import { describeStrictPantry } from "../_shared/pantry.ts";
+import { getKitchenProfile } from "../_shared/profile.ts";
+import { validateRecipe, type RecipeValidationResult } from "../_shared/recipe.ts";
+import { createChecker, failureBody, failureStatus, repairMessages } from "../_shared/recipe-check.ts";
+
+const MAX_INSTRUCTION_LENGTH = 500;
+const MAX_HISTORY = 5;
+
+// The model answers with { summary, recipe }; only the recipe is schema-checked.
+const parseRefinement = (content: string): { summary: string; result: RecipeValidationResult } => {
+  try {
+    const parsed = JSON.parse(content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+    const summary = typeof parsed?.summary === 'string' ? parsed.summary.trim() : '';
+    return { summary, result: validateRecipe(parsed?.recipe) };
+  } catch {
+    return {
+      summary: '',
+      result: { ok: false, errors: [{ field: '$', message: 'Response was not valid JSON (possibly truncated)' }] },
+    };
+  }
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const admin = createAdminClient();
+    const user = await getUser(req, admin);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { recipe: rawRecipe, instruction, history = [] } = await req.json();
+
+    const current = validateRecipe(rawRecipe);
+    const request = typeof instruction === 'string' ? instruction.trim() : '';
+    if (!current.ok || !request || request.length > MAX_INSTRUCTION_LENGTH) {
+      return new Response(
+        JSON.stringify({
+          error: 'Send a valid recipe and a change request of up to 500 characters.',
+          code: 'INVALID_REQUEST',
+          fields: current.ok ? [] : current.errors,
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const retryAfter = await consumeQuota(admin, user.id, 'refine-recipe');
+    if (retryAfter > 0) {
+      console.log('Rate limit reached for user', user.id, 'retry after', retryAfter, 'seconds');
+      return rateLimitedResponse(retryAfter);
+    }
+    console.log('Refining recipe:', current.recipe.name, 'with instruction:', request);
+
+    const provider = getProvider();
+    console.log(`Using AI provider ${provider.name} (${provider.model})`);
+
+    const constraints = normalizeConstraints(current.recipe.constraints);
+    const pantry = current.recipe.pantry;
+    const { equipment } = await getKitchenProfile(admin, user.id);
+    const timeBudget = current.recipe.timeBudget ?? null;
+    const useFirst = current.recipe.useFirst;
+    const urgent = useFirst ? urgentFromUsage(useFirst) : [];
+    const language = current.recipe.language;
+    const earlierRequests = (Array.isArray(history) ? history : [])
+      .filter((turn): turn is string => typeof turn === 'string')
+      .slice(-MAX_HISTORY);
+
+    const systemPrompt = `You are an expert chef AI that adapts existing recipes on request.
+You will receive a recipe as JSON and a change request such as "make it spicier" or "no oven".
+- Apply the change request fully, adjusting ingredients, quantities, instructions, prep/cook/rest times, difficulty and nutrition (macros and the detailed figures) as needed
+- Keep everything the request does not affect
+- Rename the recipe only if the dish has meaningfully changed
+- If the request is not about cooking, return the recipe unchanged and say so in the summary
+${hasConstraints(constraints) ? `\nThe recipe must keep meeting these dietary requirements:\n${describeConstraints(constraints)}\n` : ''}${
+  pantry?.strict ? `\nThe cook can only use what they have:\n${describeStrictPantry(pantry)}\n` : ''
+}${equipment ? `\nKitchen equipment:\n${describeEquipment(equipment)}\n` : ''}${
+  timeBudget ? `\nThe total of prepTime, cookTime and restTime must stay at most ${timeBudget} minutes.\n` : ''
+}${
+  useFirst?.used.length ? `\nKeep using these ingredients, they are about to spoil: ${useFirst.used.join(', ')}\n` : ''
+}${language && language !== 'en' ? `\nKeep the recipe in its language:\n${describeLanguage(language)}\n` : ''}
+Respond with JSON of the form:
+{
+  "summary": "One or two sentences describing what you changed",
+  "recipe": { ...the complete updated recipe, in exactly the same structure as the input... }
+}`;
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      {
+        role: 'user',
+        content: `Current recipe:\n${JSON.stringify(current.recipe)}\n\n${
+          earlierRequests.length > 0 ? `Earlier requests, already applied:\n${earlierRequests.map((turn) => `- ${turn}`).join('\n')}\n\n` : ''
+        }Change request: ${request}`
+      }
+    ];
+
+    const check = createChecker({ constraints, style: current.recipe.style, pantry, equipment, timeBudget, urgent, language });
+    let content = await callModel(provider, messages);
+    let refinement = parseRefinement(content);
+    let result = check(refinement.result);
+
+    if (!result.ok) {
+      console.warn('Invalid refinement from model, requesting repair:', result.errors);
+      content = await callModel(provider, repairMessages(messages, content, result.errors));
+      refinement = parseRefinement(content);
+      result = check(refinement.result);
+    }
+
+    if (!result.ok) {
+      console.error('Refinement still invalid after repair:', result.errors);
+      return new Response(
+        JSON.stringify(failureBody(result)),
+        { status: failureStatus(result), headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        recipe: { ...result.recipe, technique: result.recipe.technique ?? current.recipe.technique },
+        summary: refinement.summary || 'Updated the recipe.',
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    const gatewayError = describeGatewayError(error);
+    if (gatewayError) {
+      return new Response(
+        JSON.stringify({ error: gatewayError.error, code: gatewayError.code }),
+        { status: gatewayError.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.error('Error in refine-recipe function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'An error occurred' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,111 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { callModel, describeGatewayError, getProvider, type ChatMessage } from "../_shared/ai.ts";
+import { describeConstraints, findConstraintViolations, hasConstraints, normalizeConstraints } from "../_shared/constraints.ts";
+import { consumeQuota, createAdminClient, getUser, rateLimitedResponse, unauthorizedResponse } from "../_shared/auth.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { formatIngredient } from "../_shared/ingredients.ts";
+import { validateRecipe } from "../_shared/recipe.ts";
+import { normalizeSubstitutions } from "../_shared/substitutions.ts";
+
+const MAX_SUGGESTIONS = 3;
+
+// The local table in _shared/substitutions.ts covers the common swaps; this
+// asks the model only for ingredients it doesn't know.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const admin = createAdminClient();
+    const user = await getUser(req, admin);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { recipe: rawRecipe, index } = await req.json();
+
+    const current = validateRecipe(rawRecipe);
+    const line = current.ok && Number.isInteger(index) ? current.recipe.ingredients[index] : undefined;
+    if (!current.ok || !line) {
+      return new Response(
+        JSON.stringify({
+          error: 'Send a valid recipe and the index of one of its ingredients.',
+          code: 'INVALID_REQUEST',
+          fields: current.ok ? [] : current.errors,
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const retryAfter = await consumeQuota(admin, user.id, 'suggest-substitutions');
+    if (retryAfter > 0) {
+      console.log('Rate limit reached for user', user.id, 'retry after', retryAfter, 'seconds');
+      return rateLimitedResponse(retryAfter);
+    }
+
+    const provider = getProvider();
+    console.log(`Suggesting substitutions for "${line.item}" with ${provider.name} (${provider.model})`);
+
+    const constraints = normalizeConstraints(current.recipe.constraints);
+
+    const systemPrompt = `You are an expert chef AI that suggests ingredient substitutions.
+You will receive a recipe as JSON and one of its ingredient lines.
+- Suggest up to ${MAX_SUGGESTIONS} practical substitutes a home cook is likely to have
+- Give amounts that replace the whole line, as structured lines like the recipe's own
+- Prefer swaps that keep the dish working; mention any change in method in the note
+${hasConstraints(constraints) ? `\nEvery substitute must keep meeting these dietary requirements:\n${describeConstraints(constraints)}\n` : ''}
+Respond with JSON of the form:
+{
+  "substitutions": [
+    {
+      "name": "short name to use in the instructions, e.g. flax egg",
+      "ingredients": [{ "quantity": 1, "unit": "tbsp", "item": "ground flaxseed", "preparation": null, "optional": false }],
+      "note": "One sentence on how to use it"
+    }
+  ]
+}`;
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      {
+        role: 'user',
+        content: `Recipe:\n${JSON.stringify(current.recipe)}\n\nSubstitute for: ${formatIngredient(line)}`
+      }
+    ];
+
+    const content = await callModel(provider, messages);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+    } catch {
+      parsed = null;
+    }
+
+    // Drop anything that breaks the recipe's own requirements rather than trusting the prompt.
+    const substitutions = normalizeSubstitutions((parsed as { substitutions?: unknown } | null)?.substitutions)
+      .filter((substitution) => findConstraintViolations(substitution.ingredients, constraints).length === 0)
+      .slice(0, MAX_SUGGESTIONS);
+    console.log(`Model suggested ${substitutions.length} usable substitutions`);
+
+    return new Response(
+      JSON.stringify({ substitutions }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    const gatewayError = describeGatewayError(error);
+    if (gatewayError) {
+      return new Response(
+        JSON.stringify({ error: gatewayError.error, code: gatewayError.code }),
+        { status: gatewayError.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.error('Error in suggest-substitutions function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'An error occurred' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
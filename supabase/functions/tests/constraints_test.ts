@@ -0,0 +1,65 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  type DietaryConstraints,
+  dietaryProfile,
+  findConstraintViolations,
+  normalizeConstraints,
+} from "../_shared/constraints.ts";
+import { parseIngredientLine } from "../_shared/ingredients.ts";
+
+const keywordsFor = (items: string[], constraints: DietaryConstraints) =>
+  findConstraintViolations(items.map(parseIngredientLine), constraints).map(({ item, keyword }) => [item, keyword]);
+
+Deno.test("normalizeConstraints drops unknown values", () => {
+  assertEquals(normalizeConstraints({ diets: ["vegan", "paleo"], allergens: ["dairy", 3] }), {
+    diets: ["vegan"],
+    allergens: ["dairy"],
+  });
+  assertEquals(normalizeConstraints("vegan"), { diets: [], allergens: [] });
+});
+
+const flagged: [string, DietaryConstraints, string][] = [
+  ["4 sausages", { diets: ["vegetarian"], allergens: [] }, "sausage"],
+  ["2 steaks", { diets: ["vegetarian"], allergens: [] }, "steak"],
+  ["1 tbsp worcestershire sauce", { diets: ["vegetarian"], allergens: [] }, "worcestershire"],
+  ["1 tbsp worcestershire sauce", { diets: [], allergens: ["fish"] }, "worcestershire"],
+  ["200 g mixed cheeses", { diets: ["vegan"], allergens: [] }, "cheese"],
+  ["200 g mixed cheeses", { diets: [], allergens: ["dairy"] }, "cheese"],
+  ["3 eggs", { diets: [], allergens: ["eggs"] }, "egg"],
+  ["1 cup breadcrumbs", { diets: ["gluten-free"], allergens: [] }, "breadcrumb"],
+  ["2 tbsp oyster sauce", { diets: [], allergens: ["shellfish"] }, "oyster"],
+  ["6 anchovies", { diets: ["vegetarian"], allergens: [] }, "anchovies"],
+  ["100 g lardons", { diets: ["halal"], allergens: [] }, "lardon"],
+  ["1 sachet gelatine", { diets: ["vegetarian"], allergens: [] }, "gelatine"],
+  ["½ cup cashews", { diets: [], allergens: ["tree-nuts"] }, "cashew"],
+  ["2 tbsp hoisin sauce", { diets: [], allergens: ["soy"] }, "hoisin"],
+  ["1 cup potatoes", { diets: ["keto"], allergens: [] }, "potato"],
+];
+
+for (const [item, constraints, keyword] of flagged) {
+  Deno.test(`findConstraintViolations flags "${item}" for ${[...constraints.diets, ...constraints.allergens]}`, () => {
+    assertEquals(keywordsFor([item], constraints)[0]?.[1], keyword);
+  });
+}
+
+const allowed: [string, DietaryConstraints][] = [
+  ["1 can coconut milk", { diets: ["vegan"], allergens: ["dairy"] }],
+  ["2 tbsp peanut butter", { diets: ["vegan"], allergens: ["dairy"] }],
+  ["1 eggplant", { diets: ["vegan"], allergens: ["eggs"] }],
+  ["200 g rice noodles", { diets: [], allergens: ["gluten"] }],
+  ["1 cup green beans", { diets: ["keto"], allergens: [] }],
+  ["1 cup vegetable bouillon", { diets: ["vegetarian"], allergens: [] }],
+  ["2 tbsp minced garlic", { diets: ["vegan"], allergens: [] }],
+];
+
+for (const [item, constraints] of allowed) {
+  Deno.test(`findConstraintViolations allows "${item}"`, () => {
+    assertEquals(keywordsFor([item], constraints), []);
+  });
+}
+
+Deno.test("dietaryProfile lists the diets a recipe fits and the allergens it has", () => {
+  const profile = dietaryProfile(["2 chicken breasts", "1 cup rice", "2 tbsp butter"].map(parseIngredientLine));
+  assertEquals(profile.diets, ["halal", "kosher", "gluten-free"]);
+  assertEquals(profile.allergens, ["dairy"]);
+});
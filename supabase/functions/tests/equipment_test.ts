@@ -0,0 +1,57 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { findEquipmentViolations } from "../_shared/equipment.ts";
+import { findKeyword } from "../_shared/keywords.ts";
+
+const stovetopOnly = ["stovetop" as const];
+const keywordsIn = (instructions: string[], equipment: string[] = []) =>
+  findEquipmentViolations({ equipment, instructions }, stovetopOnly).map(({ keyword }) => keyword);
+
+Deno.test("findKeyword matches plurals by default and verb forms on request", () => {
+  assertEquals(findKeyword("two sausages", { keywords: ["sausage"] }), "sausage");
+  assertEquals(findKeyword("baked until golden", { keywords: ["bake"] }), null);
+  assertEquals(findKeyword("baked until golden", { keywords: ["bake"] }, "verb"), "bake");
+  assertEquals(findKeyword("keep baking", { keywords: ["bake"] }, "verb"), "bake");
+  assertEquals(findKeyword("a baker's dozen", { keywords: ["bake"] }, "verb"), null);
+  assertEquals(findKeyword("coconut milk", { keywords: ["milk"], safe: ["coconut milk"] }), null);
+});
+
+Deno.test("findEquipmentViolations catches inflected cooking verbs", () => {
+  assertEquals(keywordsIn(["Bake for 20 minutes."]), ["bake"]);
+  assertEquals(keywordsIn(["Once baked, let it rest."]), ["bake"]);
+  assertEquals(keywordsIn(["Keep baking until set."]), ["bake"]);
+  assertEquals(keywordsIn(["Serve the broiled fish."]), ["broil"]);
+  assertEquals(keywordsIn(["Microwaving is fine too."]), ["microwave"]);
+  assertEquals(keywordsIn(["Grill the peppers."]), ["grill"]);
+});
+
+Deno.test("findEquipmentViolations ignores safe phrases and available equipment", () => {
+  assertEquals(keywordsIn(["Simmer in a dutch oven."]), []);
+  assertEquals(keywordsIn(["Sear in a grill pan over high heat."]), []);
+  assertEquals(keywordsIn(["Fry in a skillet."]), []);
+});
+
+Deno.test("findEquipmentViolations passes a stovetop pancake recipe with baking powder", () => {
+  const instructions = [
+    "Whisk the flour, sugar, baking powder and a pinch of baking soda.",
+    "Stir in the milk and egg.",
+    "Cook ladlefuls in a skillet until bubbles form, then flip.",
+  ];
+  assertEquals(keywordsIn(instructions, ["skillet", "whisk", "oven mitts"]), []);
+});
+
+Deno.test("findEquipmentViolations passes baked beans warmed on the stove", () => {
+  assertEquals(keywordsIn(["Warm the baked beans in a saucepan."]), []);
+  assertEquals(keywordsIn(["Warm the baked beans, then bake the toast."]), ["bake"]);
+});
+
+Deno.test("findEquipmentViolations checks the equipment list by field", () => {
+  assertEquals(
+    findEquipmentViolations({ equipment: ["saucepan", "oven"], instructions: [] }, stovetopOnly),
+    [{ field: "equipment[1]", equipment: "oven", keyword: "oven" }],
+  );
+});
+
+Deno.test("findEquipmentViolations skips instructions in other languages", () => {
+  const recipe = { equipment: ["oven"], instructions: ["Hornear 20 minutos, bake"] };
+  assertEquals(findEquipmentViolations(recipe, stovetopOnly, "es").map(({ field }) => field), ["equipment[0]"]);
+});
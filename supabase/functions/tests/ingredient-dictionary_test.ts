@@ -0,0 +1,65 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  canonicalIngredient,
+  ingredientKey,
+  searchIngredients,
+  suggestCorrection,
+} from "../_shared/ingredient-dictionary.ts";
+
+const canonical: [string, string | null][] = [
+  ["Tomatoes", "tomato"],
+  ["courgettes", "zucchini"],
+  ["Spring Onions", "green onion"],
+  ["chickpeas", "chickpea"],
+  ["pepper", "pepper"],
+  ["peppers", "pepper"],
+  ["black pepper", "black pepper"],
+  ["capsicums", "bell pepper"],
+  ["cheese", "cheese"],
+  ["cheeses", "cheese"],
+  ["chevre", "goat cheese"],
+  ["dragon fruit", null],
+];
+
+for (const [text, name] of canonical) {
+  Deno.test(`canonicalIngredient: "${text}" is ${name ?? "unknown"}`, () => {
+    assertEquals(canonicalIngredient(text), name);
+  });
+}
+
+const corrections: [string, string | null][] = [
+  ["brocoli", "broccoli"],
+  ["zuchini", "zucchini"],
+  ["tomatos", null],
+  ["parmesean", "parmesan"],
+  ["courgete", "zucchini"],
+  ["cheese", null],
+  ["peppers", null],
+  ["sausages", null],
+  ["steak", null],
+  ["mince", null],
+  ["chese", "cheese"],
+  ["xyzzy", null],
+];
+
+for (const [text, correction] of corrections) {
+  Deno.test(`suggestCorrection: "${text}" gives ${correction ?? "nothing"}`, () => {
+    assertEquals(suggestCorrection(text), correction);
+  });
+}
+
+Deno.test("suggestCorrection reaches a synonym only one edit away", () => {
+  assertEquals(suggestCorrection("chevra"), "goat cheese");
+  assertEquals(suggestCorrection("corgitte"), null);
+});
+
+Deno.test("ingredientKey treats synonyms and plurals as the same ingredient", () => {
+  assertEquals(ingredientKey("Aubergines"), ingredientKey("eggplant"));
+  assertEquals(ingredientKey("peppers") === ingredientKey("black pepper"), false);
+});
+
+Deno.test("searchIngredients ranks the exact generic name first", () => {
+  assertEquals(searchIngredients("pepper")[0], { name: "pepper" });
+  assertEquals(searchIngredients("cheese")[0], { name: "cheese" });
+  assertEquals(searchIngredients("courg")[0], { name: "zucchini", via: "courgette" });
+});
@@ -0,0 +1,60 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { formatIngredient, normalizeUnit, parseIngredientLine, parseQuantity } from "../_shared/ingredients.ts";
+
+Deno.test("parseQuantity reads whole numbers, fractions and glyphs", () => {
+  assertEquals(parseQuantity("2"), 2);
+  assertEquals(parseQuantity("2.5"), 2.5);
+  assertEquals(parseQuantity("1/2"), 0.5);
+  assertEquals(parseQuantity("1 1/2"), 1.5);
+  assertEquals(parseQuantity("½"), 0.5);
+  assertEquals(parseQuantity("3¼"), 3.25);
+  assertEquals(parseQuantity("1/0"), null);
+  assertEquals(parseQuantity(""), null);
+});
+
+Deno.test("normalizeUnit maps spellings to canonical units", () => {
+  assertEquals(normalizeUnit("Tablespoons"), "tbsp");
+  assertEquals(normalizeUnit("T"), "tbsp");
+  assertEquals(normalizeUnit("t"), "tsp");
+  assertEquals(normalizeUnit("lbs."), "lb");
+  assertEquals(normalizeUnit("tins"), "can");
+  assertEquals(normalizeUnit(""), null);
+});
+
+const cases: [string, ReturnType<typeof parseIngredientLine>][] = [
+  [
+    "2 cups onions, finely chopped (optional)",
+    { quantity: 2, unit: "cup", item: "onions", preparation: "finely chopped", optional: true },
+  ],
+  ["1 1/2 tsp salt", { quantity: 1.5, unit: "tsp", item: "salt", preparation: null, optional: false }],
+  ["a pinch of nutmeg", { quantity: 1, unit: "pinch", item: "nutmeg", preparation: null, optional: false }],
+  ["2-3 cloves garlic", { quantity: 2, unit: "clove", item: "garlic", preparation: null, optional: false }],
+  ["3 eggs", { quantity: 3, unit: null, item: "eggs", preparation: null, optional: false }],
+  ["salt to taste", { quantity: null, unit: null, item: "salt", preparation: "to taste", optional: false }],
+  ["butter (softened)", { quantity: null, unit: null, item: "butter", preparation: "softened", optional: false }],
+  [
+    "1 (14 oz) can tomatoes",
+    { quantity: 1, unit: "can", item: "tomatoes", preparation: "14 oz each", optional: false },
+  ],
+  [
+    "2 (400 g) tins chopped tomatoes, drained",
+    { quantity: 2, unit: "can", item: "chopped tomatoes", preparation: "400 g each, drained", optional: false },
+  ],
+  [
+    "1 (8-ounce) package cream cheese",
+    { quantity: 1, unit: "package", item: "cream cheese", preparation: "8-ounce each", optional: false },
+  ],
+  // A parenthetical not followed by a container is left to the item.
+  ["2 (large) onions", { quantity: 2, unit: null, item: "(large) onions", preparation: null, optional: false }],
+];
+
+for (const [text, expected] of cases) {
+  Deno.test(`parseIngredientLine: ${text}`, () => {
+    assertEquals(parseIngredientLine(text), expected);
+  });
+}
+
+Deno.test("formatIngredient round-trips a package size", () => {
+  assertEquals(formatIngredient(parseIngredientLine("1 (14 oz) can tomatoes")), "1 can tomatoes, 14 oz each");
+  assertEquals(formatIngredient(parseIngredientLine("2 (14 oz) cans tomatoes")), "2 cans tomatoes, 14 oz each");
+});
@@ -0,0 +1,70 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  classifyIngredient,
+  DEFAULT_STAPLES,
+  findMissingIngredients,
+  matchesName,
+  normalizePantry,
+  type Pantry,
+} from "../_shared/pantry.ts";
+import { parseIngredientLine } from "../_shared/ingredients.ts";
+
+const pantry: Pantry = { ingredients: ["chicken", "rice", "tomatoes"], staples: ["salt", "oil", "water"], strict: true };
+
+const classified: [string, ReturnType<typeof classifyIngredient>][] = [
+  ["chicken", "have"],
+  ["chicken breasts", "have"],
+  ["boneless chicken thighs", "have"],
+  ["basmati rice", "have"],
+  ["cherry tomato", "have"],
+  ["olive oil", "staple"],
+  ["sea salt", "staple"],
+  ["chicken stock", "missing"],
+  ["rice vinegar", "missing"],
+  ["tomato paste", "missing"],
+  ["water chestnuts", "missing"],
+  ["saltfish", "missing"],
+];
+
+for (const [item, source] of classified) {
+  Deno.test(`classifyIngredient: "${item}" is ${source}`, () => {
+    assertEquals(classifyIngredient({ item }, pantry), source);
+  });
+}
+
+Deno.test("classifyIngredient also matches the English name of a translated item", () => {
+  assertEquals(classifyIngredient({ item: "pollo", english: "chicken" }, pantry), "have");
+  assertEquals(classifyIngredient({ item: "caldo de pollo", english: "chicken stock" }, pantry), "missing");
+});
+
+Deno.test("matchesName strips part words only from the item's end", () => {
+  assertEquals(matchesName("garlic cloves", "garlic"), true);
+  assertEquals(matchesName("lemon juice", "lemon"), true);
+  assertEquals(matchesName("juice", "lemon"), false);
+  assertEquals(matchesName("oil", "olive oil"), false);
+});
+
+Deno.test("classifyIngredient lets the default black pepper staple cover a plain pepper line", () => {
+  const defaults: Pantry = { ...pantry, staples: DEFAULT_STAPLES };
+  assertEquals(classifyIngredient({ item: "salt and pepper" }, defaults), "staple");
+  assertEquals(classifyIngredient({ item: "pepper" }, defaults), "staple");
+  assertEquals(classifyIngredient({ item: "chicken & rice" }, defaults), "have");
+  assertEquals(classifyIngredient({ item: "salt and sugar" }, defaults), "missing");
+  assertEquals(classifyIngredient({ item: "bell peppers" }, defaults), "missing");
+});
+
+Deno.test("findMissingIngredients returns the lines strict mode rejects", () => {
+  const lines = [
+    "2 chicken breasts", "1 cup rice", "2 cups chicken stock", "1 tbsp rice vinegar", "salt and pepper to taste",
+  ];
+  assertEquals(findMissingIngredients(lines.map(parseIngredientLine), { ...pantry, staples: DEFAULT_STAPLES }), [2, 3]);
+});
+
+Deno.test("normalizePantry lower-cases, dedupes and falls back to default staples", () => {
+  assertEquals(normalizePantry({ ingredients: ["Rice", "rice", 4, " Eggs "], strict: true }), {
+    ingredients: ["rice", "eggs"],
+    staples: ["salt", "black pepper", "oil", "water"],
+    strict: true,
+  });
+  assertEquals(normalizePantry({ ingredients: [] }), null);
+});
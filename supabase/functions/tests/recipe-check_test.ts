@@ -0,0 +1,57 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createChecker } from "../_shared/recipe-check.ts";
+import { validateRecipe } from "../_shared/recipe.ts";
+
+const spanishRecipe = (ingredients: Record<string, unknown>[]) =>
+  validateRecipe({
+    name: "Ensalada",
+    prepTime: 10,
+    cookTime: 0,
+    difficulty: "Easy",
+    servings: 2,
+    macros: { calories: 300, protein: 10, carbs: 20, fats: 15 },
+    ingredients: ingredients.map((line) => ({ quantity: 1, unit: null, ...line })),
+    instructions: ["Mezclar todo."],
+  });
+
+const checkFailure = (
+  ingredients: Record<string, unknown>[],
+  constraints: Parameters<typeof createChecker>[0]["constraints"],
+) => {
+  const check = createChecker({ constraints, language: "es" })(spanishRecipe(ingredients));
+  return check.ok ? null : [check.code, check.errors.map(({ field }) => field)];
+};
+
+Deno.test("createChecker sends a Spanish line without its English name back for repair", () => {
+  const ingredients = [{ item: "lechuga", english: "lettuce" }, { item: "almendras" }];
+  assertEquals(checkFailure(ingredients, { diets: [], allergens: ["tree-nuts"] }), [
+    "INVALID_RECIPE",
+    ["ingredients[1].english"],
+  ]);
+  assertEquals(checkFailure([{ item: "pollo" }], { diets: ["vegetarian"], allergens: [] }), [
+    "INVALID_RECIPE",
+    ["ingredients[0].english"],
+  ]);
+});
+
+Deno.test("createChecker checks the English names of a Spanish recipe", () => {
+  assertEquals(checkFailure([{ item: "almendras", english: "almonds" }], { diets: [], allergens: ["tree-nuts"] }), [
+    "CONSTRAINT_VIOLATION",
+    ["ingredients[0]"],
+  ]);
+  assertEquals(checkFailure([{ item: "pollo", english: "chicken" }], { diets: ["vegetarian"], allergens: [] }), [
+    "CONSTRAINT_VIOLATION",
+    ["ingredients[0]"],
+  ]);
+});
+
+Deno.test("createChecker accepts an English name that is spelled like the item", () => {
+  assertEquals(checkFailure([{ item: "tofu", english: "tofu" }], { diets: ["vegetarian"], allergens: [] }), null);
+});
+
+Deno.test("createChecker does not ask an English recipe for English names", () => {
+  const check = createChecker({ constraints: { diets: [], allergens: [] }, language: "en" })(
+    spanishRecipe([{ item: "lettuce" }]),
+  );
+  assertEquals(check.ok, true);
+});
@@ -0,0 +1,54 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { parseIngredientLine } from "../_shared/ingredients.ts";
+import type { Recipe } from "../_shared/recipe.ts";
+import { applySubstitution, type Substitution } from "../_shared/substitutions.ts";
+
+const recipeWith = (ingredients: string[], instructions: string[]): Recipe => ({
+  name: "Test",
+  prepTime: 5,
+  cookTime: 10,
+  restTime: 0,
+  totalTime: 15,
+  difficulty: "Easy",
+  servings: 2,
+  macros: { calories: 400, protein: 10, carbs: 50, fats: 15 },
+  ingredients: ingredients.map(parseIngredientLine),
+  instructions,
+});
+
+const swap = (name: string, item: string): Substitution => ({
+  name,
+  ingredients: [{ quantity: 2, unit: "tbsp", item, preparation: null, optional: false }],
+  source: "rules",
+});
+
+Deno.test("applySubstitution renames the ingredient but not its verb use", () => {
+  const recipe = recipeWith(["2 tbsp oil", "1 onion"], ["Oil the pan, then heat the oil.", "Fry the onion in oil."]);
+  assertEquals(applySubstitution(recipe, 0, swap("butter", "butter")).instructions, [
+    "Oil the pan, then heat the butter.",
+    "Fry the onion in butter.",
+  ]);
+});
+
+Deno.test("applySubstitution leaves another ingredient that ends in the same word", () => {
+  const recipe = recipeWith(
+    ["2 tbsp butter", "3 tbsp peanut butter"],
+    ["Melt the butter, then stir in the peanut butter."],
+  );
+  assertEquals(applySubstitution(recipe, 0, swap("coconut oil", "coconut oil")).instructions, [
+    "Melt the coconut oil, then stir in the peanut butter.",
+  ]);
+});
+
+Deno.test("applySubstitution uses the head noun only when no other line shares it", () => {
+  const eggs = recipeWith(["2 large eggs", "1 cup flour"], ["Beat the eggs into the flour."]);
+  assertEquals(applySubstitution(eggs, 0, swap("flax egg", "ground flaxseed")).instructions, [
+    "Beat the flax egg into the flour.",
+  ]);
+
+  const oils = recipeWith(["1 tbsp olive oil", "1 tsp sesame oil"], ["Heat the olive oil.", "Finish with the oil."]);
+  assertEquals(applySubstitution(oils, 0, swap("butter", "butter")).instructions, [
+    "Heat the butter.",
+    "Finish with the oil.",
+  ]);
+});
@@ -0,0 +1,120 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { callModel, describeGatewayError, getProvider, type ChatMessage } from "../_shared/ai.ts";
+import { consumeQuota, createAdminClient, getUser, rateLimitedResponse, unauthorizedResponse } from "../_shared/auth.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { applyTranslation, LANGUAGE_NAMES, normalizeLanguage, recipeText } from "../_shared/language.ts";
+import { validateRecipe } from "../_shared/recipe.ts";
+import { repairMessages } from "../_shared/recipe-check.ts";
+
+const parseTranslation = (content: string): unknown => {
+  try {
+    return JSON.parse(content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+  } catch {
+    return null;
+  }
+};
+
+// Only the text goes to the model. Quantities, units, times and nutrition
+// stay exactly as they were, so a translation can't change the recipe itself.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const admin = createAdminClient();
+    const user = await getUser(req, admin);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { recipe: rawRecipe, language: rawLanguage } = await req.json();
+
+    const current = validateRecipe(rawRecipe);
+    const language = normalizeLanguage(rawLanguage);
+    if (!current.ok || !language) {
+      return new Response(
+        JSON.stringify({
+          error: 'Send a valid recipe and a supported language.',
+          code: 'INVALID_REQUEST',
+          fields: current.ok ? [] : current.errors,
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if ((current.recipe.language ?? 'en') === language) {
+      return new Response(
+        JSON.stringify({ recipe: current.recipe }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const retryAfter = await consumeQuota(admin, user.id, 'translate-recipe');
+    if (retryAfter > 0) {
+      console.log('Rate limit reached for user', user.id, 'retry after', retryAfter, 'seconds');
+      return rateLimitedResponse(retryAfter);
+    }
+
+    const provider = getProvider();
+    console.log(`Translating "${current.recipe.name}" into ${LANGUAGE_NAMES[language]} with ${provider.name} (${provider.model})`);
+
+    const systemPrompt = `You are an expert culinary translator.
+You will receive the text of a recipe as JSON: its name, each ingredient's item and preparation, and the instructions.
+- Translate every value into ${LANGUAGE_NAMES[language]} the way a cookbook in that language would phrase it
+- Keep the same number of ingredients and instructions, in the same order
+- Leave numbers, temperatures and times in the instructions as they are
+- Use null for a preparation that is null
+
+Respond with JSON in exactly the same structure as the input.`;
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      {
+        role: 'user',
+        content: `Translate into ${LANGUAGE_NAMES[language]}:\n${JSON.stringify(recipeText(current.recipe))}`
+      }
+    ];
+
+    let content = await callModel(provider, messages);
+    let result = applyTranslation(current.recipe, parseTranslation(content), language);
+
+    if (!result.ok) {
+      console.warn('Invalid translation from model, requesting repair:', result.errors);
+      content = await callModel(provider, repairMessages(messages, content, result.errors));
+      result = applyTranslation(current.recipe, parseTranslation(content), language);
+    }
+
+    if (!result.ok) {
+      console.error('Translation still invalid after repair:', result.errors);
+      return new Response(
+        JSON.stringify({
+          error: 'The AI returned an incomplete translation. Please try again.',
+          code: 'INVALID_TRANSLATION',
+          fields: result.errors,
+        }),
+        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ recipe: result.recipe }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    const gatewayError = describeGatewayError(error);
+    if (gatewayError) {
+      return new Response(
+        JSON.stringify({ error: gatewayError.error, code: gatewayError.code }),
+        { status: gatewayError.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.error('Error in translate-recipe function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'An error occurred' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,73 @@
+-- Create generation_requests table for per-user rate limiting of AI functions
+CREATE TABLE public.generation_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  function_name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_generation_requests_user_created
+ON public.generation_requests (user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.generation_requests ENABLE ROW LEVEL SECURITY;
+
+-- Users may see their own usage; only the edge functions (service role) write it
+CREATE POLICY "Users can view their own generation requests" 
+ON public.generation_requests 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+-- Check the hourly and daily limits and record the request in one transaction.
+-- Returns 0 when the request is allowed, otherwise the seconds until it would be.
+CREATE OR REPLACE FUNCTION public.consume_generation_quota(
+  p_user_id UUID,
+  p_function_name TEXT,
+  p_hourly_limit INTEGER,
+  p_daily_limit INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  window_length INTERVAL;
+  window_limit INTEGER;
+  window_count INTEGER;
+  freed_at TIMESTAMP WITH TIME ZONE;
+  retry_after INTEGER := 0;
+BEGIN
+  -- Serialize concurrent requests from the same user
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text));
+
+  FOR window_length, window_limit IN
+    SELECT * FROM (VALUES (INTERVAL '1 hour', p_hourly_limit), (INTERVAL '1 day', p_daily_limit)) AS windows
+  LOOP
+    SELECT count(*) INTO window_count
+    FROM public.generation_requests
+    WHERE user_id = p_user_id AND created_at > now() - window_length;
+
+    IF window_count >= window_limit THEN
+      -- The request that has to age out before the user is back under the limit
+      SELECT created_at + window_length INTO freed_at
+      FROM public.generation_requests
+      WHERE user_id = p_user_id AND created_at > now() - window_length
+      ORDER BY created_at ASC
+      OFFSET window_count - window_limit
+      LIMIT 1;
+
+      retry_after := GREATEST(retry_after, CEIL(EXTRACT(EPOCH FROM (freed_at - now())))::INTEGER, 1);
+    END IF;
+  END LOOP;
+
+  IF retry_after > 0 THEN
+    RETURN retry_after;
+  END IF;
+
+  INSERT INTO public.generation_requests (user_id, function_name)
+  VALUES (p_user_id, p_function_name);
+  RETURN 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_generation_quota(UUID, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,16 @@
+-- Create recipe_cache table so identical generate-recipe requests reuse an earlier result
+CREATE TABLE public.recipe_cache (
+  cache_key TEXT NOT NULL PRIMARY KEY,
+  ingredients TEXT[] NOT NULL,
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  model TEXT NOT NULL,
+  result JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX idx_recipe_cache_expires_at
+ON public.recipe_cache (expires_at);
+
+-- Enable RLS without policies: only the edge functions (service role) read or write the cache
+ALTER TABLE public.recipe_cache ENABLE ROW LEVEL SECURITY;
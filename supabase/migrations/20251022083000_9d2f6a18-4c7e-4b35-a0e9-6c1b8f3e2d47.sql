@@ -0,0 +1,29 @@
+-- Create recipe_generations table recording every successful generate-recipe call
+CREATE TABLE public.recipe_generations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  ingredients TEXT[] NOT NULL,
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  model TEXT NOT NULL,
+  latency_ms INTEGER NOT NULL,
+  cached BOOLEAN NOT NULL DEFAULT false,
+  recipes JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_recipe_generations_user_created
+ON public.recipe_generations (user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.recipe_generations ENABLE ROW LEVEL SECURITY;
+
+-- Users may browse and clear their own history; only the edge functions (service role) write it
+CREATE POLICY "Users can view their own recipe generations" 
+ON public.recipe_generations 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recipe generations" 
+ON public.recipe_generations 
+FOR DELETE 
+USING (auth.uid() = user_id);
@@ -0,0 +1,4 @@
+-- Add the kitchen equipment inventory to profiles.
+-- NULL means the user hasn't set it, so recipes may use any appliance.
+ALTER TABLE public.profiles
+ADD COLUMN equipment TEXT[];
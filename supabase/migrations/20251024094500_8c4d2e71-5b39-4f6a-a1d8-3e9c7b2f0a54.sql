@@ -0,0 +1,5 @@
+-- Add the preferred measurement system to profiles.
+-- 'original' shows recipes in whatever units they were generated with.
+ALTER TABLE public.profiles
+ADD COLUMN units TEXT NOT NULL DEFAULT 'original'
+CHECK (units IN ('original', 'metric', 'us'));
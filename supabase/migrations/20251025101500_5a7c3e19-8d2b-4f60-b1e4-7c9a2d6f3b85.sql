@@ -0,0 +1,5 @@
+-- Add the language recipes are generated in to profiles.
+-- NULL until the user picks one, so the client keeps following the browser locale.
+ALTER TABLE public.profiles
+ADD COLUMN language TEXT
+CHECK (language IN ('en', 'es', 'hi', 'fr', 'de', 'it', 'pt', 'zh', 'ja', 'ar'));